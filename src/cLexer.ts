@@ -0,0 +1,228 @@
+export type TokenKind = 'identifier' | 'number' | 'string' | 'char' | 'punctuator' | 'directive';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    // Position dans le texte source, fin exclue
+    start: number;
+    end: number;
+}
+
+export interface LexedSource {
+    tokens: Token[];
+    // Commentaires, qui ne produisent pas de token
+    comments: Array<{ start: number; end: number }>;
+}
+
+// Ce que mask() remplace par des espaces
+export interface MaskOptions {
+    comments?: boolean;
+    directives?: boolean;
+    // Contenu des chaînes et des caractères, guillemets conservés
+    literals?: boolean;
+}
+
+// Découpe du C/C++ en tokens : commentaires, chaînes (y compris brutes), caractères, nombres
+// avec séparateurs, directives préprocesseur sur une ligne logique. Les positions sont celles
+// du texte source, pour que les analyses puissent y revenir
+export class CLexer {
+    // Du plus long au plus court ; ">>" et ">=" restent deux tokens pour fermer les templates
+    private static readonly punctuators = ['...', '<<=', '->*', '::', '->', '++', '--', '<<', '<=', '==', '!=', '&&', '||', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '##', '.*'];
+
+    public tokenize(text: string): LexedSource {
+        const tokens: Token[] = [];
+        const comments: Array<{ start: number; end: number }> = [];
+        // Une directive commence par '#' en début de ligne, après d'éventuels blancs
+        let lineStart = true;
+        let i = 0;
+
+        while (i < text.length) {
+            const char = text[i];
+
+            if (char === '\n') {
+                lineStart = true;
+                i++;
+                continue;
+            }
+            if (char === ' ' || char === '\t' || char === '\r' || char === '\f' || char === '\v') {
+                i++;
+                continue;
+            }
+            // Continuation de ligne hors directive
+            if (char === '\\' && /^\\\r?\n/.test(text.substr(i, 3))) {
+                i += text[i + 1] === '\r' ? 3 : 2;
+                continue;
+            }
+
+            if (char === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+                const end = this.skipComment(text, i);
+                comments.push({ start: i, end });
+                i = end;
+                continue;
+            }
+
+            if (char === '#' && lineStart) {
+                const end = this.skipDirective(text, i, comments);
+                tokens.push({ kind: 'directive', text: text.substring(i, end), start: i, end });
+                i = end;
+                continue;
+            }
+            lineStart = false;
+
+            const literal = this.matchLiteral(text, i);
+            if (literal) {
+                tokens.push({ kind: literal.kind, text: text.substring(i, literal.end), start: i, end: literal.end });
+                i = literal.end;
+                continue;
+            }
+
+            if (/[A-Za-z_$]/.test(char)) {
+                const match = /[A-Za-z_$][\w$]*/y;
+                match.lastIndex = i;
+                const word = match.exec(text)![0];
+                tokens.push({ kind: 'identifier', text: word, start: i, end: i + word.length });
+                i += word.length;
+                continue;
+            }
+
+            if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+                // pp-number : "0x1Fu", "1'000'000", "1.5e-3f"
+                const match = /\.?[0-9](?:[eEpP][+-]|'[0-9A-Za-z_]|[0-9A-Za-z_.])*/y;
+                match.lastIndex = i;
+                const number = match.exec(text)![0];
+                tokens.push({ kind: 'number', text: number, start: i, end: i + number.length });
+                i += number.length;
+                continue;
+            }
+
+            const punctuator = CLexer.punctuators.find(candidate => text.startsWith(candidate, i)) || char;
+            tokens.push({ kind: 'punctuator', text: punctuator, start: i, end: i + punctuator.length });
+            i += punctuator.length;
+        }
+
+        return { tokens, comments };
+    }
+
+    // Texte de même longueur, les parties demandées remplacées par des espaces (sauts de ligne conservés).
+    // lexed évite de relire un texte déjà découpé
+    public mask(text: string, options: MaskOptions, lexed: LexedSource = this.tokenize(text)): string {
+        const { tokens, comments } = lexed;
+        const ranges: Array<{ start: number; end: number }> = [];
+
+        if (options.comments) {
+            ranges.push(...comments);
+        }
+        for (const token of tokens) {
+            if (token.kind === 'directive' && options.directives) {
+                ranges.push(token);
+            } else if ((token.kind === 'string' || token.kind === 'char') && options.literals) {
+                // Préfixe et guillemets restent : "u8\"...\"" devient "u8\"   \""
+                const open = token.text.search(/["']/);
+                ranges.push({ start: token.start + open + 1, end: token.end - 1 });
+            }
+        }
+        if (ranges.length === 0) {
+            return text;
+        }
+
+        ranges.sort((a, b) => a.start - b.start);
+        let result = '';
+        let lastIndex = 0;
+        for (const range of ranges) {
+            // Un commentaire dans une directive est couvert par les deux
+            const start = Math.max(range.start, lastIndex);
+            if (range.end <= start) {
+                continue;
+            }
+            result += text.substring(lastIndex, start) + text.substring(start, range.end).replace(/[^\r\n]/g, ' ');
+            lastIndex = range.end;
+        }
+
+        return result + text.substring(lastIndex);
+    }
+
+    private skipComment(text: string, start: number): number {
+        if (text[start + 1] === '*') {
+            const end = text.indexOf('*/', start + 2);
+            return end < 0 ? text.length : end + 2;
+        }
+
+        // Un commentaire "//" continue sur la ligne suivante après un '\' final
+        let i = start + 2;
+        while (i < text.length && text[i] !== '\n') {
+            i += text[i] === '\\' && text[i + 1] === '\n' ? 2 : text[i] === '\\' && text[i + 1] === '\r' && text[i + 2] === '\n' ? 3 : 1;
+        }
+        return text[i - 1] === '\r' ? i - 1 : i;
+    }
+
+    // Jusqu'à la fin de la ligne logique ; un commentaire bloc peut la prolonger
+    private skipDirective(text: string, start: number, comments: Array<{ start: number; end: number }>): number {
+        let i = start + 1;
+        while (i < text.length) {
+            const char = text[i];
+            if (char === '\n') {
+                break;
+            }
+            if (char === '\\' && /^\\\r?\n/.test(text.substr(i, 3))) {
+                i += text[i + 1] === '\r' ? 3 : 2;
+                continue;
+            }
+            if (char === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+                const end = this.skipComment(text, i);
+                comments.push({ start: i, end });
+                i = end;
+                continue;
+            }
+            if (char === '"' || char === '\'') {
+                i = this.skipQuoted(text, i, char);
+                continue;
+            }
+            i++;
+        }
+        return text[i - 1] === '\r' ? i - 1 : i;
+    }
+
+    // Chaîne ou caractère, avec préfixe d'encodage ; chaînes brutes R"delim(...)delim"
+    private matchLiteral(text: string, start: number): { kind: 'string' | 'char'; end: number } | null {
+        const prefix = /(?:u8|[uUL])?(R)?(["'])/y;
+        prefix.lastIndex = start;
+        const match = prefix.exec(text);
+        if (!match || (match[1] && match[2] === '\'')) {
+            return null;
+        }
+        // "u" ou "L" faisant partie d'un identifiant plus long : "value'", "uLx"
+        if (start > 0 && /[\w$]/.test(text[start - 1])) {
+            return null;
+        }
+
+        const quoteIndex = start + match[0].length - 1;
+        if (match[1]) {
+            const open = text.indexOf('(', quoteIndex);
+            const delimiter = open < 0 ? '' : text.substring(quoteIndex + 1, open);
+            const close = open < 0 ? -1 : text.indexOf(`)${delimiter}"`, open);
+            return { kind: 'string', end: close < 0 ? text.length : close + delimiter.length + 2 };
+        }
+
+        return { kind: match[2] === '"' ? 'string' : 'char', end: this.skipQuoted(text, quoteIndex, match[2]) };
+    }
+
+    // Après le guillemet fermant ; une chaîne non terminée s'arrête en fin de ligne
+    private skipQuoted(text: string, quoteIndex: number, quote: string): number {
+        let i = quoteIndex + 1;
+        while (i < text.length) {
+            const char = text[i];
+            if (char === '\\') {
+                i += 2;
+                continue;
+            }
+            if (char === quote) {
+                return i + 1;
+            }
+            if (char === '\n') {
+                return i;
+            }
+            i++;
+        }
+        return i;
+    }
+}
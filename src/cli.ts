@@ -0,0 +1,424 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_FILE_NAME, CustomConfigParser } from './customConfigParser';
+import { FileReport, LayoutReport, LayoutReporter, ReportFormat, StructReport } from './layoutReport';
+import { Preprocessor } from './preprocessor';
+import { SourceDocument, StructAnalyzer } from './structAnalyzer';
+import { TargetProfile } from './targetProfiles';
+import { CustomTypeDefinition, TypeInfoProvider, TypeInfoSettings } from './typeInfo';
+
+const SOURCE_EXTENSIONS = /\.(c|h|cc|cpp|cxx|hh|hpp|hxx|inl|ipp)$/i;
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules', 'out', 'build']);
+
+const USAGE = `Usage:
+  memsize analyze <files or directories...> [options]
+  memsize check --baseline <report.json> [files or directories...] [options]
+  memsize targets
+
+Options:
+  --target <id>              Target profile (see "memsize targets"); default: host, or the baseline target for check
+  --format <format>          Report format for analyze: markdown, json or csv (default: markdown)
+  --output <file>            Write the report to a file instead of standard output
+  --config <file>            Custom architectures and types (default: ./${CONFIG_FILE_NAME} if present)
+  --bitfield-layout <mode>   auto, sysv or msvc (default: auto)
+  --standard-library <lib>   auto, libstdc++, libc++ or msvc (default: auto)
+  -I <directory>             Additional include directory, may be repeated
+  -D <name[=value]>          Define a macro for #if blocks, may be repeated
+  -U <name>                  Undefine a macro, may be repeated
+
+analyze exits with 1 when a static_assert on sizeof/alignof/offsetof fails with the computed layout.
+check also exits with 1 when a struct of the baseline changed size, alignment or member offsets.`;
+
+interface CliOptions {
+    command: string;
+    inputs: string[];
+    target?: string;
+    format: ReportFormat;
+    output?: string;
+    config?: string;
+    baseline?: string;
+    bitfieldLayout: TypeInfoSettings['bitfieldLayout'];
+    standardLibrary: TypeInfoSettings['standardLibrary'];
+    includePaths: string[];
+    // "-DNAME=value" et "-UNAME", dans l'ordre de la ligne de commande
+    defines: string[];
+}
+
+// Mauvais arguments : message et usage, code de sortie 2
+class UsageError extends Error {}
+
+// CLI "memsize" : le moteur de layout de l'extension, sans VS Code, pour la CI
+export class MemsizeCli {
+    private structAnalyzer: StructAnalyzer;
+    private typeProvider: TypeInfoProvider;
+    private reporter: LayoutReporter;
+    private preprocessor: Preprocessor;
+
+    constructor() {
+        this.structAnalyzer = new StructAnalyzer();
+        this.typeProvider = TypeInfoProvider.getInstance();
+        this.reporter = new LayoutReporter();
+        this.preprocessor = new Preprocessor();
+    }
+
+    // Code de sortie : 0 si tout est conforme, 1 en cas d'écart, 2 pour une erreur d'utilisation
+    public run(args: string[]): number {
+        try {
+            const options = this.parseOptions(args);
+            switch (options.command) {
+                case 'analyze':
+                    return this.analyze(options);
+                case 'check':
+                    return this.check(options);
+                case 'targets':
+                    this.loadCustomConfig(options);
+                    this.typeProvider.getProfiles().forEach(profile => this.print(`${profile.id}\t${profile.label}`));
+                    return 0;
+                case 'help':
+                    this.print(USAGE);
+                    return 0;
+                default:
+                    throw new UsageError(`Unknown command "${options.command}"`);
+            }
+        } catch (error) {
+            if (error instanceof UsageError) {
+                this.printError(`memsize: ${error.message}\n\n${USAGE}`);
+                return 2;
+            }
+            this.printError(`memsize: ${error instanceof Error ? error.message : String(error)}`);
+            return 2;
+        }
+    }
+
+    private analyze(options: CliOptions): number {
+        if (options.inputs.length === 0) {
+            throw new UsageError('analyze needs at least one file or directory');
+        }
+        this.configureTarget(options, options.target);
+
+        const files = this.collectFiles(options.inputs);
+        const report = this.reporter.createReport(files.map(file => this.analyzeFile(file, options)));
+        this.writeOutput(this.reporter.format(report, options.format), options.output);
+
+        return this.checkAssertions(files, options) > 0 ? 1 : 0;
+    }
+
+    private check(options: CliOptions): number {
+        if (!options.baseline) {
+            throw new UsageError('check needs --baseline <report.json>');
+        }
+
+        let baseline: LayoutReport;
+        try {
+            baseline = JSON.parse(fs.readFileSync(options.baseline, 'utf8'));
+        } catch (error) {
+            throw new Error(`cannot read baseline ${options.baseline}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!baseline || baseline.version !== 1 || !Array.isArray(baseline.files)) {
+            throw new Error(`${options.baseline} is not a layout report (memsize analyze --format json)`);
+        }
+
+        // Sans --target, on vérifie la cible pour laquelle la référence a été produite
+        this.configureTarget(options, options.target || (baseline.target ? baseline.target.profile : undefined));
+
+        const inputs = options.inputs.length > 0 ? options.inputs : baseline.files.map(file => file.path);
+        const files = this.collectFiles(inputs.filter(input => fs.existsSync(input)));
+        const current = new Map<string, FileReport>(files.map(file => {
+            const report = this.analyzeFile(file, options);
+            return [report.path, report] as [string, FileReport];
+        }));
+
+        let failures = 0;
+        for (const baselineFile of baseline.files) {
+            const currentFile = current.get(baselineFile.path);
+            if (!currentFile) {
+                if (options.inputs.length === 0) {
+                    this.printError(`${baselineFile.path}: file not found`);
+                    failures++;
+                }
+                continue;
+            }
+
+            const structs = new Map(currentFile.structs.map(struct => [struct.name, struct]));
+            for (const expected of baselineFile.structs) {
+                const actual = structs.get(expected.name);
+                const differences = actual ? this.compareStructs(expected, actual) : ['removed'];
+                if (differences.length > 0) {
+                    this.printError(`${baselineFile.path}: ${expected.name}: ${differences.join('; ')}`);
+                    failures++;
+                }
+                structs.delete(expected.name);
+            }
+            structs.forEach(struct => this.print(`${baselineFile.path}: ${struct.name}: new struct (${struct.size === null ? 'size unknown' : `${struct.size} bytes`})`));
+        }
+
+        failures += this.checkAssertions(files, options);
+        const structCount = baseline.files.reduce((sum, file) => sum + file.structs.length, 0);
+        this.print(failures > 0
+            ? `${failures} layout problem${failures > 1 ? 's' : ''} found`
+            : `${structCount} struct${structCount > 1 ? 's' : ''} match ${options.baseline}`);
+
+        return failures > 0 ? 1 : 0;
+    }
+
+    // Écarts de layout d'une struct par rapport à la référence
+    private compareStructs(expected: StructReport, actual: StructReport): string[] {
+        const differences: string[] = [];
+        if (expected.size !== actual.size) {
+            differences.push(`size ${this.formatValue(expected.size)} → ${this.formatValue(actual.size)}`);
+        }
+        if (expected.alignment !== actual.alignment) {
+            differences.push(`alignment ${this.formatValue(expected.alignment)} → ${this.formatValue(actual.alignment)}`);
+        }
+
+        const members = new Map(actual.members.map(member => [member.name, member]));
+        for (const member of expected.members) {
+            const other = members.get(member.name);
+            if (!other) {
+                differences.push(`member ${member.name} removed`);
+            } else if (other.offset !== member.offset || other.size !== member.size || other.bitOffset !== member.bitOffset || other.bitWidth !== member.bitWidth) {
+                const position = (layout: typeof member) => layout.bitWidth !== undefined ? `+${layout.offset}:${layout.bitOffset}, ${layout.bitWidth} bits` : `+${layout.offset}, ${layout.size} B`;
+                differences.push(`member ${member.name} ${position(member)} → ${position(other)}`);
+            }
+            members.delete(member.name);
+        }
+        members.forEach(member => differences.push(`member ${member.name} added at +${member.offset}`));
+
+        return differences;
+    }
+
+    // Affiche les static_assert qui échouent avec le layout calculé et renvoie leur nombre
+    private checkAssertions(files: string[], options: CliOptions): number {
+        let failures = 0;
+        for (const file of files) {
+            const source = this.readSource(file);
+            for (const assertion of this.structAnalyzer.findStaticAssertions(source, this.includedTexts(file, source.getText(), options))) {
+                if (assertion.holds !== false) {
+                    continue;
+                }
+                const computed = assertion.computed
+                    .filter(entry => entry.value !== null)
+                    .map(entry => `${entry.expression} is ${entry.value}`)
+                    .join(', ');
+                this.printError(`${this.location(file, source.getText(), assertion.start)}: static_assert(${assertion.condition}) fails: ${computed}`);
+                failures++;
+            }
+        }
+        return failures;
+    }
+
+    private analyzeFile(file: string, options: CliOptions): FileReport {
+        const source = this.readSource(file);
+        return this.reporter.analyzeFile(this.displayPath(file), source, this.includedTexts(file, source.getText(), options));
+    }
+
+    private readSource(file: string): SourceDocument {
+        const text = fs.readFileSync(file, 'utf8');
+        return { getText: () => text, languageId: LayoutReporter.languageIdFor(file) };
+    }
+
+    // Macros de -D/-U puis en-têtes inclus, récursivement, dans l'ordre où le préprocesseur les lirait
+    private includedTexts(file: string, text: string, options: CliOptions): string[] {
+        const visited = new Set<string>([path.resolve(file)]);
+        const prelude = this.preprocessor.definesPrelude(options.defines);
+        const ordered: string[] = prelude ? [prelude] : [];
+
+        const visit = (fromFile: string, content: string) => {
+            const includeRegex = /^[ \t]*#[ \t]*include[ \t]*(?:"([^"]+)"|<([^>]+)>)/gm;
+            let match;
+            while ((match = includeRegex.exec(content)) !== null) {
+                const directories = match[1] !== undefined ? [path.dirname(fromFile), ...options.includePaths] : options.includePaths;
+                const resolved = directories
+                    .map(directory => path.resolve(directory, match![1] || match![2]))
+                    .find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+                if (!resolved || visited.has(resolved)) {
+                    continue;
+                }
+
+                visited.add(resolved);
+                const included = fs.readFileSync(resolved, 'utf8');
+                visit(resolved, included);
+                ordered.push(included);
+            }
+        };
+
+        visit(path.resolve(file), text);
+        return ordered;
+    }
+
+    // Fichiers C/C++ des arguments, les dossiers étant parcourus récursivement
+    private collectFiles(inputs: string[]): string[] {
+        const files: string[] = [];
+
+        const walk = (entry: string) => {
+            const stat = fs.statSync(entry);
+            if (stat.isDirectory()) {
+                fs.readdirSync(entry)
+                    .filter(name => !SKIPPED_DIRECTORIES.has(name))
+                    .sort()
+                    .forEach(name => walk(path.join(entry, name)));
+            } else if (SOURCE_EXTENSIONS.test(entry)) {
+                files.push(entry);
+            }
+        };
+
+        for (const input of inputs) {
+            if (!fs.existsSync(input)) {
+                throw new UsageError(`${input}: no such file or directory`);
+            }
+            walk(input);
+        }
+
+        return files;
+    }
+
+    private configureTarget(options: CliOptions, target: string | undefined): void {
+        this.loadCustomConfig(options);
+
+        if (target && !this.typeProvider.findProfile(target)) {
+            throw new UsageError(`unknown target "${target}" (available: ${this.typeProvider.getProfiles().map(profile => profile.id).join(', ')})`);
+        }
+
+        this.typeProvider.configure({
+            architecture: target || 'auto',
+            bitfieldLayout: options.bitfieldLayout,
+            standardLibrary: options.standardLibrary,
+            intelliSenseMode: ''
+        });
+    }
+
+    private loadCustomConfig(options: CliOptions): void {
+        const configPath = options.config || (fs.existsSync(CONFIG_FILE_NAME) ? CONFIG_FILE_NAME : undefined);
+        if (!configPath) {
+            return;
+        }
+
+        const parser = new CustomConfigParser();
+        const profiles: TargetProfile[] = [];
+        const types = new Map<string, CustomTypeDefinition>();
+        const parsed = parser.parseFile(fs.readFileSync(configPath, 'utf8'), profiles);
+        parser.merge(parsed, profiles, types);
+        parsed.problems.forEach(problem => this.printError(`${configPath}: ${problem.message}`));
+
+        this.typeProvider.setCustomDefinitions(profiles, types);
+    }
+
+    private parseOptions(args: string[]): CliOptions {
+        const options: CliOptions = {
+            command: args.length > 0 ? args[0] : 'help',
+            inputs: [],
+            format: 'markdown',
+            bitfieldLayout: 'auto',
+            standardLibrary: 'auto',
+            includePaths: [],
+            defines: []
+        };
+        if (options.command === '--help' || options.command === '-h') {
+            options.command = 'help';
+        }
+
+        for (let i = 1; i < args.length; i++) {
+            const arg = args[i];
+            const value = () => {
+                if (i + 1 >= args.length) {
+                    throw new UsageError(`${arg} needs a value`);
+                }
+                return args[++i];
+            };
+
+            switch (arg) {
+                case '--target':
+                    options.target = value();
+                    break;
+                case '--format': {
+                    const format = value();
+                    if (format !== 'markdown' && format !== 'json' && format !== 'csv') {
+                        throw new UsageError(`unknown format "${format}"`);
+                    }
+                    options.format = format;
+                    break;
+                }
+                case '--output':
+                    options.output = value();
+                    break;
+                case '--config':
+                    options.config = value();
+                    break;
+                case '--baseline':
+                    options.baseline = value();
+                    break;
+                case '--bitfield-layout': {
+                    const mode = value();
+                    if (mode !== 'auto' && mode !== 'sysv' && mode !== 'msvc') {
+                        throw new UsageError(`unknown bitfield layout "${mode}"`);
+                    }
+                    options.bitfieldLayout = mode;
+                    break;
+                }
+                case '--standard-library': {
+                    const library = value();
+                    if (library !== 'auto' && library !== 'libstdc++' && library !== 'libc++' && library !== 'msvc') {
+                        throw new UsageError(`unknown standard library "${library}"`);
+                    }
+                    options.standardLibrary = library;
+                    break;
+                }
+                case '-I':
+                    options.includePaths.push(value());
+                    break;
+                case '-D':
+                case '-U':
+                    options.defines.push(arg + value());
+                    break;
+                default:
+                    if (arg.startsWith('-I') && arg.length > 2) {
+                        options.includePaths.push(arg.substring(2));
+                    } else if (/^-[DU]./.test(arg)) {
+                        options.defines.push(arg);
+                    } else if (arg.startsWith('-')) {
+                        throw new UsageError(`unknown option ${arg}`);
+                    } else {
+                        options.inputs.push(arg);
+                    }
+            }
+        }
+
+        return options;
+    }
+
+    private writeOutput(content: string, output?: string): void {
+        if (output) {
+            fs.writeFileSync(output, content, 'utf8');
+        } else {
+            process.stdout.write(content);
+        }
+    }
+
+    // Chemins des rapports : relatifs au dossier courant, avec des "/"
+    private displayPath(file: string): string {
+        return path.relative(process.cwd(), path.resolve(file)).split(path.sep).join('/');
+    }
+
+    // "fichier:ligne:colonne", comme les compilateurs
+    private location(file: string, text: string, offset: number): string {
+        const lines = text.substring(0, offset).split('\n');
+        return `${this.displayPath(file)}:${lines.length}:${lines[lines.length - 1].length + 1}`;
+    }
+
+    private formatValue(value: number | null): string {
+        return value === null ? 'unknown' : String(value);
+    }
+
+    private print(message: string): void {
+        process.stdout.write(message + '\n');
+    }
+
+    private printError(message: string): void {
+        process.stderr.write(message + '\n');
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = new MemsizeCli().run(process.argv.slice(2));
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { SourceDocument, StructAnalyzer } from './structAnalyzer';
+import { StructCache } from './structCache';
+
+// Actions sur la struct sous le curseur : "Optimize layout" réordonne ses membres pour réduire le padding,
+// "Insert size/offset assertions" fige son layout actuel par des static_assert
+export class LayoutCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorRewrite, vscode.CodeActionKind.Refactor];
+
+    private structAnalyzer: StructAnalyzer;
+    private structCache: StructCache;
+
+    constructor(structCache: StructCache) {
+        this.structAnalyzer = new StructAnalyzer();
+        this.structCache = structCache;
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.CodeAction[]> {
+        const source = this.structCache.getSource(document);
+        const relatedTexts = this.structCache.getRelatedTexts(document);
+        const offset = document.offsetAt(range.start);
+        const actions: vscode.CodeAction[] = [];
+
+        if (!context.only || context.only.contains(vscode.CodeActionKind.RefactorRewrite)) {
+            const optimize = this.createOptimizeAction(document, source, offset, relatedTexts);
+            if (optimize) {
+                actions.push(optimize);
+            }
+        }
+
+        if (!context.only || context.only.contains(vscode.CodeActionKind.Refactor)) {
+            const assertions = this.structAnalyzer.createLayoutAssertions(source, offset, relatedTexts);
+            if (assertions) {
+                const action = new vscode.CodeAction(`Insert size/offset assertions for ${assertions.name}`, vscode.CodeActionKind.Refactor);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.insert(document.uri, document.positionAt(assertions.insertOffset), assertions.text);
+                if (assertions.include) {
+                    action.edit.insert(document.uri, document.positionAt(assertions.include.offset), assertions.include.text);
+                }
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+
+    private createOptimizeAction(document: vscode.TextDocument, source: SourceDocument, offset: number, relatedTexts: string[]): vscode.CodeAction | null {
+        const optimization = this.structAnalyzer.optimizeLayout(source, offset, relatedTexts);
+        if (!optimization) {
+            return null;
+        }
+
+        const saved = optimization.currentSize - optimization.optimizedSize;
+        const action = new vscode.CodeAction(
+            `Optimize layout of ${optimization.name}: saves ${saved} byte${saved > 1 ? 's' : ''} (${optimization.currentSize} → ${optimization.optimizedSize})`,
+            vscode.CodeActionKind.RefactorRewrite
+        );
+
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(optimization.bodyStart), document.positionAt(optimization.bodyEnd)),
+            optimization.body
+        );
+
+        return action;
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { MemorySizeHoverProvider } from './hoverProvider';
+import { StructAnalyzer } from './structAnalyzer';
+
+// Taille, alignement et padding au-dessus de chaque définition de struct
+export class LayoutCodeLensProvider implements vscode.CodeLensProvider {
+    private structAnalyzer: StructAnalyzer;
+    private hoverProvider: MemorySizeHoverProvider;
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChangeCodeLenses: vscode.Event<void> = this.changeEmitter.event;
+
+    // Les layouts viennent du cache de l'info-bulle
+    constructor(hoverProvider: MemorySizeHoverProvider) {
+        this.structAnalyzer = new StructAnalyzer();
+        this.hoverProvider = hoverProvider;
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CodeLens[]> {
+        if (!vscode.workspace.getConfiguration('memorySizeHover.codeLens').get<boolean>('enabled', false)) {
+            return [];
+        }
+
+        const analysis = this.hoverProvider.getDocumentAnalysis(document);
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const location of this.structAnalyzer.findRecordLocations(this.hoverProvider.getSource(document), this.hoverProvider.getRelatedTexts(document))) {
+            const structInfo = analysis.structs.get(location.name);
+            if (location.isTemplate || !structInfo) {
+                continue;
+            }
+
+            let title: string;
+            if (structInfo.unresolvedTypes.length > 0) {
+                title = `Size unknown: unresolved ${structInfo.unresolvedTypes.join(', ')}`;
+            } else {
+                const padding = structInfo.members.reduce((sum, member) => sum + member.paddingBefore, 0) + structInfo.trailingPadding;
+                title = `${structInfo.totalSize} bytes, align ${structInfo.alignment}` + (padding > 0 ? `, ${padding} bytes padding` : ', no padding');
+            }
+
+            const position = document.positionAt(location.start);
+            // Sans commande, le CodeLens est un simple libellé
+            lenses.push(new vscode.CodeLens(new vscode.Range(position, position), { title, command: '' }));
+        }
+
+        return lenses;
+    }
+}
@@ -0,0 +1,436 @@
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MemberLayout, StructInfo } from './structAnalyzer';
+import { TypeInfoProvider } from './typeInfo';
+import { CompileCommand, WorkspaceIndex } from './workspaceIndex';
+
+const COMPILE_TIMEOUT = 10000;
+const MAX_CACHED_LAYOUTS = 200;
+const PROBE_SYMBOL = 'memsize_probe_values';
+
+// Triplets clang des profils intégrés ; les architectures personnalisées n'ont pas d'équivalent
+const clangTargets: { [profile: string]: string } = {
+    'lp64': 'x86_64-unknown-linux-gnu',
+    'llp64': 'x86_64-pc-windows-msvc',
+    'ilp32': 'i386-unknown-linux-gnu',
+    'msvc-x86': 'i386-pc-windows-msvc',
+    'aarch64': 'aarch64-unknown-linux-gnu',
+    'apple-arm64': 'arm64-apple-darwin',
+    'arm-eabi': 'arm-none-eabi',
+    'avr': 'avr',
+    'riscv32': 'riscv32-unknown-elf',
+    'riscv64': 'riscv64-unknown-linux-gnu'
+};
+
+// gcc ne change pas de cible : un compilateur croisé est reconnu à son préfixe,
+// sinon seules les cibles de la machine sont possibles
+const gccCrossPrefixes: { [profile: string]: RegExp } = {
+    'lp64': /^x86_64-(?!w64-)/,
+    'llp64': /^x86_64-w64-/,
+    'ilp32': /^i[3-6]86-/,
+    'aarch64': /^aarch64-/,
+    'arm-eabi': /^arm-/,
+    'avr': /^avr-/,
+    'riscv32': /^riscv32-/,
+    'riscv64': /^riscv64-/
+};
+const gccHostTargets: { [host: string]: { [profile: string]: string[] } } = {
+    'linux-x64': { 'lp64': ['-m64'], 'ilp32': ['-m32'] },
+    'linux-ia32': { 'ilp32': [] },
+    'linux-arm64': { 'aarch64': [] },
+    'win32-x64': { 'llp64': [] },
+    'darwin-arm64': { 'apple-arm64': [] }
+};
+
+// Options de compile_commands.json reprises pour la sonde (avec ou sans valeur séparée)
+const FLAGS_WITH_VALUE = /^(?:-I|-D|-U|-isystem|-iquote|-idirafter|-include|-imacros|--sysroot|-isysroot)$/;
+const PATH_FLAGS = /^(?:-I|-isystem|-iquote|-idirafter|-include|-imacros|--sysroot|-isysroot)$/;
+const KEPT_FLAGS = /^-(?:I|D|U|isystem|iquote|idirafter|std=|f|m|-sysroot=)/;
+// Cible et bitfields sont imposés par le profil courant
+const TARGET_FLAGS = /^(?:-m32|-m64|-mms-bitfields|-mno-ms-bitfields|--target=.*|-target)$/;
+const COMPILER_WRAPPERS = /^(?:ccache|sccache|distcc)(?:\.exe)?$/;
+const COMPILER_NAMES = /(?:gcc|g\+\+|clang|clang\+\+|cc|c\+\+)(?:-[\d.]+)?(?:\.exe)?$/;
+
+interface CompilerInfo {
+    path: string;
+    kind: 'gcc' | 'clang';
+    // "clang 17.0.6"
+    label: string;
+}
+
+// Mode "ground truth" : mesure sizeof/alignof/offsetof d'une struct en compilant une sonde avec
+// gcc ou clang. La sonde est compilée en assembleur (-S) : les valeurs sont lues dans les données
+// d'un tableau global, ce qui fonctionne aussi pour une cible croisée qu'on ne peut pas exécuter
+export class CompilerProbe {
+    private typeProvider: TypeInfoProvider;
+    private workspaceIndex?: WorkspaceIndex;
+    // Résultats par empreinte du document, de ses en-têtes et de la configuration
+    private cache: Map<string, Promise<StructInfo | null>> = new Map();
+    private compilers: Map<string, Promise<CompilerInfo | null>> = new Map();
+
+    constructor(workspaceIndex?: WorkspaceIndex) {
+        this.typeProvider = TypeInfoProvider.getInstance();
+        this.workspaceIndex = workspaceIndex;
+    }
+
+    // Jamais dans un workspace non approuvé : le compilateur lancé peut venir de ses réglages ou de son compile_commands.json
+    public isEnabled(): boolean {
+        return vscode.workspace.isTrusted && vscode.workspace.getConfiguration('memorySizeHover.compiler').get<boolean>('enabled', false);
+    }
+
+    // Après un changement de réglages : le compilateur a pu être installé ou changé
+    public clearCache(): void {
+        this.cache.clear();
+        this.compilers.clear();
+    }
+
+    // Layout mesuré, ou null si aucun compilateur ne peut compiler la sonde pour la cible courante
+    public measure(document: vscode.TextDocument, structInfo: StructInfo): Promise<StructInfo | null> {
+        if (!vscode.workspace.isTrusted) {
+            return Promise.resolve(null);
+        }
+        const config = vscode.workspace.getConfiguration('memorySizeHover.compiler');
+        const filePath = document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+        const relatedTexts = this.workspaceIndex ? this.workspaceIndex.getRelatedTexts(document) : [];
+        const command = filePath && this.workspaceIndex ? this.workspaceIndex.getCompileCommand(filePath) : null;
+
+        const hash = crypto.createHash('sha1');
+        for (const part of [
+            this.typeProvider.getProfile().id, this.typeProvider.getBitfieldLayout(),
+            config.get<string>('path', ''), JSON.stringify(config.get<string[]>('args', [])), JSON.stringify(command),
+            filePath || '', document.languageId, document.getText(), ...relatedTexts
+        ]) {
+            hash.update(part).update('\0');
+        }
+        const key = `${hash.digest('hex')}:${structInfo.name}`;
+
+        let result = this.cache.get(key);
+        if (!result) {
+            result = this.probe(document, filePath, command, structInfo).catch(() => null);
+            this.cache.set(key, result);
+            // Les plus anciennes entrées sont oubliées en premier (ordre d'insertion)
+            if (this.cache.size > MAX_CACHED_LAYOUTS) {
+                this.cache.delete(this.cache.keys().next().value!);
+            }
+        }
+        return result;
+    }
+
+    private async probe(document: vscode.TextDocument, filePath: string | undefined, command: CompileCommand | null, structInfo: StructInfo): Promise<StructInfo | null> {
+        const config = vscode.workspace.getConfiguration('memorySizeHover.compiler');
+
+        const compiler = await this.findCompiler(config.get<string>('path', ''), command);
+        if (!compiler) {
+            return null;
+        }
+        const targetFlags = this.targetFlags(compiler);
+        if (!targetFlags) {
+            return null;
+        }
+
+        const isCpp = document.languageId === 'cpp';
+        const directory = filePath ? path.dirname(filePath) : os.tmpdir();
+        const args = [
+            ...targetFlags,
+            ...(command ? this.compileFlags(command, isCpp) : []),
+            // Mêmes macros que le moteur intégré pour évaluer les #if
+            ...vscode.workspace.getConfiguration('memorySizeHover').get<string[]>('defines', []).map(define => `-D${define}`),
+            ...config.get<string[]>('args', []),
+            // Le document est compilé depuis un fichier temporaire : ses #include "..." restent résolus
+            '-iquote', directory,
+            '-w', '-S', '-o', '-', '-x', isCpp ? 'c++' : 'c'
+        ];
+
+        // Membres d'abord ; offsetof peut être refusé (membre privé, base virtuelle), la taille seule reste utile
+        const resolved = structInfo.unresolvedTypes.length === 0;
+        const members = resolved ? structInfo.members.filter(member => member.bitWidth === undefined && /^\w+$/.test(member.name)) : [];
+        for (const probed of members.length > 0 ? [members, []] : [[]]) {
+            const source = this.createProbe(document.getText(), structInfo, probed, isCpp);
+            const assembly = await this.compile(compiler, args, source, command ? command.directory : directory, isCpp);
+            const values = assembly !== null ? this.parseValues(assembly, 2 + probed.length * 3) : null;
+            if (values) {
+                return this.applyMeasurements(structInfo, values, probed, compiler.label);
+            }
+        }
+
+        return null;
+    }
+
+    // Le document suivi d'un tableau dont chaque valeur est décalée de 1 : aucune n'est nulle,
+    // ce qui évite les ".zero" que le compilateur émet pour une suite de zéros
+    private createProbe(text: string, structInfo: StructInfo, members: MemberLayout[], isCpp: boolean): string {
+        const type = this.typeSpelling(text, structInfo, isCpp);
+        const values = [`sizeof(${type})`, `__alignof__(${type})`];
+        for (const member of members) {
+            const access = `((${type} *)0)->${member.name}`;
+            values.push(`offsetof(${type}, ${member.name})`, `sizeof(${access})`, `__alignof__(${access})`);
+        }
+
+        return [
+            text,
+            '',
+            '#include <stddef.h>',
+            ...(isCpp ? this.namespacesOf(text).map(name => `using namespace ${name};`) : []),
+            `${isCpp ? 'extern "C" ' : ''}unsigned int ${PROBE_SYMBOL}[] = {`,
+            values.map(value => `    (unsigned int)(${value}) + 1`).join(',\n'),
+            '};',
+            ''
+        ].join('\n');
+    }
+
+    // En C, une struct sans typedef se nomme avec son mot-clé
+    private typeSpelling(text: string, structInfo: StructInfo, isCpp: boolean): string {
+        if (isCpp) {
+            return structInfo.name;
+        }
+        const tagDefinition = new RegExp(`\\b(?:struct|union)\\s+${structInfo.name}\\s*\\{`);
+        const typedefName = new RegExp(`\\btypedef\\b[^;]*\\b${structInfo.name}\\s*;`);
+        return tagDefinition.test(text) && !typedefName.test(text) ? `${structInfo.kind} ${structInfo.name}` : structInfo.name;
+    }
+
+    // Le moteur ignore les namespaces : la sonde les ouvre tous, un nom ambigu fait échouer la sonde
+    private namespacesOf(text: string): string[] {
+        const names = new Set<string>();
+        const stack: Array<string | null> = [];
+        const tokenRegex = /\bnamespace\s+([A-Za-z_][\w:]*)\s*\{|[{}]/g;
+
+        let match;
+        while ((match = tokenRegex.exec(text)) !== null) {
+            if (match[0] === '}') {
+                stack.pop();
+            } else if (match[0] === '{') {
+                stack.push(null);
+            } else {
+                const parent = stack.length > 0 ? stack[stack.length - 1] : '';
+                // Un namespace dans une fonction ou une classe n'a pas de sens : on l'ignore
+                const name = parent === null ? null : parent ? `${parent}::${match[1]}` : match[1];
+                if (name) {
+                    names.add(name);
+                }
+                stack.push(name);
+            }
+        }
+
+        return Array.from(names);
+    }
+
+    private async compile(compiler: CompilerInfo, args: string[], source: string, cwd: string, isCpp: boolean): Promise<string | null> {
+        const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'memsize-'));
+        const file = path.join(directory, isCpp ? 'probe.cpp' : 'probe.c');
+        try {
+            await fs.promises.writeFile(file, source, 'utf8');
+            return await new Promise<string | null>(resolve => {
+                execFile(compiler.path, [...args, file], { cwd, timeout: COMPILE_TIMEOUT, maxBuffer: 64 * 1024 * 1024 }, (error, stdout) => {
+                    resolve(error ? null : stdout);
+                });
+            });
+        } finally {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        }
+    }
+
+    // Directives de données qui suivent l'étiquette du tableau : ".long 9", ".word 9", ".quad 9"...
+    private parseValues(assembly: string, count: number): number[] | null {
+        const lines = assembly.split('\n');
+        const labelRegex = new RegExp(`^\\s*_?${PROBE_SYMBOL}:`);
+        const start = lines.findIndex(line => labelRegex.test(line));
+        if (start < 0) {
+            return null;
+        }
+
+        const values: number[] = [];
+        for (let i = start + 1; i < lines.length && values.length < count; i++) {
+            const line = lines[i].replace(/\s[#@;].*$/, '').trim();
+            if (line.length === 0) {
+                continue;
+            }
+            const data = /^\.(?:byte|short|hword|half|value|2byte|word|long|int|4byte|quad|xword|dword|8byte)\s+(\d+)$/.exec(line);
+            if (!data) {
+                break;
+            }
+            values.push(Number(data[1]) - 1);
+        }
+
+        return values.length === count ? values : null;
+    }
+
+    // Valeurs mesurées reportées sur le layout calculé ; le padding est recalculé à partir des offsets.
+    // Les bitfields, dont offsetof n'est pas défini, gardent leur position calculée
+    private applyMeasurements(structInfo: StructInfo, values: number[], probed: MemberLayout[], label: string): StructInfo {
+        const [totalSize, alignment] = values;
+        const measured = new Map<MemberLayout, { offset: number; size: number; alignment: number }>();
+        probed.forEach((member, index) => measured.set(member, {
+            offset: values[2 + index * 3],
+            size: values[3 + index * 3],
+            alignment: values[4 + index * 3]
+        }));
+
+        // Taille seule : la table des membres calculée ne serait plus cohérente avec elle
+        if (probed.length === 0) {
+            const sameSize = structInfo.unresolvedTypes.length === 0 && structInfo.totalSize === totalSize && structInfo.alignment === alignment;
+            return {
+                ...structInfo,
+                totalSize,
+                alignment,
+                members: sameSize ? structInfo.members : [],
+                trailingPadding: sameSize ? structInfo.trailingPadding : 0,
+                unresolvedTypes: [],
+                dominantMember: sameSize ? structInfo.dominantMember : undefined,
+                measuredBy: label
+            };
+        }
+
+        const first = structInfo.members[0];
+        let end = first ? first.offset - first.paddingBefore : 0;
+        const members = structInfo.members.map(member => {
+            const measurement = measured.get(member);
+            const layout = measurement ? { ...member, ...measurement } : { ...member };
+            if (structInfo.kind === 'union') {
+                layout.paddingBefore = 0;
+            } else if (layout.bitWidth === undefined) {
+                layout.paddingBefore = Math.max(0, layout.offset - end);
+                end = Math.max(end, layout.offset + layout.size);
+            } else {
+                end = Math.max(end, layout.offset + layout.size);
+            }
+            return layout;
+        });
+
+        const dataEnd = structInfo.kind === 'union'
+            ? members.reduce((max, member) => Math.max(max, member.size), 0)
+            : end;
+        const dominant = structInfo.kind === 'union' && members.length > 0
+            ? members.reduce((largest, member) => member.size > largest.size ? member : largest).name
+            : structInfo.dominantMember;
+
+        return {
+            ...structInfo,
+            totalSize,
+            alignment,
+            members,
+            trailingPadding: Math.max(0, totalSize - dataEnd),
+            dominantMember: dominant,
+            measuredBy: label
+        };
+    }
+
+    // Le compilateur configuré, sinon celui de compile_commands.json, puis clang et gcc du PATH
+    private async findCompiler(configured: string, command: CompileCommand | null): Promise<CompilerInfo | null> {
+        const candidates: string[] = [];
+        if (configured) {
+            candidates.push(configured);
+        } else {
+            const compiler = command ? this.commandCompiler(command) : null;
+            if (compiler) {
+                candidates.push(compiler);
+            }
+            candidates.push('clang', 'gcc');
+        }
+
+        for (const candidate of candidates) {
+            const info = await this.identify(candidate);
+            if (info) {
+                return info;
+            }
+        }
+        return null;
+    }
+
+    private commandCompiler(command: CompileCommand): string | null {
+        const args = command.arguments;
+        const index = args.length > 1 && COMPILER_WRAPPERS.test(path.basename(args[0])) ? 1 : 0;
+        const compiler = args[index];
+        if (!compiler || !COMPILER_NAMES.test(path.basename(compiler))) {
+            return null;
+        }
+        return /[\\/]/.test(compiler) ? path.resolve(command.directory, compiler) : compiler;
+    }
+
+    // "--version" une fois par compilateur : nature (gcc ou clang) et version pour l'info-bulle
+    private identify(compiler: string): Promise<CompilerInfo | null> {
+        let info = this.compilers.get(compiler);
+        if (!info) {
+            info = new Promise<CompilerInfo | null>(resolve => {
+                execFile(compiler, ['--version'], { timeout: COMPILE_TIMEOUT }, (error, stdout) => {
+                    const firstLine = error ? '' : stdout.split('\n')[0];
+                    if (!firstLine) {
+                        resolve(null);
+                        return;
+                    }
+                    const kind = /clang/i.test(firstLine) ? 'clang' : 'gcc';
+                    const version = /version\s+(\d[\w.]*)/.exec(firstLine) || /(\d+\.\d+(?:\.\d+)?)\s*$/.exec(firstLine);
+                    resolve({ path: compiler, kind, label: version ? `${kind} ${version[1]}` : kind });
+                });
+            });
+            this.compilers.set(compiler, info);
+        }
+        return info;
+    }
+
+    // Options qui placent le compilateur sur la cible du profil courant ; null si c'est impossible
+    private targetFlags(compiler: CompilerInfo): string[] | null {
+        const profile = this.typeProvider.getProfile();
+        // Bitfields MSVC imposés par le réglage sur une cible qui ne les utilise pas
+        const bitfields = this.typeProvider.getBitfieldLayout() !== profile.bitfieldLayout
+            ? [this.typeProvider.getBitfieldLayout() === 'msvc' ? '-mms-bitfields' : '-mno-ms-bitfields']
+            : [];
+
+        if (compiler.kind === 'clang') {
+            const triple = clangTargets[profile.id];
+            return triple ? ['-target', triple, ...bitfields] : null;
+        }
+
+        const name = path.basename(compiler.path);
+        if (/^[\w.]+-[\w.-]*-(?:gcc|g\+\+|cc|c\+\+)/.test(name)) {
+            const prefix = gccCrossPrefixes[profile.id];
+            return prefix && prefix.test(name) ? bitfields : null;
+        }
+
+        const host = gccHostTargets[`${process.platform}-${process.arch}`];
+        const flags = host ? host[profile.id] : undefined;
+        return flags ? [...flags, ...bitfields] : null;
+    }
+
+    // Chemins d'inclusion, macros, standard et options -f/-m de la commande ; le reste
+    // (sortie, fichier source, dépendances, avertissements) ne concerne pas la sonde
+    private compileFlags(command: CompileCommand, isCpp: boolean): string[] {
+        const args = command.arguments;
+        const flags: string[] = [];
+        const absolute = (value: string) => path.resolve(command.directory, value);
+
+        for (let i = 1; i < args.length; i++) {
+            const arg = args[i];
+            if (FLAGS_WITH_VALUE.test(arg)) {
+                if (i + 1 < args.length) {
+                    const value = args[++i];
+                    flags.push(arg, PATH_FLAGS.test(arg) ? absolute(value) : value);
+                }
+                continue;
+            }
+            if (TARGET_FLAGS.test(arg)) {
+                if (arg === '-target') {
+                    i++;
+                }
+                continue;
+            }
+            // Un -std=c11 d'une source C partagé avec un en-tête lu comme du C++, ou l'inverse
+            const standard = /^-std=(.*)$/.exec(arg);
+            if (standard && /\+\+/.test(standard[1]) !== isCpp) {
+                continue;
+            }
+
+            const pathFlag = /^(-I|-isystem|-iquote|-idirafter)(.+)$/.exec(arg);
+            if (pathFlag) {
+                flags.push(pathFlag[1] + absolute(pathFlag[2]));
+            } else if (KEPT_FLAGS.test(arg)) {
+                flags.push(arg);
+            }
+        }
+
+        return flags;
+    }
+}
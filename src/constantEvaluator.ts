@@ -0,0 +1,318 @@
+// Évalue les expressions constantes entières (dimensions de tableaux, static_assert) :
+// littéraux décimaux, hexadécimaux, octaux, binaires et caractères, opérateurs C,
+// sizeof, alignof, offsetof, énumérateurs et macros sans paramètres
+export class ConstantEvaluator {
+    private static readonly binaryPrecedence: { [operator: string]: number } = {
+        '*': 10, '/': 10, '%': 10,
+        '+': 9, '-': 9,
+        '<<': 8, '>>': 8,
+        '<': 7, '<=': 7, '>': 7, '>=': 7,
+        '==': 6, '!=': 6,
+        '&': 5,
+        '^': 4,
+        '|': 3,
+        '&&': 2,
+        '||': 1
+    };
+
+    private static readonly escapes: { [char: string]: number } = {
+        n: 10, t: 9, r: 13, '0': 0, a: 7, b: 8, f: 12, v: 11, '\\': 92, '\'': 39, '"': 34
+    };
+
+    private tokens: string[] = [];
+    private position = 0;
+    // Macros/énumérateurs en cours d'expansion, pour détecter les définitions récursives
+    private expanding = new Set<string>();
+
+    // lookup : texte de la macro ou valeur de l'énumérateur ; sizeOf, alignOf, offsetOf : layout d'un type, null si inconnu
+    constructor(
+        private lookup: (identifier: string) => string | undefined,
+        private sizeOf: (type: string) => number | null,
+        private alignOf: (type: string) => number | null = () => null,
+        private offsetOf: (type: string, member: string) => number | null = () => null
+    ) {}
+
+    public evaluate(expression: string): number | null {
+        try {
+            const value = this.evaluateExpression(expression);
+            return Number.isFinite(value) ? value : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private evaluateExpression(expression: string): number {
+        const saved = { tokens: this.tokens, position: this.position };
+        this.tokens = this.tokenize(expression);
+        this.position = 0;
+
+        try {
+            const value = this.parseConditional();
+            if (this.position < this.tokens.length) {
+                throw new Error(`Unexpected token ${this.tokens[this.position]}`);
+            }
+            return value;
+        } finally {
+            this.tokens = saved.tokens;
+            this.position = saved.position;
+        }
+    }
+
+    private tokenize(expression: string): string[] {
+        const tokens: string[] = [];
+        const tokenRegex = /\s*(?:((?:0[xX][0-9a-fA-F]+|0[bB][01]+|\d+)[uUlL]*|'(?:\\.|[^'\\])+'|[A-Za-z_]\w*|<<|>>|<=|>=|==|!=|&&|\|\||::|[-+*/%<>&|^~!?:(),.[\]]))/y;
+
+        let match;
+        while (tokenRegex.lastIndex < expression.length) {
+            const start = tokenRegex.lastIndex;
+            match = tokenRegex.exec(expression);
+            if (!match) {
+                if (expression.substring(start).trim().length === 0) {
+                    break;
+                }
+                throw new Error(`Unexpected character in ${expression}`);
+            }
+            tokens.push(match[1]);
+        }
+
+        return tokens;
+    }
+
+    private parseConditional(): number {
+        const condition = this.parseBinary(1);
+        if (this.peek() !== '?') {
+            return condition;
+        }
+
+        this.position++;
+        const whenTrue = this.parseConditional();
+        this.expect(':');
+        const whenFalse = this.parseConditional();
+        return condition !== 0 ? whenTrue : whenFalse;
+    }
+
+    // Analyse par précédence : chaque niveau consomme les opérateurs de précédence >= minPrecedence
+    private parseBinary(minPrecedence: number): number {
+        let left = this.parseUnary();
+
+        for (;;) {
+            const operator = this.peek();
+            const precedence = operator !== undefined ? ConstantEvaluator.binaryPrecedence[operator] : undefined;
+            if (precedence === undefined || precedence < minPrecedence) {
+                return left;
+            }
+
+            this.position++;
+            const right = this.parseBinary(precedence + 1);
+            left = this.applyBinary(operator!, left, right);
+        }
+    }
+
+    private applyBinary(operator: string, left: number, right: number): number {
+        switch (operator) {
+            case '*': return left * right;
+            case '/':
+            case '%':
+                if (right === 0) {
+                    throw new Error('Division by zero');
+                }
+                return operator === '/' ? Math.trunc(left / right) : left % right;
+            case '+': return left + right;
+            case '-': return left - right;
+            // Décalages sans passer par les entiers 32 bits de JavaScript
+            case '<<': return left * Math.pow(2, right);
+            case '>>': return Math.floor(left / Math.pow(2, right));
+            case '<': return left < right ? 1 : 0;
+            case '<=': return left <= right ? 1 : 0;
+            case '>': return left > right ? 1 : 0;
+            case '>=': return left >= right ? 1 : 0;
+            case '==': return left === right ? 1 : 0;
+            case '!=': return left !== right ? 1 : 0;
+            case '&': return left & right;
+            case '^': return left ^ right;
+            case '|': return left | right;
+            case '&&': return left !== 0 && right !== 0 ? 1 : 0;
+            case '||': return left !== 0 || right !== 0 ? 1 : 0;
+        }
+        throw new Error(`Unknown operator ${operator}`);
+    }
+
+    private parseUnary(): number {
+        const token = this.next();
+
+        switch (token) {
+            case '-': return -this.parseUnary();
+            case '+': return this.parseUnary();
+            case '~': return ~this.parseUnary();
+            case '!': return this.parseUnary() === 0 ? 1 : 0;
+            case 'sizeof': return this.parseSizeof();
+            case 'alignof':
+            case '_Alignof':
+            case '__alignof__': return this.parseAlignof();
+            case 'offsetof':
+            case '__builtin_offsetof': return this.parseOffsetof();
+            case '(': {
+                // Conversion "(size_t)4" : le type est ignoré
+                const closing = this.findClosingParen();
+                const inner = this.tokens.slice(this.position, closing).join(' ');
+                if (closing + 1 < this.tokens.length && !(this.tokens[closing + 1] in ConstantEvaluator.binaryPrecedence) && this.sizeOf(inner) !== null) {
+                    this.position = closing + 1;
+                    return this.parseUnary();
+                }
+
+                const value = this.parseConditional();
+                this.expect(')');
+                return value;
+            }
+        }
+
+        if (token === undefined) {
+            throw new Error('Unexpected end of expression');
+        }
+
+        return this.parsePrimary(token);
+    }
+
+    private parsePrimary(token: string): number {
+        if (/^\d/.test(token)) {
+            const literal = token.replace(/[uUlL]+$/, '');
+            if (/^0[xX]/.test(literal)) {
+                return parseInt(literal.substring(2), 16);
+            }
+            if (/^0[bB]/.test(literal)) {
+                return parseInt(literal.substring(2), 2);
+            }
+            if (/^0[0-7]+$/.test(literal)) {
+                return parseInt(literal, 8);
+            }
+            if (/^\d+$/.test(literal)) {
+                return parseInt(literal, 10);
+            }
+            throw new Error(`Invalid literal ${token}`);
+        }
+
+        if (token.startsWith('\'')) {
+            return this.parseCharacter(token.substring(1, token.length - 1));
+        }
+
+        if (token === 'true' || token === 'false') {
+            return token === 'true' ? 1 : 0;
+        }
+
+        if (/^[A-Za-z_]/.test(token)) {
+            const definition = this.lookup(token);
+            if (definition === undefined || this.expanding.has(token)) {
+                throw new Error(`Unknown identifier ${token}`);
+            }
+
+            this.expanding.add(token);
+            try {
+                return this.evaluateExpression(definition);
+            } finally {
+                this.expanding.delete(token);
+            }
+        }
+
+        throw new Error(`Unexpected token ${token}`);
+    }
+
+    private parseCharacter(content: string): number {
+        if (!content.startsWith('\\')) {
+            return content.charCodeAt(0);
+        }
+
+        const escape = content.substring(1);
+        if (/^x[0-9a-fA-F]+$/.test(escape)) {
+            return parseInt(escape.substring(1), 16);
+        }
+        if (/^[0-7]{1,3}$/.test(escape)) {
+            return parseInt(escape, 8);
+        }
+        if (escape in ConstantEvaluator.escapes) {
+            return ConstantEvaluator.escapes[escape];
+        }
+        throw new Error(`Unknown escape ${content}`);
+    }
+
+    // sizeof(type) ou sizeof type ; sizeof d'une expression n'est pas supporté
+    private parseSizeof(): number {
+        let type: string;
+        if (this.peek() === '(') {
+            const closing = this.findClosingParen(this.position + 1);
+            type = this.tokens.slice(this.position + 1, closing).join(' ');
+            this.position = closing + 1;
+        } else {
+            type = this.next() || '';
+        }
+
+        const size = this.sizeOf(type);
+        if (size === null) {
+            throw new Error(`Unknown type ${type}`);
+        }
+        return size;
+    }
+
+    // alignof(type) : toujours parenthésé
+    private parseAlignof(): number {
+        this.expect('(');
+        const closing = this.findClosingParen();
+        const type = this.tokens.slice(this.position, closing).join(' ');
+        this.position = closing + 1;
+
+        const alignment = this.alignOf(type);
+        if (alignment === null) {
+            throw new Error(`Unknown type ${type}`);
+        }
+        return alignment;
+    }
+
+    // offsetof(type, membre) ; le membre peut traverser des sous-structures : "header.flags"
+    private parseOffsetof(): number {
+        this.expect('(');
+        const closing = this.findClosingParen();
+        const comma = this.tokens.indexOf(',', this.position);
+        if (comma < 0 || comma > closing) {
+            throw new Error('Expected offsetof(type, member)');
+        }
+
+        const type = this.tokens.slice(this.position, comma).join(' ');
+        const member = this.tokens.slice(comma + 1, closing).join('');
+        this.position = closing + 1;
+
+        const offset = this.offsetOf(type, member);
+        if (offset === null) {
+            throw new Error(`Unknown member ${member} of ${type}`);
+        }
+        return offset;
+    }
+
+    // Index de la ')' fermant la parenthèse ouverte juste avant start
+    private findClosingParen(start: number = this.position): number {
+        let depth = 1;
+        for (let i = start; i < this.tokens.length; i++) {
+            if (this.tokens[i] === '(') {
+                depth++;
+            } else if (this.tokens[i] === ')') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        throw new Error('Unbalanced parentheses');
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): string | undefined {
+        return this.tokens[this.position++];
+    }
+
+    private expect(token: string): void {
+        if (this.next() !== token) {
+            throw new Error(`Expected ${token}`);
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { CONFIG_FILE_NAME, ConfigProblem, CustomConfigParser } from './customConfigParser';
+import { TargetProfile } from './targetProfiles';
+import { CustomTypeDefinition, TypeInfoProvider } from './typeInfo';
+
+// Charge les architectures et types personnalisés depuis les réglages
+// (memorySizeHover.customArchitectures / customTypes) et depuis les
+// fichiers .memsizehover.json à la racine de chaque dossier du workspace
+export class CustomConfigLoader implements vscode.Disposable {
+    private diagnostics: vscode.DiagnosticCollection;
+    private typeProvider: TypeInfoProvider;
+    private parser: CustomConfigParser;
+
+    constructor() {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('memorySizeHover.config');
+        this.typeProvider = TypeInfoProvider.getInstance();
+        this.parser = new CustomConfigParser();
+    }
+
+    public async load(): Promise<void> {
+        const profiles: TargetProfile[] = [];
+        const types = new Map<string, CustomTypeDefinition>();
+
+        // 1. Réglages
+        const config = vscode.workspace.getConfiguration('memorySizeHover');
+        const fromSettings = this.parser.parseConfig(
+            { architectures: config.get<unknown[]>('customArchitectures', []), types: config.get<object>('customTypes', {}) },
+            profiles
+        );
+        this.parser.merge(fromSettings, profiles, types);
+
+        if (fromSettings.problems.length > 0) {
+            vscode.window.showWarningMessage(
+                `Memory Size Hover: invalid custom configuration in settings: ${fromSettings.problems.map(problem => problem.message).join('; ')}`
+            );
+        }
+
+        // 2. Fichiers du workspace, qui priment sur les réglages
+        this.diagnostics.clear();
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, CONFIG_FILE_NAME);
+
+            let text: string;
+            try {
+                text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                continue; // Pas de fichier dans ce dossier
+            }
+
+            const fromFile = this.parser.parseFile(text, profiles);
+            this.parser.merge(fromFile, profiles, types);
+            this.diagnostics.set(uri, fromFile.problems.map(problem => this.createDiagnostic(text, problem)));
+        }
+
+        this.typeProvider.setCustomDefinitions(profiles, types);
+    }
+
+    public dispose(): void {
+        this.diagnostics.dispose();
+    }
+
+    private createDiagnostic(text: string, problem: ConfigProblem): vscode.Diagnostic {
+        let start = problem.offset !== undefined ? problem.offset : 0;
+        let length = 1;
+
+        if (problem.anchor) {
+            const index = text.indexOf(problem.anchor);
+            if (index >= 0) {
+                start = index;
+                length = problem.anchor.length;
+            }
+        }
+
+        const range = new vscode.Range(this.positionAt(text, start), this.positionAt(text, start + length));
+        const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'Memory Size Hover';
+        return diagnostic;
+    }
+
+    private positionAt(text: string, offset: number): vscode.Position {
+        const before = text.substring(0, Math.min(offset, text.length)).split('\n');
+        return new vscode.Position(before.length - 1, before[before.length - 1].length);
+    }
+}
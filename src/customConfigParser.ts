@@ -0,0 +1,312 @@
+import { builtinProfiles, CanonicalType, legacyProfileAliases, TargetProfile, TypeLayout } from './targetProfiles';
+import { CustomTypeDefinition } from './typeInfo';
+
+export const CONFIG_FILE_NAME = '.memsizehover.json';
+
+const canonicalTypes: CanonicalType[] = [
+    'char', 'short', 'int', 'long', 'long long',
+    'float', 'double', 'long double',
+    '_Bool', 'wchar_t', 'pointer'
+];
+
+export interface ConfigProblem {
+    message: string;
+    // Texte recherché dans le fichier pour placer le diagnostic
+    anchor?: string;
+    offset?: number;
+}
+
+export interface ParsedConfig {
+    profiles: TargetProfile[];
+    types: Map<string, CustomTypeDefinition>;
+    problems: ConfigProblem[];
+}
+
+// Valide les architectures et types personnalisés (réglages ou .memsizehover.json),
+// sans dépendre de VS Code : partagé par l'extension et la CLI
+export class CustomConfigParser {
+    public merge(parsed: ParsedConfig, profiles: TargetProfile[], types: Map<string, CustomTypeDefinition>): void {
+        for (const profile of parsed.profiles) {
+            const existing = profiles.findIndex(candidate => candidate.id === profile.id);
+            if (existing >= 0) {
+                profiles[existing] = profile;
+            } else {
+                profiles.push(profile);
+            }
+        }
+        parsed.types.forEach((definition, name) => types.set(name, definition));
+    }
+
+    public parseFile(text: string, knownProfiles: TargetProfile[]): ParsedConfig {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const position = /position (\d+)/.exec(message);
+            return {
+                profiles: [],
+                types: new Map(),
+                problems: [{ message: `Invalid JSON: ${message}`, offset: position ? parseInt(position[1]) : 0 }]
+            };
+        }
+
+        if (!this.isObject(raw)) {
+            return { profiles: [], types: new Map(), problems: [{ message: 'Expected an object with "architectures" and/or "types"', offset: 0 }] };
+        }
+
+        return this.parseConfig(raw, knownProfiles);
+    }
+
+    public parseConfig(raw: { [key: string]: unknown }, knownProfiles: TargetProfile[]): ParsedConfig {
+        const result: ParsedConfig = { profiles: [], types: new Map(), problems: [] };
+
+        const architectures = raw.architectures === undefined ? [] : raw.architectures;
+        if (!Array.isArray(architectures)) {
+            result.problems.push({ message: '"architectures" must be an array', anchor: '"architectures"' });
+        } else {
+            architectures.forEach((entry, index) => {
+                const profile = this.parseArchitecture(entry, index, [...knownProfiles, ...result.profiles], result.problems);
+                if (profile) {
+                    result.profiles.push(profile);
+                }
+            });
+        }
+
+        const types = raw.types === undefined ? {} : raw.types;
+        if (!this.isObject(types)) {
+            result.problems.push({ message: '"types" must be an object', anchor: '"types"' });
+        } else {
+            for (const name of Object.keys(types)) {
+                const definition = this.parseType(name, types[name], result.problems);
+                if (definition) {
+                    result.types.set(name.trim().replace(/\s+/g, ' '), definition);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    private parseArchitecture(entry: unknown, index: number, knownProfiles: TargetProfile[], problems: ConfigProblem[]): TargetProfile | null {
+        const where = `architectures[${index}]`;
+        if (!this.isObject(entry)) {
+            problems.push({ message: `${where} must be an object`, anchor: '"architectures"' });
+            return null;
+        }
+
+        const id = entry.id;
+        if (typeof id !== 'string' || !/^[\w-]+$/.test(id)) {
+            problems.push({ message: `${where}.id must be a non-empty identifier`, anchor: '"architectures"' });
+            return null;
+        }
+
+        const anchor = `"${id}"`;
+        if (builtinProfiles.some(profile => profile.id === id) || legacyProfileAliases[id] || id === 'auto' || id === 'target') {
+            problems.push({ message: `Architecture "${id}" is reserved by a built-in profile`, anchor });
+            return null;
+        }
+
+        // "extends" permet de ne redéfinir que ce qui diffère d'un profil existant
+        let base: TargetProfile | undefined;
+        if (entry.extends !== undefined) {
+            const baseId = typeof entry.extends === 'string' ? legacyProfileAliases[entry.extends] || entry.extends : undefined;
+            base = [...builtinProfiles, ...knownProfiles].find(profile => profile.id === baseId);
+            if (!base) {
+                problems.push({ message: `Architecture "${id}": unknown profile "${String(entry.extends)}" in "extends"`, anchor });
+                return null;
+            }
+        }
+
+        const types: { [K in CanonicalType]?: TypeLayout } = base ? { ...base.types } : {};
+        const rawTypes = entry.types === undefined ? {} : entry.types;
+        if (!this.isObject(rawTypes)) {
+            problems.push({ message: `Architecture "${id}": "types" must be an object`, anchor });
+            return null;
+        }
+
+        let valid = true;
+        for (const typeName of Object.keys(rawTypes)) {
+            if (!canonicalTypes.includes(typeName as CanonicalType)) {
+                problems.push({ message: `Architecture "${id}": unknown fundamental type "${typeName}" (expected one of ${canonicalTypes.join(', ')})`, anchor: `"${typeName}"` });
+                valid = false;
+                continue;
+            }
+            const layout = this.parseLayout(rawTypes[typeName], `Architecture "${id}", type "${typeName}"`, `"${typeName}"`, problems);
+            if (layout) {
+                types[typeName as CanonicalType] = layout;
+            } else {
+                valid = false;
+            }
+        }
+
+        const missing = canonicalTypes.filter(typeName => !types[typeName]);
+        if (missing.length > 0) {
+            problems.push({ message: `Architecture "${id}": missing sizes for ${missing.join(', ')} (or use "extends")`, anchor });
+            return null;
+        }
+
+        const canonicalField = (field: string, fallback: CanonicalType): CanonicalType => {
+            const value = entry[field];
+            if (value === undefined) {
+                return fallback;
+            }
+            if (typeof value !== 'string' || !canonicalTypes.includes(value as CanonicalType)) {
+                problems.push({ message: `Architecture "${id}": "${field}" must be one of ${canonicalTypes.join(', ')}`, anchor: `"${field}"` });
+                valid = false;
+                return fallback;
+            }
+            return value as CanonicalType;
+        };
+
+        const booleanField = (field: string, fallback: boolean): boolean => {
+            const value = entry[field];
+            if (value === undefined) {
+                return fallback;
+            }
+            if (typeof value !== 'boolean') {
+                problems.push({ message: `Architecture "${id}": "${field}" must be a boolean`, anchor: `"${field}"` });
+                valid = false;
+                return fallback;
+            }
+            return value;
+        };
+
+        const bitfieldLayout = entry.bitfieldLayout === undefined ? (base ? base.bitfieldLayout : 'sysv') : entry.bitfieldLayout;
+        if (bitfieldLayout !== 'sysv' && bitfieldLayout !== 'msvc') {
+            problems.push({ message: `Architecture "${id}": "bitfieldLayout" must be "sysv" or "msvc"`, anchor: '"bitfieldLayout"' });
+            valid = false;
+        }
+
+        const biggestAlignment = entry.biggestAlignment === undefined ? (base ? base.biggestAlignment : 16) : entry.biggestAlignment;
+        if (!this.isPositiveInteger(biggestAlignment)) {
+            problems.push({ message: `Architecture "${id}": "biggestAlignment" must be a positive integer`, anchor: '"biggestAlignment"' });
+            valid = false;
+        }
+
+        const defaultFastTypes: [CanonicalType, CanonicalType, CanonicalType, CanonicalType] = base ? base.fastTypes : ['char', 'int', 'int', 'long long'];
+        let fastTypes = defaultFastTypes;
+        if (entry.fastTypes !== undefined) {
+            const rawFastTypes = entry.fastTypes;
+            if (!Array.isArray(rawFastTypes) || rawFastTypes.length !== 4 || !rawFastTypes.every(value => canonicalTypes.includes(value))) {
+                problems.push({ message: `Architecture "${id}": "fastTypes" must list 4 fundamental types (int_fast8_t to int_fast64_t)`, anchor: '"fastTypes"' });
+                valid = false;
+            } else {
+                fastTypes = rawFastTypes as [CanonicalType, CanonicalType, CanonicalType, CanonicalType];
+            }
+        }
+
+        // Les macros du profil de base restent définies ; null en retire une
+        const macros: { [name: string]: string } = base ? { ...base.macros } : {};
+        if (entry.macros !== undefined) {
+            if (!this.isObject(entry.macros)) {
+                problems.push({ message: `Architecture "${id}": "macros" must be an object`, anchor: '"macros"' });
+                valid = false;
+            } else {
+                for (const [name, value] of Object.entries(entry.macros)) {
+                    if (!/^[A-Za-z_]\w*$/.test(name) || (value !== null && typeof value !== 'string' && typeof value !== 'number')) {
+                        problems.push({ message: `Architecture "${id}": macro "${name}" must be an identifier with a string, number or null value`, anchor: `"${name}"` });
+                        valid = false;
+                    } else if (value === null) {
+                        delete macros[name];
+                    } else {
+                        macros[name] = String(value);
+                    }
+                }
+            }
+        }
+
+        const profile: TargetProfile = {
+            id,
+            label: typeof entry.label === 'string' ? entry.label : id,
+            types: types as { [K in CanonicalType]: TypeLayout },
+            charSigned: booleanField('charSigned', base ? base.charSigned : true),
+            wcharSigned: booleanField('wcharSigned', base ? base.wcharSigned : true),
+            sizeType: canonicalField('sizeType', base ? base.sizeType : 'long'),
+            timeType: canonicalField('timeType', base ? base.timeType : 'long'),
+            fastTypes,
+            bitfieldLayout: bitfieldLayout === 'msvc' ? 'msvc' : 'sysv',
+            biggestAlignment: this.isPositiveInteger(biggestAlignment) ? biggestAlignment : 16,
+            macros
+        };
+
+        return valid ? profile : null;
+    }
+
+    private parseType(name: string, entry: unknown, problems: ConfigProblem[]): CustomTypeDefinition | null {
+        const anchor = `"${name}"`;
+        if (!/^[A-Za-z_]\w*(?: [A-Za-z_]\w*)*$/.test(name.trim())) {
+            problems.push({ message: `Type "${name}": not a valid C identifier`, anchor });
+            return null;
+        }
+
+        if (!this.isObject(entry)) {
+            problems.push({ message: `Type "${name}" must be an object with "size" and optional "alignment"`, anchor });
+            return null;
+        }
+
+        const layout = this.parseLayout(entry, `Type "${name}"`, anchor, problems);
+        if (!layout) {
+            return null;
+        }
+
+        if (entry.description !== undefined && typeof entry.description !== 'string') {
+            problems.push({ message: `Type "${name}": "description" must be a string`, anchor });
+        }
+        if (entry.signed !== undefined && typeof entry.signed !== 'boolean') {
+            problems.push({ message: `Type "${name}": "signed" must be a boolean`, anchor });
+        }
+
+        let architectures: { [profileId: string]: TypeLayout } | undefined;
+        if (entry.architectures !== undefined) {
+            if (!this.isObject(entry.architectures)) {
+                problems.push({ message: `Type "${name}": "architectures" must map profile ids to { size, alignment }`, anchor });
+            } else {
+                architectures = {};
+                for (const profileId of Object.keys(entry.architectures)) {
+                    const override = this.parseLayout(entry.architectures[profileId], `Type "${name}" on "${profileId}"`, anchor, problems);
+                    if (override) {
+                        architectures[legacyProfileAliases[profileId] || profileId] = override;
+                    }
+                }
+            }
+        }
+
+        return {
+            size: layout.size,
+            alignment: layout.alignment,
+            signed: typeof entry.signed === 'boolean' ? entry.signed : undefined,
+            description: typeof entry.description === 'string' ? entry.description : undefined,
+            architectures
+        };
+    }
+
+    // { "size": 4, "alignment": 4 } ; l'alignement vaut la taille par défaut
+    private parseLayout(entry: unknown, where: string, anchor: string, problems: ConfigProblem[]): TypeLayout | null {
+        if (!this.isObject(entry)) {
+            problems.push({ message: `${where} must be an object with "size" and optional "alignment"`, anchor });
+            return null;
+        }
+
+        if (!this.isPositiveInteger(entry.size)) {
+            problems.push({ message: `${where}: "size" must be a positive integer`, anchor });
+            return null;
+        }
+
+        const alignment = entry.alignment === undefined ? entry.size : entry.alignment;
+        if (!this.isPositiveInteger(alignment) || (alignment & (alignment - 1)) !== 0) {
+            problems.push({ message: `${where}: "alignment" must be a power of two`, anchor });
+            return null;
+        }
+
+        return { size: entry.size, alignment };
+    }
+
+    private isObject(value: unknown): value is { [key: string]: unknown } {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    private isPositiveInteger(value: unknown): value is number {
+        return typeof value === 'number' && Number.isInteger(value) && value > 0;
+    }
+}
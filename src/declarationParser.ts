@@ -0,0 +1,906 @@
+import { CLexer, Token } from './cLexer';
+
+export type RecordKeyword = 'struct' | 'union' | 'class';
+
+// Déclarateur d'un membre : "*const name[4][N]", "(*callback)(int)", "flags : 3"
+export interface DeclaratorNode {
+    // Vide pour un bitfield anonyme
+    name: string;
+    nameStart: number;
+    // '*' et '&' du déclarateur, sans qualificatifs : "**", "&"
+    pointer: string;
+    // Les mêmes avec leurs qualificatifs, pour l'affichage : "* const"
+    pointerText: string;
+    // "(*name)(...)" ; "(*name)[4]" est un simple pointeur
+    functionPointer: boolean;
+    // Paramètres d'un pointeur de fonction : "const void *, const void *"
+    parameters?: string;
+    dimensions: string[];
+    bitWidth?: string;
+    // Fin du déclarateur, initialiseur et largeur de bitfield exclus
+    end: number;
+}
+
+export type MemberKind = 'field' | 'record' | 'enum' | 'method' | 'access' | 'ignored' | 'unparsed';
+
+export interface MemberNode {
+    kind: MemberKind;
+    // Du premier token au ';' inclus, ou à l'accolade fermante d'un corps de méthode
+    start: number;
+    end: number;
+    // Type commun aux déclarateurs : "const unsigned long", "std::map<K, V>", type sous-jacent
+    // d'un enum. Pour une déclaration non reconnue, son texte
+    typeText: string;
+    // Attributs de la déclaration, hors en-tête d'une struct imbriquée
+    attributes: string[];
+    declarators: DeclaratorNode[];
+    // Struct/union/class définie dans la déclaration
+    record?: RecordNode;
+}
+
+export interface RecordNode {
+    keyword: RecordKeyword;
+    name?: string;
+    nameStart?: number;
+    isTypedef: boolean;
+    // "typedef" ou mot-clé, fin du mot-clé, corps entre les accolades, fin après le ';'
+    start: number;
+    keywordEnd: number;
+    bodyStart: number;
+    bodyEnd: number;
+    end: number;
+    // Entre le mot-clé et '{' (nom, attributs, bases), entre '}' et ';'
+    header: string;
+    trailer: string;
+    // "typename T, size_t N = 4" du template qui précède
+    templateParameters?: string;
+    // Namespaces et records englobants
+    scope: string[];
+    members: MemberNode[];
+}
+
+// Variable ou paramètre : à la racine, dans un corps de fonction ou un bloc
+export interface VariableNode {
+    typeText: string;
+    declarator: DeclaratorNode;
+    isParameter: boolean;
+    // Où le nom est visible : bloc englobant, ou de la liste de paramètres à la fin du corps
+    scopeStart: number;
+    scopeEnd: number;
+}
+
+export interface TextSpan {
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Ce qui peut désigner un type sous le curseur
+export interface TypeAtOffset {
+    word: TextSpan;
+    // "struct Nom" sous le mot-clé, "Nom" sous le nom
+    record?: TextSpan;
+    // Suite de mots-clés de type : "unsigned long long", "const char *"
+    keywords?: TextSpan;
+}
+
+// Déclarations C/C++ construites sur les tokens de CLexer : définitions de struct/union/class
+// (namespaces, templates, imbrication) et membres de leur corps
+export class DeclarationParser {
+    private static readonly recordKeywords = new Set(['struct', 'union', 'class']);
+    private static readonly elaboratedKeywords = new Set(['struct', 'union', 'class', 'enum', 'typename']);
+    private static readonly accessSpecifiers = new Set(['public', 'private', 'protected']);
+    // Déclarations qui n'occupent pas de place dans l'objet
+    private static readonly nonFieldSpecifiers = new Set(['static', 'typedef', 'using', 'friend', 'template', 'static_assert', '_Static_assert']);
+    // Instructions qui ne déclarent rien : "return total;"
+    private static readonly statementKeywords = new Set(['return', 'goto', 'throw', 'delete', 'co_return', 'co_yield']);
+    // Classe de stockage d'une variable : sans effet sur son type
+    private static readonly storageSpecifiers = new Set(['static', 'extern', 'register', 'thread_local', 'inline', 'constexpr', 'mutable']);
+    private static readonly attributeKeywords = new Set(['__attribute__', '__attribute', '__declspec', 'alignas', '_Alignas']);
+    private static readonly qualifiers = new Set(['const', 'volatile', 'restrict', '__restrict', '__restrict__']);
+    private static readonly fundamentalTypes = new Set(['char', 'short', 'int', 'long', 'signed', 'unsigned', 'bool', '_Bool', 'float', 'double', 'void', 'wchar_t', 'char8_t', 'char16_t', 'char32_t']);
+    private static readonly pointerOperators = new Set(['*', '&', '&&', '^']);
+
+    private lexer = new CLexer();
+
+    // Définitions du texte, imbriquées comprises, dans l'ordre de leur mot-clé
+    public parseRecords(text: string): RecordNode[] {
+        const tokens = this.tokensOf(text);
+        const records: RecordNode[] = [];
+        this.walkScope(text, tokens, 0, tokens.length, [], records);
+        return records;
+    }
+
+    // Déclarations d'un corps de struct (texte entre les accolades)
+    public parseMembers(body: string): MemberNode[] {
+        const tokens = this.tokensOf(body);
+        return this.parseMemberList(body, tokens, 0, tokens.length, [], []);
+    }
+
+    // Variables et paramètres déclarés dans le texte, dans l'ordre de leur nom
+    public parseVariables(text: string): VariableNode[] {
+        const tokens = this.tokensOf(text);
+        const variables: VariableNode[] = [];
+        this.walkStatements(text, tokens, 0, tokens.length, { start: 0, end: text.length }, variables);
+        return variables.sort((a, b) => a.declarator.nameStart - b.declarator.nameStart);
+    }
+
+    // Rien dans les commentaires ni les chaînes ; dans une directive, son contenu est analysé
+    public findTypeAt(text: string, offset: number, typeKeywords: string[]): TypeAtOffset | null {
+        const tokens = this.lexer.tokenize(text).tokens;
+        const index = tokens.findIndex(token => token.start <= offset && offset <= token.end && (token.kind === 'identifier' || token.kind === 'directive'));
+        if (index < 0) {
+            return null;
+        }
+
+        const token = tokens[index];
+        if (token.kind === 'directive') {
+            const found = this.findTypeAt(` ${token.text.substring(1)}`, offset - token.start, typeKeywords);
+            const shift = (span: TextSpan | undefined) => span && { ...span, start: span.start + token.start, end: span.end + token.start };
+            return found && { word: shift(found.word)!, record: shift(found.record), keywords: shift(found.keywords) };
+        }
+
+        const result: TypeAtOffset = { word: { text: token.text, start: token.start, end: token.end } };
+        const isRecordKeyword = (candidate: Token | undefined) => candidate !== undefined && DeclarationParser.recordKeywords.has(candidate.text);
+        const stars = (from: number) => {
+            let end = from;
+            while (tokens[end] && tokens[end].text === '*') {
+                end++;
+            }
+            return end;
+        };
+
+        if (isRecordKeyword(token) && tokens[index + 1] && tokens[index + 1].kind === 'identifier') {
+            const name = tokens[index + 1];
+            const end = stars(index + 2);
+            const pointer = '*'.repeat(end - index - 2);
+            result.record = { text: `${token.text} ${name.text}${pointer ? ` ${pointer}` : ''}`, start: token.start, end: tokens[end - 1].end };
+        } else if (isRecordKeyword(tokens[index - 1])) {
+            result.record = result.word;
+        } else if (typeKeywords.includes(token.text)) {
+            const inRun = (candidate: Token | undefined) => candidate !== undefined && candidate.kind === 'identifier'
+                && typeKeywords.includes(candidate.text) && !DeclarationParser.recordKeywords.has(candidate.text);
+            let first = index;
+            while (inRun(tokens[first - 1])) {
+                first--;
+            }
+            let last = index;
+            while (inRun(tokens[last + 1])) {
+                last++;
+            }
+            const end = stars(last + 1);
+            const words = tokens.slice(first, last + 1).map(candidate => candidate.text).join(' ');
+            const pointer = '*'.repeat(end - last - 1);
+            result.keywords = { text: pointer ? `${words} ${pointer}` : words, start: tokens[first].start, end: tokens[end - 1].end };
+        }
+
+        return result;
+    }
+
+    private tokensOf(text: string): Token[] {
+        return this.lexer.tokenize(text).tokens.filter(token => token.kind !== 'directive');
+    }
+
+    // Fichier, namespace ou bloc : les définitions y sont collectées avec leurs records imbriqués
+    private walkScope(text: string, tokens: Token[], from: number, to: number, scope: string[], records: RecordNode[]): void {
+        let templateEnd = -1;
+        let templateParameters: string | undefined;
+
+        for (let i = from; i < to; i++) {
+            const token = tokens[i];
+
+            if (token.text === 'template' && i + 1 < to && tokens[i + 1].text === '<') {
+                const close = this.findClosingAngle(tokens, i + 1, to);
+                if (close >= 0) {
+                    templateParameters = text.substring(tokens[i + 1].end, tokens[close].start).trim();
+                    templateEnd = close;
+                    i = close;
+                }
+                continue;
+            }
+
+            // "namespace a::b {", "inline namespace v1 {", namespace anonyme
+            if (token.text === 'namespace') {
+                const names: string[] = [];
+                let open = i + 1;
+                while (open < to && (tokens[open].kind === 'identifier' || tokens[open].text === '::')) {
+                    if (tokens[open].kind === 'identifier' && tokens[open].text !== 'inline') {
+                        names.push(tokens[open].text);
+                    }
+                    open++;
+                }
+                if (open < to && tokens[open].text === '{') {
+                    const close = this.findClosing(tokens, open, to);
+                    this.walkScope(text, tokens, open + 1, close < 0 ? to : close, [...scope, ...names], records);
+                    i = close < 0 ? to : close;
+                }
+                continue;
+            }
+
+            if (DeclarationParser.recordKeywords.has(token.text) && (i === 0 || tokens[i - 1].text !== 'enum')) {
+                const definition = this.parseRecordAt(text, tokens, i, to, scope, templateEnd === i - 1 ? templateParameters : undefined);
+                if (definition) {
+                    records.push(definition.record, ...definition.nested);
+                    i = definition.close;
+                    continue;
+                }
+            }
+
+            // Corps de fonction, extern "C", initialiseur : les définitions locales comptent aussi
+            if (token.text === '{') {
+                const close = this.findClosing(tokens, i, to);
+                this.walkScope(text, tokens, i + 1, close < 0 ? to : close, scope, records);
+                i = close < 0 ? to : close;
+            }
+        }
+    }
+
+    // Instructions d'un fichier ou d'un bloc : déclarations, blocs imbriqués, for/if/while, fonctions
+    private walkStatements(text: string, tokens: Token[], from: number, to: number, scope: { start: number; end: number }, variables: VariableNode[]): void {
+        let i = from;
+        while (i < to) {
+            const token = tokens[i];
+            const next = i + 1 < to ? tokens[i + 1] : undefined;
+
+            // Bloc, corps de namespace ou d'extern "C"
+            if (token.text === '{') {
+                const close = this.findClosing(tokens, i, to);
+                const end = close < 0 ? to : close;
+                this.walkStatements(text, tokens, i + 1, end, { start: token.start, end: close < 0 ? text.length : tokens[close].end }, variables);
+                i = end + 1;
+                continue;
+            }
+
+            if (/^[;}]$/.test(token.text) || /^(?:else|do|try)$/.test(token.text)) {
+                i++;
+                continue;
+            }
+
+            // "namespace a::b {", "extern "C" {" : leurs déclarations restent visibles hors du bloc
+            if (token.text === 'namespace' || (token.text === 'extern' && next && (next.kind === 'string' || next.text === '{'))) {
+                let open = i + 1;
+                while (open < to && tokens[open].text !== '{' && tokens[open].text !== ';') {
+                    open++;
+                }
+                const close = open < to && tokens[open].text === '{' ? this.findClosing(tokens, open, to) : -1;
+                if (close >= 0) {
+                    this.walkStatements(text, tokens, open + 1, close, scope, variables);
+                }
+                i = close >= 0 ? close + 1 : open + 1;
+                continue;
+            }
+
+            // Étiquettes, "case 1:", "public:"
+            if (token.text === 'case' || (token.kind === 'identifier' && next && next.text === ':')) {
+                while (i < to && tokens[i].text !== ':') {
+                    i++;
+                }
+                i++;
+                continue;
+            }
+
+            // "for (int i = 0; ...)", "if (auto *p = find())" : visible jusqu'à la fin de l'instruction
+            if (/^(?:for|if|while|switch|catch)$/.test(token.text) && next && next.text === '(') {
+                const close = this.findClosing(tokens, i + 1, to);
+                if (close < 0) {
+                    return;
+                }
+                let end = close + 1;
+                if (end < to && tokens[end].text === '{') {
+                    const bodyClose = this.findClosing(tokens, end, to);
+                    end = bodyClose < 0 ? to : bodyClose + 1;
+                } else if (end < to) {
+                    end = this.statementEnd(tokens, end, to);
+                }
+                const scopeEnd = end > close + 1 ? tokens[end - 1].end : tokens[close].end;
+
+                let initEnd = i + 2;
+                while (initEnd < close && tokens[initEnd].text !== ';') {
+                    initEnd++;
+                }
+                this.collectDeclaration(text, tokens, i + 2, initEnd, { start: next.start, end: scopeEnd }, variables);
+                i = close + 1;
+                continue;
+            }
+
+            const end = this.statementEnd(tokens, i, to);
+            this.collectStatement(text, tokens, i, end, scope, variables);
+            i = end;
+        }
+    }
+
+    // Définition de fonction (paramètres puis corps), record (ses méthodes inline) ou déclaration
+    private collectStatement(text: string, tokens: Token[], from: number, end: number, scope: { start: number; end: number }, variables: VariableNode[]): void {
+        const bodyClose = tokens[end - 1].text === ';' && end - 2 > from ? end - 2 : end - 1;
+        if (tokens[bodyClose].text === '}') {
+            const bodyOpen = this.findOpening(tokens, bodyClose);
+            const paren = this.findSignature(tokens, from, bodyOpen);
+            if (bodyOpen > from && paren >= 0) {
+                const parenClose = this.findClosing(tokens, paren, bodyOpen);
+                if (parenClose >= 0) {
+                    const functionScope = { start: tokens[paren].start, end: tokens[bodyClose].end };
+                    this.collectParameters(text, tokens, paren, parenClose, functionScope, variables);
+                    this.walkStatements(text, tokens, bodyOpen + 1, bodyClose, { start: tokens[bodyOpen].start, end: tokens[bodyClose].end }, variables);
+                    return;
+                }
+            }
+        }
+
+        this.collectDeclaration(text, tokens, from, end, scope, variables);
+    }
+
+    private collectDeclaration(text: string, tokens: Token[], from: number, end: number, scope: { start: number; end: number }, variables: VariableNode[]): void {
+        if (from >= end) {
+            return;
+        }
+
+        // "static int count;" : une variable, là où un membre statique n'occuperait pas de place
+        const kept = tokens.slice(from, end).filter(token => !DeclarationParser.storageSpecifiers.has(token.text));
+        if (kept.length === 0 || DeclarationParser.statementKeywords.has(kept[0].text)) {
+            return;
+        }
+        const member = this.parseMember(text, kept, 0, kept.length, [], []);
+        const record = member.record;
+        if (record) {
+            // Corps du record : membres et paramètres de ses méthodes inline
+            let open = from;
+            while (open < end && tokens[open].end !== record.bodyStart) {
+                open++;
+            }
+            const close = open < end ? this.findClosing(tokens, open, end) : -1;
+            if (close >= 0) {
+                this.walkStatements(text, tokens, open + 1, close, { start: tokens[open].start, end: tokens[close].end }, variables);
+            }
+        }
+
+        if (member.kind === 'method') {
+            // Prototype : ses paramètres ne sont visibles que dans ses parenthèses
+            const paren = this.findSignature(kept, 0, kept.length);
+            const close = paren >= 0 ? this.findClosing(kept, paren, kept.length) : -1;
+            if (close >= 0) {
+                this.collectParameters(text, kept, paren, close, { start: kept[paren].start, end: kept[close].end }, variables);
+            }
+            return;
+        }
+
+        // "total += values[i]" se lit comme un champ de type "total +="
+        const typeText = member.kind === 'record' ? (record && record.name ? `${record.keyword} ${record.name}` : '') : member.kind === 'field' ? member.typeText : '';
+        if (/^(?:[\w\s:]|<[\s\S]*>)+$/.test(typeText)) {
+            for (const declarator of member.declarators) {
+                if (declarator.name) {
+                    variables.push({ typeText, declarator, isParameter: false, scopeStart: scope.start, scopeEnd: scope.end });
+                }
+            }
+        }
+    }
+
+    private collectParameters(text: string, tokens: Token[], open: number, close: number, scope: { start: number; end: number }, variables: VariableNode[]): void {
+        if (close <= open + 1) {
+            return;
+        }
+        for (const part of this.splitDeclarators(tokens.slice(open + 1, close))) {
+            const parsed = part.length > 0 ? this.parseDeclarator(text, part, true) : null;
+            if (parsed && typeof parsed !== 'string') {
+                variables.push({ typeText: this.joinTokens(parsed.typeTokens), declarator: parsed.declarator, isParameter: true, scopeStart: scope.start, scopeEnd: scope.end });
+            }
+        }
+    }
+
+    // '(' de la liste de paramètres : le premier hors attributs, avant tout '='
+    private findSignature(tokens: Token[], from: number, to: number): number {
+        for (let i = from; i < to; i++) {
+            const attributeEnd = this.attributeEnd(tokens, i, to);
+            if (attributeEnd > i) {
+                i = attributeEnd - 1;
+                continue;
+            }
+            if (/^[={;]$/.test(tokens[i].text)) {
+                return -1;
+            }
+            if (tokens[i].text === '(') {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    // "struct Nom final : Base { ... } decl;" dont le mot-clé est à index ; null si ce n'est pas une définition
+    private parseRecordAt(text: string, tokens: Token[], index: number, to: number, scope: string[], templateParameters?: string):
+        { record: RecordNode; nested: RecordNode[]; close: number } | null {
+        let open = index + 1;
+        let name: Token | undefined;
+        let inBases = false;
+
+        while (open < to && tokens[open].text !== '{') {
+            const attributeEnd = this.attributeEnd(tokens, open, to);
+            if (attributeEnd > open) {
+                open = attributeEnd;
+                continue;
+            }
+
+            const token = tokens[open];
+            if (/^[;}()=]$/.test(token.text) || DeclarationParser.elaboratedKeywords.has(token.text)) {
+                return null;
+            }
+            if (token.text === ':') {
+                inBases = true;
+            } else if (!inBases && !name && token.kind === 'identifier' && token.text !== 'final') {
+                name = token;
+            }
+            open++;
+        }
+
+        const close = open < to ? this.findClosing(tokens, open, to) : -1;
+        if (close < 0) {
+            return null;
+        }
+
+        let terminator = close + 1;
+        while (terminator < to && !/^[;{}]$/.test(tokens[terminator].text)) {
+            terminator++;
+        }
+        const trailerEnd = terminator < tokens.length ? tokens[terminator].start : text.length;
+        const isTypedef = index > 0 && tokens[index - 1].text === 'typedef';
+
+        const nested: RecordNode[] = [];
+        const members = this.parseMemberList(text, tokens, open + 1, close, [...scope, name ? name.text : '(anonymous)'], nested);
+
+        const record: RecordNode = {
+            keyword: tokens[index].text as RecordKeyword,
+            name: name ? name.text : undefined,
+            nameStart: name ? name.start : undefined,
+            isTypedef,
+            start: isTypedef ? tokens[index - 1].start : tokens[index].start,
+            keywordEnd: tokens[index].end,
+            bodyStart: tokens[open].end,
+            bodyEnd: tokens[close].start,
+            end: terminator < to && tokens[terminator].text === ';' ? tokens[terminator].end : trailerEnd,
+            header: text.substring(tokens[index].end, tokens[open].start),
+            trailer: text.substring(tokens[close].end, trailerEnd),
+            templateParameters,
+            scope,
+            members
+        };
+
+        return { record, nested, close };
+    }
+
+    private parseMemberList(text: string, tokens: Token[], from: number, to: number, scope: string[], nested: RecordNode[]): MemberNode[] {
+        const members: MemberNode[] = [];
+        let i = from;
+
+        while (i < to) {
+            if (DeclarationParser.accessSpecifiers.has(tokens[i].text) && i + 1 < to && tokens[i + 1].text === ':') {
+                members.push({ kind: 'access', start: tokens[i].start, end: tokens[i + 1].end, typeText: '', attributes: [], declarators: [] });
+                i += 2;
+                continue;
+            }
+
+            const end = this.statementEnd(tokens, i, to);
+            members.push(this.parseMember(text, tokens, i, end, scope, nested));
+            i = end;
+        }
+
+        return members;
+    }
+
+    // Après le ';' de la déclaration qui commence à from, ou après le corps d'une méthode inline
+    private statementEnd(tokens: Token[], from: number, to: number): number {
+        // Liste de paramètres vue avant tout '=', puis liste d'initialisation d'un constructeur
+        let signature = false;
+        let initializers = false;
+        let assigned = false;
+
+        for (let i = from; i < to; i++) {
+            const text = tokens[i].text;
+            const attributeEnd = this.attributeEnd(tokens, i, to);
+            if (attributeEnd > i) {
+                i = attributeEnd - 1;
+                continue;
+            }
+
+            if (text === ';') {
+                return i + 1;
+            }
+            if (text === '(' || text === '[') {
+                const close = this.findClosing(tokens, i, to);
+                if (close < 0) {
+                    return to;
+                }
+                signature = signature || (text === '(' && !assigned);
+                i = close;
+            } else if (text === '=' && (i === 0 || tokens[i - 1].text !== 'operator')) {
+                assigned = true;
+            } else if (text === ':' && signature) {
+                initializers = true;
+            } else if (text === '{') {
+                const close = this.findClosing(tokens, i, to);
+                if (close < 0) {
+                    return to;
+                }
+                // "a{1}" dans la liste d'initialisation n'est pas le corps du constructeur
+                const previous = i > from ? tokens[i - 1].text : '';
+                if (signature && !assigned && (!initializers || previous === ')' || previous === '}')) {
+                    return close + 1 < to && tokens[close + 1].text === ';' ? close + 2 : close + 1;
+                }
+                i = close;
+            }
+        }
+
+        return to;
+    }
+
+    private parseMember(text: string, tokens: Token[], from: number, end: number, scope: string[], nested: RecordNode[]): MemberNode {
+        const member: MemberNode = { kind: 'ignored', start: tokens[from].start, end: tokens[end - 1].end, typeText: '', attributes: [], declarators: [] };
+        const to = tokens[end - 1].text === ';' ? end - 1 : end;
+
+        // "template <class U> struct Inner { ... };"
+        let templateEnd = -1;
+        let templateParameters: string | undefined;
+        if (tokens[from].text === 'template' && from + 1 < to && tokens[from + 1].text === '<') {
+            templateEnd = this.findClosingAngle(tokens, from + 1, to);
+            templateParameters = templateEnd >= 0 ? text.substring(tokens[from + 1].end, tokens[templateEnd].start).trim() : undefined;
+        }
+
+        // Struct/union/class définie dans la déclaration, avant tout '(' ou initialiseur
+        let definition: { record: RecordNode; nested: RecordNode[]; close: number } | null = null;
+        let recordIndex = -1;
+        for (let i = Math.max(from, templateEnd + 1); i < to && !definition; i++) {
+            const attributeEnd = this.attributeEnd(tokens, i, to);
+            if (attributeEnd > i) {
+                i = attributeEnd - 1;
+                continue;
+            }
+            if (/^[({[=]$/.test(tokens[i].text)) {
+                break;
+            }
+            if (DeclarationParser.recordKeywords.has(tokens[i].text) && (i === 0 || tokens[i - 1].text !== 'enum')) {
+                definition = this.parseRecordAt(text, tokens, i, to, scope, templateEnd === i - 1 ? templateParameters : undefined);
+                recordIndex = i;
+            }
+        }
+
+        // Attributs à part ; le record défini est remplacé par sa position
+        const kept: Token[] = [];
+        let recordPosition = -1;
+        for (let i = from; i < to; i++) {
+            if (definition && i === recordIndex) {
+                recordPosition = kept.length;
+                i = definition.close;
+                continue;
+            }
+            const attributeEnd = this.attributeEnd(tokens, i, to);
+            if (attributeEnd > i) {
+                member.attributes.push(text.substring(tokens[i].start, tokens[attributeEnd - 1].end));
+                i = attributeEnd - 1;
+                continue;
+            }
+            kept.push(tokens[i]);
+        }
+
+        if (definition) {
+            nested.push(definition.record, ...definition.nested);
+            member.record = definition.record;
+        }
+        if (kept.some(token => DeclarationParser.nonFieldSpecifiers.has(token.text))) {
+            return member;
+        }
+        if (kept.some(token => token.text === 'operator')) {
+            return { ...member, kind: 'method' };
+        }
+
+        const unparsed = (): MemberNode => ({ ...member, kind: 'unparsed', typeText: this.joinTokens(kept), declarators: [] });
+
+        if (definition) {
+            const declarators = this.parseDeclaratorList(text, kept.slice(recordPosition));
+            return declarators ? { ...member, kind: 'record', declarators } : unparsed();
+        }
+
+        // Enum imbriqué : n'occupe de la place que s'il déclare un membre
+        const enumIndex = kept.findIndex(token => token.text === 'enum');
+        const open = kept.findIndex((token, index) => index > enumIndex && /^[{(]$/.test(token.text));
+        if (enumIndex >= 0 && open >= 0 && kept[open].text === '{') {
+            const close = this.findClosing(kept, open, kept.length);
+            const colon = kept.findIndex((token, index) => index > enumIndex && index < open && token.text === ':');
+            const declarators = close >= 0 ? this.parseDeclaratorList(text, kept.slice(close + 1)) : null;
+            if (!declarators) {
+                return unparsed();
+            }
+            return { ...member, kind: 'enum', typeText: colon >= 0 ? this.joinTokens(kept.slice(colon + 1, open)) : 'int', declarators };
+        }
+
+        if (kept.length === 0) {
+            return member;
+        }
+
+        const parts = this.splitDeclarators(kept);
+        const first = this.parseDeclarator(text, parts[0], true);
+        if (first === 'method' || first === 'ignored') {
+            return { ...member, kind: first };
+        }
+        const rest = first ? this.parseDeclaratorParts(text, parts.slice(1), true) : null;
+        if (!first || !rest) {
+            return unparsed();
+        }
+
+        return { ...member, kind: 'field', typeText: this.joinTokens(first.typeTokens), declarators: [first.declarator, ...rest] };
+    }
+
+    // "*a, b[4], c : 2" sans type ; null si l'un n'est pas un déclarateur
+    private parseDeclaratorList(text: string, tokens: Token[]): DeclaratorNode[] | null {
+        return tokens.length === 0 ? [] : this.parseDeclaratorParts(text, this.splitDeclarators(tokens), false);
+    }
+
+    // Les fonctions déclarées dans la liste ("int a, f(int);") sont ignorées si skipFunctions
+    private parseDeclaratorParts(text: string, parts: Token[][], skipFunctions: boolean): DeclaratorNode[] | null {
+        const declarators: DeclaratorNode[] = [];
+        for (const part of parts) {
+            const parsed = this.parseDeclarator(text, part, false);
+            if (parsed === 'method' && skipFunctions) {
+                continue;
+            }
+            if (!parsed || typeof parsed === 'string') {
+                return null;
+            }
+            declarators.push(parsed.declarator);
+        }
+        return declarators;
+    }
+
+    // Découpe aux virgules hors parenthèses et arguments de template
+    private splitDeclarators(tokens: Token[]): Token[][] {
+        const topLevel = this.topLevel(tokens);
+        const parts: Token[][] = [[]];
+        tokens.forEach((token, index) => {
+            if (token.text === ',' && topLevel[index]) {
+                parts.push([]);
+            } else {
+                parts[parts.length - 1].push(token);
+            }
+        });
+        return parts;
+    }
+
+    // Type (si withType) puis déclarateur, initialiseur "= 4" ou "{4}" compris
+    private parseDeclarator(text: string, part: Token[], withType: boolean): { typeTokens: Token[]; declarator: DeclaratorNode } | 'method' | 'ignored' | null {
+        const topLevel = this.topLevel(part);
+        let limit = part.findIndex((token, index) => topLevel[index] && (token.text === '=' || token.text === '{'));
+        if (limit < 0) {
+            limit = part.length;
+        }
+        if (limit === 0) {
+            return null;
+        }
+
+        const paren = part.findIndex((token, index) => index < limit && topLevel[index] && token.text === '(');
+        if (paren >= 0) {
+            return this.parseParenthesizedDeclarator(text, part, paren, limit, withType);
+        }
+
+        let declaratorEnd = limit;
+        let bitWidth: string | undefined;
+        const colon = part.findIndex((token, index) => index < limit && topLevel[index] && token.text === ':');
+        if (colon >= 0) {
+            bitWidth = text.substring(part[colon].end, part[limit - 1].end).trim();
+            declaratorEnd = colon;
+        }
+        const end = declaratorEnd > 0 ? part[declaratorEnd - 1].end : part[0].start;
+
+        const dimensions: string[] = [];
+        while (declaratorEnd > 0 && part[declaratorEnd - 1].text === ']') {
+            const open = this.findOpening(part, declaratorEnd - 1);
+            if (open < 0) {
+                return null;
+            }
+            dimensions.unshift(text.substring(part[open].end, part[declaratorEnd - 1].start).trim());
+            declaratorEnd = open;
+        }
+
+        const name = part[declaratorEnd - 1];
+        const before = part[declaratorEnd - 2];
+        const isName = name !== undefined && name.kind === 'identifier' && !DeclarationParser.qualifiers.has(name.text)
+            && (!withType || (before !== undefined && before.text !== '::' && !DeclarationParser.fundamentalTypes.has(name.text)
+                && !DeclarationParser.elaboratedKeywords.has(before.text)));
+
+        if (!isName) {
+            // Bitfield anonyme : "unsigned int : 3", "uint8_t : 0"
+            if (bitWidth !== undefined && dimensions.length === 0 && (withType ? declaratorEnd > 0 : declaratorEnd === 0)) {
+                const declarator = { name: '', nameStart: part[colon].start, pointer: '', pointerText: '', functionPointer: false, dimensions, bitWidth, end: part[colon].start };
+                return { typeTokens: part.slice(0, declaratorEnd), declarator };
+            }
+            // Déclaration anticipée : "struct Node;", "enum class Mode;"
+            if (withType && before !== undefined && DeclarationParser.elaboratedKeywords.has(before.text) && bitWidth === undefined && dimensions.length === 0) {
+                return 'ignored';
+            }
+            return null;
+        }
+
+        // "const char *const name" : les qualificatifs après '*' appartiennent au déclarateur
+        const nameIndex = declaratorEnd - 1;
+        let typeEnd = nameIndex;
+        while (typeEnd > 0 && (DeclarationParser.pointerOperators.has(part[typeEnd - 1].text) || DeclarationParser.qualifiers.has(part[typeEnd - 1].text))) {
+            typeEnd--;
+        }
+        let operators = part.slice(typeEnd, nameIndex).filter(token => DeclarationParser.pointerOperators.has(token.text));
+        if (operators.length === 0) {
+            typeEnd = nameIndex;
+            operators = [];
+        }
+        if (withType ? typeEnd === 0 : typeEnd !== 0) {
+            return null;
+        }
+
+        return {
+            typeTokens: part.slice(0, typeEnd),
+            declarator: {
+                name: name.text,
+                nameStart: name.start,
+                pointer: operators.map(token => token.text).join(''),
+                pointerText: this.pointerText(part.slice(typeEnd, nameIndex)),
+                functionPointer: false,
+                dimensions,
+                bitWidth,
+                end
+            }
+        };
+    }
+
+    // "(*callback)(int)", "(*handlers[4])(void)", "(Class::*method)()", "(*row)[4]" ;
+    // sans pointeur, c'est une fonction
+    private parseParenthesizedDeclarator(text: string, part: Token[], paren: number, limit: number, withType: boolean):
+        { typeTokens: Token[]; declarator: DeclaratorNode } | 'method' | null {
+        const close = this.findClosing(part, paren, limit);
+        const inner = close < 0 ? [] : part.slice(paren + 1, close);
+        const isPointer = inner.length > 0 && (DeclarationParser.pointerOperators.has(inner[0].text) || (inner[0].kind === 'identifier' && inner.length > 1 && inner[1].text === '::'));
+        if (!isPointer) {
+            return 'method';
+        }
+        if (withType ? paren === 0 : paren !== 0) {
+            return null;
+        }
+
+        let nameEnd = inner.length;
+        const dimensions: string[] = [];
+        while (nameEnd > 0 && inner[nameEnd - 1].text === ']') {
+            const open = this.findOpening(inner, nameEnd - 1);
+            if (open < 0) {
+                return null;
+            }
+            dimensions.unshift(text.substring(inner[open].end, inner[nameEnd - 1].start).trim());
+            nameEnd = open;
+        }
+
+        const name = inner[nameEnd - 1];
+        if (!name || name.kind !== 'identifier') {
+            return null;
+        }
+
+        const pointer = inner.slice(0, nameEnd - 1).filter(token => DeclarationParser.pointerOperators.has(token.text)).map(token => token.text).join('');
+        const after = part[close + 1];
+        const functionPointer = after !== undefined && after.text === '(';
+        const parametersClose = functionPointer ? this.findClosing(part, close + 1, limit) : -1;
+        return {
+            typeTokens: part.slice(0, paren),
+            declarator: {
+                name: name.text,
+                nameStart: name.start,
+                pointer,
+                pointerText: this.pointerText(inner.slice(0, nameEnd - 1)),
+                functionPointer,
+                parameters: parametersClose >= 0 ? this.joinTokens(part.slice(close + 2, parametersClose)) : undefined,
+                dimensions,
+                end: part[limit - 1].end
+            }
+        };
+    }
+
+    // "*", "* const", " const*" : les qualificatifs séparés par un espace
+    private pointerText(tokens: Token[]): string {
+        return tokens.map(token => DeclarationParser.qualifiers.has(token.text) ? ` ${token.text}` : token.text).join('');
+    }
+
+    // Tokens hors parenthèses, crochets, accolades et arguments de template ; après un '='
+    // les '<' sont des comparaisons
+    private topLevel(tokens: Token[]): boolean[] {
+        const result: boolean[] = [];
+        let depth = 0;
+        let angles = 0;
+        let assigned = false;
+
+        for (const token of tokens) {
+            const text = token.text;
+            if (text === ')' || text === ']' || text === '}') {
+                depth--;
+            } else if (text === '>' && depth === 0 && angles > 0) {
+                angles--;
+            }
+            result.push(depth === 0 && angles === 0);
+
+            if (text === '(' || text === '[' || text === '{') {
+                depth++;
+            } else if (text === '<' && depth === 0 && !assigned) {
+                angles++;
+            } else if (text === '=' && depth === 0 && angles === 0) {
+                assigned = true;
+            } else if (text === ',' && depth === 0 && angles === 0) {
+                assigned = false;
+            }
+        }
+
+        return result;
+    }
+
+    // Fin d'un attribut "__attribute__((...))", "alignas(8)", "[[nodiscard]]" commençant à index, sinon index
+    private attributeEnd(tokens: Token[], index: number, to: number): number {
+        const token = tokens[index];
+        const isAttribute = (DeclarationParser.attributeKeywords.has(token.text) && index + 1 < to && tokens[index + 1].text === '(')
+            || (token.text === '[' && index + 1 < to && tokens[index + 1].text === '[');
+        if (!isAttribute) {
+            return index;
+        }
+
+        const close = this.findClosing(tokens, token.text === '[' ? index : index + 1, to);
+        return close < 0 ? index : close + 1;
+    }
+
+    private findClosing(tokens: Token[], openIndex: number, to: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < to; i++) {
+            const text = tokens[i].text;
+            if (text === '(' || text === '[' || text === '{') {
+                depth++;
+            } else if (text === ')' || text === ']' || text === '}') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    private findOpening(tokens: Token[], closeIndex: number): number {
+        let depth = 0;
+        for (let i = closeIndex; i >= 0; i--) {
+            const text = tokens[i].text;
+            if (text === ')' || text === ']' || text === '}') {
+                depth++;
+            } else if (text === '(' || text === '[' || text === '{') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    // '>' fermant le '<' à openIndex ; les parenthèses protègent "(a > b)"
+    private findClosingAngle(tokens: Token[], openIndex: number, to: number): number {
+        let depth = 0;
+        let parens = 0;
+        for (let i = openIndex; i < to; i++) {
+            const text = tokens[i].text;
+            if (text === '(' || text === '[') {
+                parens++;
+            } else if (text === ')' || text === ']') {
+                parens--;
+            } else if (text === ';' || text === '{' || text === '}') {
+                return -1;
+            } else if (parens === 0 && text === '<') {
+                depth++;
+            } else if (parens === 0 && text === '>') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    // Texte des tokens, un espace là où la source en séparait : "std::map<int, int>", "unsigned long"
+    private joinTokens(tokens: Token[]): string {
+        return tokens.map((token, index) => index > 0 && token.start > tokens[index - 1].end ? ` ${token.text}` : token.text).join('');
+    }
+}
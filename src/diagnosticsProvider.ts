@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { SourceDocument, StructAnalyzer, StructInfo } from './structAnalyzer';
+import { StructCache } from './structCache';
+import { TypeInfoProvider } from './typeInfo';
+
+// Délai après la dernière frappe avant de recalculer les diagnostics
+const DEBOUNCE_DELAY = 500;
+const LANGUAGES = ['c', 'cpp', 'h', 'hpp'];
+
+// Signale dans l'onglet Problèmes les structs dont le padding est excessif, qui dépassent
+// une ligne de cache ou le budget déclaré par "// memsize: max N", et les static_assert
+// contredits par le layout calculé
+export class LayoutDiagnosticsProvider implements vscode.Disposable {
+    private diagnostics: vscode.DiagnosticCollection;
+    private structAnalyzer: StructAnalyzer;
+    private structCache: StructCache;
+    private pending: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(structCache: StructCache) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('memsize');
+        this.structAnalyzer = new StructAnalyzer();
+        this.structCache = structCache;
+
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cancel(document);
+                this.diagnostics.delete(document.uri);
+            })
+        );
+    }
+
+    // Après un changement de réglages, de profil ou de l'index du workspace
+    public refreshAll(): void {
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    public dispose(): void {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.pending.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        this.cancel(document);
+        this.pending.set(document.uri.toString(), setTimeout(() => {
+            this.pending.delete(document.uri.toString());
+            this.update(document);
+        }, DEBOUNCE_DELAY));
+    }
+
+    private cancel(document: vscode.TextDocument): void {
+        const timer = this.pending.get(document.uri.toString());
+        if (timer) {
+            clearTimeout(timer);
+            this.pending.delete(document.uri.toString());
+        }
+    }
+
+    private update(document: vscode.TextDocument): void {
+        if (!LANGUAGES.includes(document.languageId) || document.isClosed) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('memorySizeHover.diagnostics');
+        if (!config.get<boolean>('enabled', true)) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        // Même analyse que l'info-bulle : seules les régions modifiées depuis sont relues
+        const source = this.structCache.getSource(document);
+        const relatedTexts = this.structCache.getRelatedTexts(document);
+        const structs = this.structCache.getAnalysis(document).structs;
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const location of this.structAnalyzer.findRecordLocations(source, relatedTexts)) {
+            const structInfo = structs.get(location.name);
+            // Une taille partielle donnerait de faux positifs
+            if (location.isTemplate || !structInfo || structInfo.unresolvedTypes.length > 0) {
+                continue;
+            }
+
+            const range = new vscode.Range(
+                document.positionAt(location.nameStart),
+                document.positionAt(location.nameStart + location.name.length)
+            );
+            diagnostics.push(...this.checkStruct(structInfo, range, location.sizeBudget, config));
+        }
+
+        if (config.get<boolean>('staticAssertions', true)) {
+            diagnostics.push(...this.checkStaticAssertions(document, source, relatedTexts));
+        }
+
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    private checkStruct(structInfo: StructInfo, range: vscode.Range, sizeBudget: number | undefined, config: vscode.WorkspaceConfiguration): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const size = structInfo.totalSize;
+
+        if (sizeBudget !== undefined && size > sizeBudget) {
+            diagnostics.push(this.createDiagnostic(
+                range,
+                `${structInfo.name} is ${size} bytes, over its budget of ${sizeBudget} bytes`,
+                vscode.DiagnosticSeverity.Warning,
+                'size-budget'
+            ));
+        }
+
+        // 0 désactive chaque seuil
+        const maxPaddingPercent = config.get<number>('maxPaddingPercent', 25);
+        const maxPaddingBytes = config.get<number>('maxPaddingBytes', 0);
+        const padding = structInfo.members.reduce((sum, member) => sum + member.paddingBefore, 0) + structInfo.trailingPadding;
+        const percent = size > 0 ? Math.round(padding * 100 / size) : 0;
+        if (padding > 0 && ((maxPaddingPercent > 0 && padding * 100 > maxPaddingPercent * size) || (maxPaddingBytes > 0 && padding > maxPaddingBytes))) {
+            diagnostics.push(this.createDiagnostic(
+                range,
+                `${structInfo.name} has ${padding} bytes of padding (${percent}% of ${size} bytes)`,
+                vscode.DiagnosticSeverity.Information,
+                'padding'
+            ));
+        }
+
+        const cacheLineSize = config.get<number>('cacheLineSize', 64);
+        if (cacheLineSize > 0 && size > cacheLineSize) {
+            diagnostics.push(this.createDiagnostic(
+                range,
+                `${structInfo.name} is ${size} bytes, larger than a ${cacheLineSize}-byte cache line (spans at least ${Math.ceil(size / cacheLineSize)} lines)`,
+                vscode.DiagnosticSeverity.Information,
+                'cache-line'
+            ));
+        }
+
+        return diagnostics;
+    }
+
+    // Le layout calculé peut se tromper là où le compilateur ne se trompe pas : avertissement, pas erreur
+    private checkStaticAssertions(document: vscode.TextDocument, source: SourceDocument, relatedTexts: string[]): vscode.Diagnostic[] {
+        const profile = TypeInfoProvider.getInstance().getProfile();
+
+        return this.structAnalyzer.findStaticAssertions(source, relatedTexts)
+            .filter(assertion => assertion.holds === false)
+            .map(assertion => {
+                const computed = assertion.computed
+                    .filter(entry => entry.value !== null)
+                    .map(entry => `${entry.expression} is ${entry.value}`)
+                    .join(', ');
+                return this.createDiagnostic(
+                    new vscode.Range(document.positionAt(assertion.start), document.positionAt(assertion.end)),
+                    `static_assert(${assertion.condition}) fails on ${profile.label}: ${computed}`,
+                    vscode.DiagnosticSeverity.Warning,
+                    'static-assert'
+                );
+            });
+    }
+
+    private createDiagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity, code: string): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = 'memsize';
+        diagnostic.code = code;
+        return diagnostic;
+    }
+}
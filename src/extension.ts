@@ -1,38 +1,142 @@
 import * as vscode from 'vscode';
+import { LayoutCodeActionProvider } from './codeActionProvider';
+import { LayoutCodeLensProvider } from './codeLensProvider';
+import { CompilerProbe } from './compilerProbe';
+import { CustomConfigLoader } from './customConfig';
+import { CONFIG_FILE_NAME } from './customConfigParser';
+import { LayoutDiagnosticsProvider } from './diagnosticsProvider';
 import { MemorySizeHoverProvider } from './hoverProvider';
-import { TypeInfoProvider } from './typeInfo';
+import { LayoutInlayHintsProvider } from './inlayHintsProvider';
+import { LayoutViewPanel } from './layoutView';
+import { LayoutReportExporter } from './reportExporter';
+import { StructCache } from './structCache';
+import { TypeInfoProvider, TypeInfoSettings } from './typeInfo';
+import { WorkspaceIndex } from './workspaceIndex';
 
 export function activate(context: vscode.ExtensionContext) {
-    const provider = new MemorySizeHoverProvider();
+    const workspaceIndex = new WorkspaceIndex();
+    const compilerProbe = new CompilerProbe(workspaceIndex);
+    const structCache = new StructCache(workspaceIndex);
+    const provider = new MemorySizeHoverProvider(structCache, compilerProbe);
     const typeProvider = TypeInfoProvider.getInstance();
+    typeProvider.configure(readTypeInfoSettings());
+    const customConfigLoader = new CustomConfigLoader();
+    const diagnostics = new LayoutDiagnosticsProvider(structCache);
+    const inlayHintsProvider = new LayoutInlayHintsProvider(provider);
+    const codeLensProvider = new LayoutCodeLensProvider(provider);
+    const layoutView = new LayoutViewPanel(structCache);
+    const reportExporter = new LayoutReportExporter(workspaceIndex);
 
+    // Tout ce qui change les layouts invalide le cache des info-bulles, les diagnostics et les annotations
+    const refreshLayouts = () => {
+        provider.clearCache();
+        diagnostics.refreshAll();
+        inlayHintsProvider.refresh();
+        codeLensProvider.refresh();
+        layoutView.refresh();
+    };
+
+    const reloadCustomConfig = () => customConfigLoader.load().then(refreshLayouts);
+    reloadCustomConfig();
+
+    // Les types déclarés dans d'autres fichiers changent les layouts en cache
+    workspaceIndex.onDidChange(refreshLayouts);
+    workspaceIndex.build();
+
+    const selector: vscode.DocumentSelector = [
+        { scheme: 'file', language: 'c' },
+        { scheme: 'file', language: 'cpp' },
+        { scheme: 'file', language: 'h' },
+        { scheme: 'file', language: 'hpp' }
+    ];
 
     // Register ONLY ONE hover provider for all C/C++ files
-    const disposable = vscode.languages.registerHoverProvider(
-        [
-            { scheme: 'file', language: 'c' },
-            { scheme: 'file', language: 'cpp' },
-            { scheme: 'file', language: 'h' },
-            { scheme: 'file', language: 'hpp' }
-        ],
-        provider
+    const disposable = vscode.languages.registerHoverProvider(selector, provider);
+
+    const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+        selector,
+        new LayoutCodeActionProvider(structCache),
+        { providedCodeActionKinds: LayoutCodeActionProvider.providedCodeActionKinds }
     );
+
+    const inlayHintsDisposable = vscode.languages.registerInlayHintsProvider(selector, inlayHintsProvider);
+    const codeLensDisposable = vscode.languages.registerCodeLensProvider(selector, codeLensProvider);
+
+    const showLayoutDisposable = vscode.commands.registerCommand('memorySizeHover.showLayout', () => {
+        layoutView.show(vscode.window.activeTextEditor);
+    });
+
+    const exportReportDisposable = vscode.commands.registerCommand('memorySizeHover.exportReport', () => reportExporter.export());
     
     const configDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+            event.affectsConfiguration('memorySizeHover.customArchitectures') ||
+            event.affectsConfiguration('memorySizeHover.customTypes')
+        ) {
+            reloadCustomConfig();
+        }
+
         if (
             event.affectsConfiguration('memorySizeHover.architecture') ||
+            event.affectsConfiguration('memorySizeHover.bitfieldLayout') ||
+            event.affectsConfiguration('memorySizeHover.standardLibrary') ||
             event.affectsConfiguration('C_Cpp.default.intelliSenseMode')
         ) {
-            typeProvider.refreshArchitecture();
-            provider.clearCache();
+            typeProvider.configure(readTypeInfoSettings());
+            refreshLayouts();
+        }
+
+        if (
+            event.affectsConfiguration('memorySizeHover.includePaths') ||
+            event.affectsConfiguration('memorySizeHover.useBuildConfiguration') ||
+            event.affectsConfiguration('memorySizeHover.defines') ||
+            event.affectsConfiguration('C_Cpp.default.includePath') ||
+            event.affectsConfiguration('C_Cpp.default.compileCommands')
+        ) {
+            workspaceIndex.reloadIncludePaths();
+        }
+
+        if (event.affectsConfiguration('memorySizeHover.compiler')) {
+            compilerProbe.clearCache();
         }
 
         if (event.affectsConfiguration('memorySizeHover.showArchitecture')) {
             provider.clearCache();
         }
+
+        if (event.affectsConfiguration('memorySizeHover.diagnostics')) {
+            diagnostics.refreshAll();
+            // La vue de layout reprend la taille de ligne de cache des diagnostics
+            layoutView.refresh();
+        }
+
+        if (event.affectsConfiguration('memorySizeHover.inlayHints')) {
+            inlayHintsProvider.refresh();
+        }
+
+        if (event.affectsConfiguration('memorySizeHover.codeLens')) {
+            codeLensProvider.refresh();
+        }
     });
 
-    context.subscriptions.push(disposable, configDisposable);
+    // Rechargement à chaud du fichier de configuration du workspace
+    const configFileWatcher = vscode.workspace.createFileSystemWatcher(`**/${CONFIG_FILE_NAME}`);
+    configFileWatcher.onDidCreate(reloadCustomConfig);
+    configFileWatcher.onDidChange(reloadCustomConfig);
+    configFileWatcher.onDidDelete(reloadCustomConfig);
+
+    context.subscriptions.push(disposable, codeActionDisposable, inlayHintsDisposable, codeLensDisposable, showLayoutDisposable, exportReportDisposable, configDisposable, customConfigLoader, configFileWatcher, workspaceIndex, structCache, diagnostics, layoutView);
+}
+
+// Le moteur de layout ne lit pas la configuration de VS Code lui-même (il tourne aussi en CLI)
+function readTypeInfoSettings(): TypeInfoSettings {
+    const config = vscode.workspace.getConfiguration('memorySizeHover');
+    return {
+        architecture: config.get<string>('architecture', 'auto'),
+        bitfieldLayout: config.get<TypeInfoSettings['bitfieldLayout']>('bitfieldLayout', 'auto'),
+        standardLibrary: config.get<TypeInfoSettings['standardLibrary']>('standardLibrary', 'auto'),
+        intelliSenseMode: vscode.workspace.getConfiguration('C_Cpp').get<string>('default.intelliSenseMode', '')
+    };
 }
 
 export function deactivate() {}
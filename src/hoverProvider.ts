@@ -1,15 +1,49 @@
 import * as vscode from 'vscode';
-import { StructAnalyzer, StructInfo } from './structAnalyzer';
+import { CompilerProbe } from './compilerProbe';
+import { DeclarationParser, TextSpan } from './declarationParser';
+import { StructCache } from './structCache';
+import { ConditionalLayout, DocumentAnalysis, MemberLayout, SourceDocument, StructAnalyzer, StructInfo, TypeAlias, VariableInfo } from './structAnalyzer';
+import { TargetProfile } from './targetProfiles';
 import { TypeInfoProvider } from './typeInfo';
 
+// Layout d'un type pour une cible, comparé d'une cible à l'autre
+interface TargetLayout {
+    size: number;
+    alignment: number;
+    // Structs : offsets des membres
+    offsets?: string;
+}
+
 export class MemorySizeHoverProvider implements vscode.HoverProvider {
+    // Mots-clés de types C/C++
+    private static readonly typeKeywords = [
+        'signed', 'unsigned', 'const', 'volatile', 'static', 'extern', 'register',
+        'short', 'long', 'char', 'int', 'float', 'double',
+        'bool', '_Bool', 'wchar_t',
+        'int8_t', 'int16_t', 'int32_t', 'int64_t',
+        'uint8_t', 'uint16_t', 'uint32_t', 'uint64_t',
+        'size_t', 'ptrdiff_t', 'intptr_t', 'uintptr_t',
+        'int_fast8_t', 'int_fast16_t', 'int_fast32_t', 'int_fast64_t',
+        'uint_fast8_t', 'uint_fast16_t', 'uint_fast32_t', 'uint_fast64_t',
+        'int_least8_t', 'int_least16_t', 'int_least32_t', 'int_least64_t',
+        'uint_least8_t', 'uint_least16_t', 'uint_least32_t', 'uint_least64_t',
+        'intmax_t', 'uintmax_t',
+        'struct', 'union', 'enum', 'class', 'void'
+    ];
+
     private typeProvider: TypeInfoProvider;
     private structAnalyzer: StructAnalyzer;
-    private structCache: Map<string, Map<string, StructInfo>> = new Map();
+    private declarationParser: DeclarationParser;
+    // Analyse de chaque document, pour la version du texte sur laquelle elle a été faite
+    private structCache: StructCache;
+    private compilerProbe?: CompilerProbe;
 
-    constructor() {
+    constructor(structCache: StructCache, compilerProbe?: CompilerProbe) {
         this.typeProvider = TypeInfoProvider.getInstance();
         this.structAnalyzer = new StructAnalyzer();
+        this.declarationParser = new DeclarationParser();
+        this.structCache = structCache;
+        this.compilerProbe = compilerProbe;
     }
 
     public clearCache(): void {
@@ -21,6 +55,34 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
         position: vscode.Position,
         token: vscode.CancellationToken
     ): vscode.ProviderResult<vscode.Hover> {
+        // Nom de variable ou de paramètre : taille de l'objet déclaré
+        const variable = this.getVariableAtPosition(document, position);
+        if (variable) {
+            return this.createVariableHover(variable.info, variable.range);
+        }
+
+        // Instance de template : "std::array<uint16_t, 8>", "Buffer<char, 3>"
+        const instance = this.getTemplateAtPosition(document, position);
+        if (instance) {
+            const relatedTexts = this.getRelatedTexts(document);
+            const source = this.getSource(document);
+            const template = this.structAnalyzer.describeTemplate(source, instance.text, relatedTexts);
+            const evaluate = () => this.structAnalyzer.describeTemplate(source, instance.text, relatedTexts);
+            if (template && template.structInfo) {
+                return this.createStructHover(template.structInfo, instance.range, undefined, () => {
+                    const other = evaluate();
+                    return other && other.structInfo ? this.summarizeStruct(other.structInfo) : null;
+                });
+            }
+            if (template && template.size !== null && template.alignment !== null) {
+                const description = `<code>${this.escapeHtml(template.name)}</code> (${this.typeProvider.getStandardLibrary()})`;
+                return this.createTypeHover({ size: template.size, alignment: template.alignment, description }, instance.range, () => {
+                    const other = evaluate();
+                    return other && other.size !== null && other.alignment !== null ? { size: other.size, alignment: other.alignment } : null;
+                });
+            }
+        }
+
         // Obtenir le type complet à la position du curseur
         const typeInfo = this.getTypeAtPosition(document, position);
         if (!typeInfo) {
@@ -30,7 +92,21 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
         // Vérifier d'abord si c'est une structure définie par l'utilisateur
         const structInfo = this.getStructInfo(document, typeInfo.text);
         if (structInfo) {
-            return this.createStructHover(structInfo, typeInfo.range);
+            const conditionals = this.structAnalyzer.findConditionalLayouts(this.getSource(document), structInfo.name, this.getRelatedTexts(document));
+            return this.withMeasuredLayout(document, structInfo, measured =>
+                this.createStructHover(measured, typeInfo.range, undefined, this.structEvaluator(document, structInfo.name), conditionals));
+        }
+
+        // Puis les alias typedef/using du document
+        const alias = this.getDocumentAnalysis(document).aliases.get(typeInfo.text);
+        if (alias) {
+            const aliasedStruct = alias.recordName ? this.getStructInfo(document, alias.recordName) : null;
+            if (aliasedStruct && alias.arraySize === undefined) {
+                const conditionals = this.structAnalyzer.findConditionalLayouts(this.getSource(document), aliasedStruct.name, this.getRelatedTexts(document));
+                return this.withMeasuredLayout(document, aliasedStruct, measured =>
+                    this.createStructHover(measured, typeInfo.range, alias.chain, this.structEvaluator(document, aliasedStruct.name), conditionals));
+            }
+            return this.createAliasHover(alias, typeInfo.range);
         }
 
         // Sinon, vérifier les types de base
@@ -39,140 +115,149 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
             return undefined;
         }
 
-        return this.createTypeHover(memoryInfo, typeInfo.range);
+        return this.createTypeHover(memoryInfo, typeInfo.range, () => {
+            const other = this.getMemoryInfo(typeInfo.text);
+            return other ? { size: other.size, alignment: other.alignment !== undefined ? other.alignment : other.size } : null;
+        });
     }
 
-    private getTypeAtPosition(document: vscode.TextDocument, position: vscode.Position): { text: string; range: vscode.Range } | null {
-        const line = document.lineAt(position.line);
-        const lineText = line.text;
-
-        // Mots-clés de types C/C++
-        const typeKeywords = [
-            'signed', 'unsigned', 'const', 'volatile', 'static', 'extern', 'register',
-            'short', 'long', 'char', 'int', 'float', 'double',
-            'bool', '_Bool', 'wchar_t',
-            'int8_t', 'int16_t', 'int32_t', 'int64_t',
-            'uint8_t', 'uint16_t', 'uint32_t', 'uint64_t',
-            'size_t', 'ptrdiff_t', 'intptr_t', 'uintptr_t',
-            'int_fast8_t', 'int_fast16_t', 'int_fast32_t', 'int_fast64_t',
-            'uint_fast8_t', 'uint_fast16_t', 'uint_fast32_t', 'uint_fast64_t',
-            'int_least8_t', 'int_least16_t', 'int_least32_t', 'int_least64_t',
-            'uint_least8_t', 'uint_least16_t', 'uint_least32_t', 'uint_least64_t',
-            'intmax_t', 'uintmax_t',
-            'struct', 'union', 'enum', 'class', 'void'
-        ];
+    // Mode compilateur : le layout mesuré remplace le layout calculé, qui reste utilisé sans compilateur
+    private withMeasuredLayout(document: vscode.TextDocument, structInfo: StructInfo, createHover: (structInfo: StructInfo) => vscode.Hover): vscode.ProviderResult<vscode.Hover> {
+        if (!this.compilerProbe || !this.compilerProbe.isEnabled()) {
+            return createHover(structInfo);
+        }
+        return this.compilerProbe.measure(document, structInfo).then(measured => createHover(measured || structInfo));
+    }
+
+    private getVariableAtPosition(document: vscode.TextDocument, position: vscode.Position): { info: VariableInfo; range: vscode.Range } | null {
+        const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_]\w*/);
+        if (!wordRange) {
+            return null;
+        }
+
+        // Accès à un membre ("p.x", "p->x") : pas une variable de la portée
+        const before = document.lineAt(position.line).text.substring(0, wordRange.start.character);
+        if (/(?:\.|->|::)\s*$/.test(before)) {
+            return null;
+        }
+
+        // Les noms de types gardent leur propre info-bulle
+        const word = document.getText(wordRange);
+        const analysis = this.getDocumentAnalysis(document);
+        if (
+            MemorySizeHoverProvider.typeKeywords.includes(word) ||
+            analysis.structs.has(word) || analysis.aliases.has(word) ||
+            this.typeProvider.getTypeInfo(word)
+        ) {
+            return null;
+        }
+
+        const relatedTexts = this.getRelatedTexts(document);
+        const info = this.structAnalyzer.findVariable(this.getSource(document), word, document.offsetAt(wordRange.start), relatedTexts);
+        return info ? { info, range: wordRange } : null;
+    }
+
+    // Nom qualifié suivi de ses arguments "<...>" sous le curseur ; sans arguments, seulement "std::xxx".
+    // Sur un argument ("int" dans "vector<int>"), c'est l'info-bulle de l'argument qui s'affiche
+    private getTemplateAtPosition(document: vscode.TextDocument, position: vscode.Position): { text: string; range: vscode.Range } | null {
+        const lineText = document.lineAt(position.line).text;
+        const namePattern = /\b(?:\w+::)*\w+/g;
 
-        // 1. D'abord, essayer de détecter "struct StructName", "union UnionName", ou "class ClassName"
-        const structPattern = /\b(?:struct|union|class)\s+(\w+)(?:\s*\*+)?\b/g;
         let match;
-        while ((match = structPattern.exec(lineText)) !== null) {
-            const startPos = match.index;
-            const endPos = match.index + match[0].length;
-
-            if (position.character >= startPos && position.character <= endPos) {
-                // Extraire juste le nom de la structure/classe
-                const structName = match[1];
-                const structNameStart = match.index + match[0].indexOf(structName);
-                const structNameEnd = structNameStart + structName.length;
-
-                // Vérifier si le curseur est sur le nom de la structure/classe
-                if (position.character >= structNameStart && position.character <= structNameEnd) {
-                    return {
-                        text: structName,
-                        range: new vscode.Range(
-                            position.line,
-                            structNameStart,
-                            position.line,
-                            structNameEnd
-                        )
-                    };
-                }
+        while ((match = namePattern.exec(lineText)) !== null) {
+            const nameEnd = match.index + match[0].length;
+            if (position.character < match.index || position.character > nameEnd) {
+                continue;
+            }
 
-                // Si le curseur est sur "struct", "union", ou "class", retourner le type complet
-                return {
-                    text: match[0].trim().replace(/\s+/g, ' '),
-                    range: new vscode.Range(
-                        position.line,
-                        startPos,
-                        position.line,
-                        endPos
-                    )
-                };
+            let end = nameEnd;
+            const opening = /^\s*</.exec(lineText.substring(nameEnd));
+            if (opening) {
+                const close = this.findClosingAngle(lineText, nameEnd + opening[0].length - 1);
+                if (close === -1) {
+                    return null;
+                }
+                end = close + 1;
+            } else if (!/^std::\w+$/.test(match[0])) {
+                return null;
             }
+
+            return {
+                text: lineText.substring(match.index, end),
+                range: new vscode.Range(position.line, match.index, position.line, end)
+            };
         }
 
-        // 2. Essayer de détecter un nom de type défini par l'utilisateur (typedef struct)
-        const wordRange = document.getWordRangeAtPosition(position);
-        if (wordRange) {
-            const word = document.getText(wordRange);
+        return null;
+    }
 
-            // Vérifier si c'est un nom de struct connu
-            const structs = this.getStructsFromDocument(document);
-            if (structs.has(word)) {
-                return {
-                    text: word,
-                    range: wordRange
-                };
+    private findClosingAngle(text: string, openIndex: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < text.length; i++) {
+            if (text[i] === '<') {
+                depth++;
+            } else if (text[i] === '>') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            } else if (text[i] === ';' || text[i] === '{') {
+                return -1;
             }
         }
+        return -1;
+    }
 
-        // 3. Créer un pattern pour matcher les types de base avec modificateurs
-        const typePattern = new RegExp(
-            `\\b(?:(?:${typeKeywords.join('|')})\\s*)+(?:\\*+)?\\b`,
-            'g'
-        );
-
-        // Réinitialiser lastIndex pour la nouvelle recherche
-        typePattern.lastIndex = 0;
-
-        while ((match = typePattern.exec(lineText)) !== null) {
-            const startPos = match.index;
-            const endPos = match.index + match[0].length;
-
-            // Vérifier si la position du curseur est dans ce match
-            if (position.character >= startPos && position.character <= endPos) {
-                // Nettoyer le type trouvé
-                let typeText = match[0].trim();
-
-                // Gérer les cas spéciaux où on pourrait avoir des espaces multiples
-                typeText = typeText.replace(/\s+/g, ' ');
-
-                return {
-                    text: typeText,
-                    range: new vscode.Range(
-                        position.line,
-                        startPos,
-                        position.line,
-                        endPos
-                    )
-                };
-            }
+    private getTypeAtPosition(document: vscode.TextDocument, position: vscode.Position): { text: string; range: vscode.Range } | null {
+        // Tokens du document : rien dans les commentaires ni les chaînes, types sur plusieurs lignes
+        const found = this.declarationParser.findTypeAt(document.getText(), document.offsetAt(position), MemorySizeHoverProvider.typeKeywords);
+        if (!found) {
+            return null;
         }
+        const toResult = (span: TextSpan) => ({ text: span.text, range: new vscode.Range(document.positionAt(span.start), document.positionAt(span.end)) });
 
-        // 4. Si aucun type composé n'est trouvé, essayer juste le mot sous le curseur
-        if (wordRange) {
-            const word = document.getText(wordRange);
-            // Vérifier si c'est un mot-clé de type connu
-            if (typeKeywords.includes(word) || word.includes('*')) {
-                return {
-                    text: word,
-                    range: wordRange
-                };
-            }
+        // 1. "struct StructName", "union UnionName" ou "class ClassName" : le nom seul sous le
+        // nom, le type complet sous le mot-clé
+        if (found.record) {
+            return toResult(found.record);
+        }
+
+        // 2. Nom de struct ou d'alias connu (typedef struct)
+        const analysis = this.getDocumentAnalysis(document);
+        if (analysis.structs.has(found.word.text) || analysis.aliases.has(found.word.text)) {
+            return toResult(found.word);
+        }
+
+        // 3. Type de base avec modificateurs : "unsigned long long", "const char *"
+        if (found.keywords) {
+            return toResult(found.keywords);
+        }
+
+        // 4. Type déclaré dans les réglages
+        if (this.typeProvider.getTypeInfo(found.word.text)) {
+            return toResult(found.word);
         }
 
         return null;
     }
 
-    private getStructsFromDocument(document: vscode.TextDocument): Map<string, StructInfo> {
-        const documentUri = document.uri.toString();
+    // Partagée avec les inlay hints et les CodeLens
+    public getDocumentAnalysis(document: vscode.TextDocument): DocumentAnalysis {
+        return this.structCache.getAnalysis(document);
+    }
 
-        // Vérifier le cache
-        if (!this.structCache.has(documentUri)) {
-            this.structCache.set(documentUri, this.structAnalyzer.findStructs(document));
-        }
+    // Document découpé en régions : StructAnalyzer ne relit que celles qui ont changé
+    public getSource(document: vscode.TextDocument): SourceDocument {
+        return this.structCache.getSource(document);
+    }
 
-        return this.structCache.get(documentUri) || new Map();
+    // En-têtes et macros de la ligne de commande vus par le document
+    public getRelatedTexts(document: vscode.TextDocument): string[] {
+        return this.structCache.getRelatedTexts(document);
+    }
+
+    private getStructsFromDocument(document: vscode.TextDocument): Map<string, StructInfo> {
+        return this.getDocumentAnalysis(document).structs;
     }
 
     private getStructInfo(document: vscode.TextDocument, typeName: string): StructInfo | null {
@@ -214,17 +299,81 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
         return null;
     }
 
-    private createStructHover(structInfo: StructInfo, range: vscode.Range): vscode.Hover {
+    // Recalcule la struct du document pour une autre cible
+    private structEvaluator(document: vscode.TextDocument, name: string): () => TargetLayout | null {
+        const relatedTexts = this.getRelatedTexts(document);
+        const source = this.getSource(document);
+        return () => {
+            const other = this.structAnalyzer.analyze(source, relatedTexts).structs.get(name);
+            return other ? this.summarizeStruct(other) : null;
+        };
+    }
+
+    private summarizeStruct(structInfo: StructInfo): TargetLayout | null {
+        if (structInfo.unresolvedTypes.length > 0) {
+            return null;
+        }
+        // Offsets des membres : deux cibles de même taille peuvent placer les membres différemment
+        const members = [...(structInfo.inheritedMembers || []), ...structInfo.members];
+        const offsets = members.map(member => `${member.name}@${member.offset}:${member.bitOffset || 0}`).join(',');
+        return { size: structInfo.totalSize, alignment: structInfo.alignment, offsets };
+    }
+
+    private createStructHover(structInfo: StructInfo, range: vscode.Range, aliasChain?: string[], evaluate?: () => TargetLayout | null, conditionals: ConditionalLayout[] = []): vscode.Hover {
         const config = vscode.workspace.getConfiguration('memorySizeHover');
         const showArchitecture = config.get<boolean>('showArchitecture', true);
 
+        // Pas de lien de commande dans cette info-bulle : les directives #if sont recopiées du source
         const hoverText = new vscode.MarkdownString();
         hoverText.supportHtml = true;
-        hoverText.isTrusted = true;
 
         hoverText.appendMarkdown(`<div style="background-color: #f8f9fa; border-left: 4px solid #28a745; padding: 8px; margin: 4px 0;">`);
+
+        if (aliasChain) {
+            hoverText.appendMarkdown(`<small style="color: #586069;">Alias: ${this.formatAliasChain(aliasChain)}</small><br>`);
+        }
+        if (structInfo.unresolvedTypes.length > 0) {
+            // Une taille partielle serait trompeuse : on préfère ne rien afficher
+            hoverText.appendMarkdown(`Size: <code style="color: #d73a49; background-color: #fff5f5; padding: 2px 4px; border-radius: 3px;">unknown</code>`);
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Unresolved member types: ${structInfo.unresolvedTypes.map(type => this.escapeHtml(type)).join(', ')}</small>`);
+            hoverText.appendMarkdown(`</div>`);
+            return new vscode.Hover(hoverText, range);
+        }
+
         hoverText.appendMarkdown(`Size: <code style="color: #d73a49; background-color: #fff5f5; padding: 2px 4px; border-radius: 3px;">${structInfo.totalSize} bytes</code>`);
-        hoverText.appendMarkdown(`<br><small style="color: #586069;">User-defined type</small>`);
+        const kindLabel = structInfo.kind === 'union' ? 'Union' : structInfo.bases || structInfo.vptrOffset !== undefined ? 'Class' : 'User-defined type';
+        hoverText.appendMarkdown(`<br><small style="color: #586069;">${kindLabel}, alignment ${structInfo.alignment}</small>`);
+        if (structInfo.measuredBy) {
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Layout measured by ${this.escapeHtml(structInfo.measuredBy)}</small>`);
+        }
+
+        if (structInfo.bases) {
+            const bases = structInfo.bases.map(base => {
+                const notes = [base.isVirtual ? 'virtual' : '', base.isEmpty ? 'empty' : ''].filter(note => note.length > 0);
+                return `<code>${this.escapeHtml(base.name)}</code> at ${base.offset}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+            });
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Bases: ${bases.join(', ')}</small>`);
+        }
+
+        if (structInfo.kind === 'union' && structInfo.dominantMember) {
+            const dominant = structInfo.members.find(member => member.name === structInfo.dominantMember);
+            if (dominant) {
+                hoverText.appendMarkdown(`<br><small style="color: #586069;">Largest member: <code>${dominant.name}</code> (${dominant.size} bytes)</small>`);
+            }
+        }
+
+        const totalPadding = structInfo.members.reduce((sum, member) => sum + member.paddingBefore, 0) + structInfo.trailingPadding;
+        if (totalPadding > 0) {
+            hoverText.appendMarkdown(`<br><small style="color: #b08800;">Padding: ${totalPadding} bytes</small>`);
+        }
+
+        if (structInfo.layoutDirectives.length > 0) {
+            hoverText.appendMarkdown(`<br><small style="color: #b08800;">Layout changed by: ${structInfo.layoutDirectives.map(directive => `<code>${this.escapeMarkup(directive)}</code>`).join(', ')}</small>`);
+        }
+
+        for (const conditional of conditionals) {
+            hoverText.appendMarkdown(this.describeConditional(conditional));
+        }
 
         if (showArchitecture) {
             const archIcon = this.typeProvider.is64BitArch() ? '🖥️' : '💻';
@@ -233,16 +382,235 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
 
         hoverText.appendMarkdown(`</div>`);
 
+        if (evaluate) {
+            const comparison = this.createTargetTable(evaluate);
+            if (comparison) {
+                hoverText.appendMarkdown(`\n\n${comparison}`);
+            }
+        }
+
+        if (structInfo.inheritedMembers) {
+            hoverText.appendMarkdown(`\n\n${this.createInheritedTable(structInfo.inheritedMembers)}`);
+        }
+
+        if (structInfo.members.length > 0 || structInfo.vptrOffset !== undefined) {
+            hoverText.appendMarkdown(`\n\n${this.createLayoutTable(structInfo)}`);
+        }
+
         return new vscode.Hover(hoverText, range);
     }
 
-    private createTypeHover(memoryInfo: { size: number; description?: string }, range: vscode.Range): vscode.Hover {
+    // Branche retenue d'un #if du corps, ou taille de la struct avec chaque branche si la condition est indécidable
+    private describeConditional(conditional: ConditionalLayout): string {
+        const label = (directive: string) => directive ? `<code>${this.escapeMarkup(directive)}</code>` : 'otherwise';
+        const line = conditional.line + 1;
+
+        if (!conditional.undecided) {
+            const taken = conditional.branches[conditional.taken].directive;
+            return `<br><small style="color: #586069;">Conditional members at line ${line}: ${taken ? `${label(taken)} taken` : 'no branch taken'}</small>`;
+        }
+
+        const sizes = conditional.branches.map((branch, index) => {
+            const size = branch.size === undefined || branch.size === null ? 'unknown' : `${branch.size} bytes`;
+            return `${label(branch.directive)} ${size}${index === conditional.taken ? ' (shown)' : ''}`;
+        });
+        return `<br><small style="color: #b08800;">Size depends on line ${line}: ${sizes.join(', ')}</small>`;
+    }
+
+    // Tableau façon pahole : offset, taille, alignement et trous de chaque membre
+    private createLayoutTable(structInfo: StructInfo): string {
+        const rows = [
+            '| Offset | Member | Type | Size | Align | Padding |',
+            '|---:|---|---|---:|---:|---:|'
+        ];
+
+        if (structInfo.vptrOffset !== undefined) {
+            rows.push(`| ${structInfo.vptrOffset} | *vptr* | | ${this.typeProvider.getPointerSize()} | ${this.typeProvider.getPointerAlignment()} | 0 |`);
+        }
+
+        for (const member of structInfo.members) {
+            if (member.bitWidth !== undefined) {
+                // Bitfield : offset de l'unité de stockage + position du premier bit
+                const name = member.name ? `\`${member.name} : ${member.bitWidth}\`` : `*(unnamed) : ${member.bitWidth}*`;
+                rows.push(`| ${member.offset} (bit ${member.bitOffset}) | ${name} | \`${member.type}\` | ${member.bitWidth} bits | ${member.alignment} | ${member.paddingBefore} |`);
+                continue;
+            }
+
+            const name = member.dimensions ? `${member.name}${member.dimensions.map(dimension => `[${dimension}]`).join('')}` : member.name;
+            rows.push(`| ${member.offset} | \`${name}\` | \`${member.type}\` | ${member.size} | ${member.alignment} | ${member.paddingBefore} |`);
+        }
+
+        if (structInfo.trailingPadding > 0) {
+            rows.push(`| ${structInfo.totalSize - structInfo.trailingPadding} | *tail padding* | | | | ${structInfo.trailingPadding} |`);
+        }
+
+        return rows.join('\n');
+    }
+
+    // Membres apportés par les classes de base, avec leur offset dans la classe dérivée
+    private createInheritedTable(members: MemberLayout[]): string {
+        const rows = [
+            '| Offset | Inherited member | Type | Size | From |',
+            '|---:|---|---|---:|---|'
+        ];
+
+        for (const member of members) {
+            const offset = member.bitWidth !== undefined ? `${member.offset} (bit ${member.bitOffset})` : `${member.offset}`;
+            const size = member.bitWidth !== undefined ? `${member.bitWidth} bits` : `${member.size}`;
+            rows.push(`| ${offset} | \`${member.name || '(unnamed)'}\` | \`${member.type}\` | ${size} | \`${member.inheritedFrom}\` |`);
+        }
+
+        return rows.join('\n');
+    }
+
+    private createAliasHover(alias: TypeAlias, range: vscode.Range): vscode.Hover {
+        const config = vscode.workspace.getConfiguration('memorySizeHover');
+        const showArchitecture = config.get<boolean>('showArchitecture', true);
+
+        // Pas de lien de commande dans cette info-bulle : elle affiche des noms venus du source
+        const hoverText = new vscode.MarkdownString();
+        hoverText.supportHtml = true;
+
+        const sizeText = alias.size === null ? 'unknown' : `${alias.size} bytes`;
+
+        hoverText.appendMarkdown(`<div style="background-color: #f8f9fa; border-left: 4px solid #007acc; padding: 8px; margin: 4px 0;">`);
+        hoverText.appendMarkdown(`Memory Size: <code style="color: #d73a49; background-color: #fff5f5; padding: 2px 4px; border-radius: 3px;">${sizeText}</code>`);
+        hoverText.appendMarkdown(`<br><small style="color: #586069;">Alias: ${this.formatAliasChain(alias.chain)}</small>`);
+
+        if (alias.arraySize !== undefined && alias.size !== null) {
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Array of ${alias.arraySize} × ${alias.size / alias.arraySize} bytes</small>`);
+        }
+
+        if (alias.alignment !== null) {
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Alignment: ${alias.alignment}</small>`);
+        }
+
+        if (showArchitecture) {
+            const archIcon = this.typeProvider.is64BitArch() ? '🖥️' : '💻';
+            hoverText.appendMarkdown(`<br><small style="color: #6f42c1;">${archIcon} Architecture: ${this.typeProvider.getArchitecture()}</small>`);
+        }
+
+        hoverText.appendMarkdown(`</div>`);
+
+        return new vscode.Hover(hoverText, range);
+    }
+
+    private createVariableHover(variable: VariableInfo, range: vscode.Range): vscode.Hover {
+        const config = vscode.workspace.getConfiguration('memorySizeHover');
+        const showArchitecture = config.get<boolean>('showArchitecture', true);
+
+        // Pas de lien de commande dans cette info-bulle : la déclaration est recopiée du source
+        const hoverText = new vscode.MarkdownString();
+        hoverText.supportHtml = true;
+
+        const sizeText = variable.totalSize === null ? 'unknown' : `${variable.totalSize} bytes`;
+
+        hoverText.appendMarkdown(`<div style="background-color: #f8f9fa; border-left: 4px solid #007acc; padding: 8px; margin: 4px 0;">`);
+        hoverText.appendMarkdown(`Memory Size: <code style="color: #d73a49; background-color: #fff5f5; padding: 2px 4px; border-radius: 3px;">${sizeText}</code>`);
+        hoverText.appendMarkdown(`<br><small style="color: #586069;">${variable.isParameter ? 'Parameter' : 'Variable'}: <code>${this.escapeMarkup(variable.declaration)}</code></small>`);
+
+        if (variable.dimensions && variable.elementSize !== null) {
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Array of ${variable.dimensions.join(' × ')} × ${variable.elementSize} bytes</small>`);
+        }
+
+        if (variable.decayedArray !== undefined) {
+            hoverText.appendMarkdown(`<br><small style="color: #b08800;">Array parameter <code>${this.escapeMarkup(variable.decayedArray)}</code> decays to a pointer</small>`);
+        }
+
+        if (variable.pointee) {
+            const pointeeSize = variable.pointee.size === null ? 'unknown size' : `${variable.pointee.size} bytes`;
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Points to <code>${this.escapeHtml(variable.pointee.type)}</code>: ${pointeeSize}</small>`);
+        }
+
+        if (variable.alignment !== null) {
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Alignment: ${variable.alignment}</small>`);
+        }
+
+        if (showArchitecture) {
+            const archIcon = this.typeProvider.is64BitArch() ? '🖥️' : '💻';
+            hoverText.appendMarkdown(`<br><small style="color: #6f42c1;">${archIcon} Architecture: ${this.typeProvider.getArchitecture()}</small>`);
+        }
+
+        hoverText.appendMarkdown(`</div>`);
+
+        return new vscode.Hover(hoverText, range);
+    }
+
+    private formatAliasChain(chain: string[]): string {
+        return chain.map(type => `<code>${this.escapeHtml(type)}</code>`).join(' → ');
+    }
+
+    // Les arguments de template ("vector<int>") ne doivent pas être lus comme des balises
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    // Texte recopié du source : en plus du HTML, la ponctuation Markdown est remplacée par des entités
+    // pour qu'un "[x](command:...)" glissé dans une déclaration ou une directive ne devienne pas un lien
+    private escapeMarkup(text: string): string {
+        return this.escapeHtml(text).replace(/\s+/g, ' ').replace(/[\\`*_{}[\]()#+!|~]/g, char => `&#${char.charCodeAt(0)};`);
+    }
+
+    // Taille et alignement pour chaque cible de memorySizeHover.compareTargets, en signalant
+    // celles qui diffèrent de la cible courante ; null si la comparaison est désactivée
+    private createTargetTable(evaluate: () => TargetLayout | null): string | null {
+        const config = vscode.workspace.getConfiguration('memorySizeHover.compareTargets');
+        if (!config.get<boolean>('enabled', false)) {
+            return null;
+        }
+
+        const current = this.typeProvider.getProfile();
+        const ids = config.get<string[]>('profiles', []);
+        let profiles = ids.length > 0
+            ? ids.map(id => this.typeProvider.findProfile(id)).filter((profile): profile is TargetProfile => profile !== undefined)
+            : this.typeProvider.getProfiles();
+        if (!profiles.some(profile => profile.id === current.id)) {
+            profiles = [current, ...profiles];
+        }
+
+        const reference = evaluate();
+        const rows = [
+            '| Target | Size | Align | |',
+            '|---|---:|---:|---|'
+        ];
+        let differences = 0;
+
+        for (const profile of profiles) {
+            const isCurrent = profile.id === current.id;
+            const layout = isCurrent ? reference : this.typeProvider.withProfile(profile, evaluate);
+            const label = isCurrent ? `**${profile.label}** (current)` : profile.label;
+
+            if (!layout || !reference) {
+                rows.push(`| ${label} | ${layout ? layout.size : '?'} | ${layout ? layout.alignment : '?'} | |`);
+                continue;
+            }
+
+            const sizeDiffers = layout.size !== reference.size;
+            const alignmentDiffers = layout.alignment !== reference.alignment;
+            const offsetsDiffer = layout.offsets !== reference.offsets;
+            const size = sizeDiffers ? `**${layout.size}**` : `${layout.size}`;
+            const alignment = alignmentDiffers ? `**${layout.alignment}**` : `${layout.alignment}`;
+            let note = '';
+            if (sizeDiffers || alignmentDiffers || offsetsDiffer) {
+                differences++;
+                note = sizeDiffers || alignmentDiffers ? '⚠️ differs' : '⚠️ member offsets differ';
+            }
+            rows.push(`| ${label} | ${size} | ${alignment} | ${note} |`);
+        }
+
+        const summary = differences > 0
+            ? `<small style="color: #b08800;">Layout differs on ${differences} of ${profiles.length - 1} other target${profiles.length > 2 ? 's' : ''}</small>`
+            : `<small style="color: #586069;">Same layout on all ${profiles.length} targets</small>`;
+        return `${summary}\n\n${rows.join('\n')}`;
+    }
+
+    private createTypeHover(memoryInfo: { size: number; alignment?: number; signed?: boolean; description?: string }, range: vscode.Range, evaluate?: () => TargetLayout | null): vscode.Hover {
         const config = vscode.workspace.getConfiguration('memorySizeHover');
         const showArchitecture = config.get<boolean>('showArchitecture', true);
 
+        // Pas de lien de commande dans cette info-bulle : elle affiche des descriptions venues du workspace
         const hoverText = new vscode.MarkdownString();
         hoverText.supportHtml = true;
-        hoverText.isTrusted = true;
 
         hoverText.appendMarkdown(`<div style="background-color: #f8f9fa; border-left: 4px solid #007acc; padding: 8px; margin: 4px 0;">`);
         hoverText.appendMarkdown(`Memory Size: <code style="color: #d73a49; background-color: #fff5f5; padding: 2px 4px; border-radius: 3px;">${memoryInfo.size} bytes</code>`);
@@ -251,6 +619,11 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
             hoverText.appendMarkdown(`<br><small style="color: #586069;">${memoryInfo.description}</small>`);
         }
 
+        if (memoryInfo.alignment !== undefined) {
+            const signedness = memoryInfo.signed === undefined ? '' : memoryInfo.signed ? ', signed' : ', unsigned';
+            hoverText.appendMarkdown(`<br><small style="color: #586069;">Alignment: ${memoryInfo.alignment}${signedness}</small>`);
+        }
+
         if (showArchitecture) {
             const archIcon = this.typeProvider.is64BitArch() ? '🖥️' : '💻';
             hoverText.appendMarkdown(`<br><small style="color: #6f42c1;">${archIcon} Architecture: ${this.typeProvider.getArchitecture()}</small>`);
@@ -258,10 +631,17 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
 
         hoverText.appendMarkdown(`</div>`);
 
+        if (evaluate) {
+            const comparison = this.createTargetTable(evaluate);
+            if (comparison) {
+                hoverText.appendMarkdown(`\n\n${comparison}`);
+            }
+        }
+
         return new vscode.Hover(hoverText, range);
     }
 
-    private getMemoryInfo(type: string): { size: number; description?: string } | null {
+    private getMemoryInfo(type: string): { size: number; alignment?: number; signed?: boolean; description?: string } | null {
         // Nettoyer et normaliser le type
         let cleanType = type.trim();
 
@@ -271,8 +651,8 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
             // Extract the base type for better description
             const baseType = cleanType.replace(/\s*\*+\s*/g, '').trim();
             const baseTypeInfo = this.typeProvider.getTypeInfo(baseType);
-            const description = baseTypeInfo ? `Pointer to ${baseType}` : 'Pointer type';
-            return { size: pointerSize, description };
+            const description = baseTypeInfo ? `Pointer to ${this.escapeHtml(baseType)}` : 'Pointer type';
+            return { size: pointerSize, alignment: this.typeProvider.getPointerAlignment(), description };
         }
 
         // Check for basic types
@@ -281,14 +661,13 @@ export class MemorySizeHoverProvider implements vscode.HoverProvider {
             return null;
         }
 
-        const size = this.typeProvider.getMemorySize(cleanType);
-        if (size === null) {
-            return null;
-        }
-
         return {
-            size,
-            description: typeInfo.desc
+            size: typeInfo.size,
+            alignment: typeInfo.alignment,
+            signed: typeInfo.signed,
+            // La description d'un type personnalisé vient du .memsizehover.json du dépôt : une ligne vide
+            // sortirait du bloc HTML et son Markdown serait interprété
+            description: typeInfo.desc && this.escapeHtml(typeInfo.desc).replace(/\s+/g, ' ')
         };
     }
 }
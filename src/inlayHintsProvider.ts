@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { MemorySizeHoverProvider } from './hoverProvider';
+import { MemberLayout, StructAnalyzer } from './structAnalyzer';
+
+// Taille et alignement après chaque définition de struct, offset et padding de chaque membre
+export class LayoutInlayHintsProvider implements vscode.InlayHintsProvider {
+    private structAnalyzer: StructAnalyzer;
+    private hoverProvider: MemorySizeHoverProvider;
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChangeInlayHints: vscode.Event<void> = this.changeEmitter.event;
+
+    // Les layouts viennent du cache de l'info-bulle
+    constructor(hoverProvider: MemorySizeHoverProvider) {
+        this.structAnalyzer = new StructAnalyzer();
+        this.hoverProvider = hoverProvider;
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    provideInlayHints(document: vscode.TextDocument, range: vscode.Range, token: vscode.CancellationToken): vscode.ProviderResult<vscode.InlayHint[]> {
+        const config = vscode.workspace.getConfiguration('memorySizeHover.inlayHints');
+        if (!config.get<boolean>('enabled', false)) {
+            return [];
+        }
+        const showMembers = config.get<boolean>('memberOffsets', true);
+
+        const analysis = this.hoverProvider.getDocumentAnalysis(document);
+        const relatedTexts = this.hoverProvider.getRelatedTexts(document);
+        const text = document.getText();
+        const hints: vscode.InlayHint[] = [];
+
+        const source = this.hoverProvider.getSource(document);
+        for (const location of this.structAnalyzer.findRecordLocations(source, relatedTexts)) {
+            const visible = new vscode.Range(document.positionAt(location.start), document.positionAt(location.bodyEnd + 1));
+            const structInfo = analysis.structs.get(location.name);
+            if (location.isTemplate || !structInfo || structInfo.unresolvedTypes.length > 0 || !visible.intersection(range)) {
+                continue;
+            }
+
+            // Après "};" (ou "} Alias;") si l'instruction se termine sur la même ligne
+            const closing = /^[^;\n{}]*;/.exec(text.substring(location.bodyEnd + 1));
+            const summaryOffset = location.bodyEnd + 1 + (closing ? closing[0].length : 0);
+            hints.push(this.createHint(document.positionAt(summaryOffset), `/* ${structInfo.totalSize} B, align ${structInfo.alignment} */`, true));
+
+            if (!showMembers) {
+                continue;
+            }
+
+            const layouts = new Map<string, MemberLayout>(structInfo.members.map(member => [member.name, member]));
+            let lastEnd: number | undefined;
+            for (const position of this.structAnalyzer.findMemberPositions(source, location, relatedTexts)) {
+                const member = layouts.get(position.name);
+                if (!member) {
+                    continue;
+                }
+
+                if (member.paddingBefore > 0) {
+                    hints.push(this.createHint(document.positionAt(position.statementStart), `pad ${member.paddingBefore}`, false));
+                }
+                const offset = member.bitWidth !== undefined ? `+${member.offset}:${member.bitOffset}` : `+${member.offset}`;
+                hints.push(this.createHint(document.positionAt(position.declaratorEnd), offset, true));
+                lastEnd = position.declaratorEnd;
+            }
+
+            if (structInfo.trailingPadding > 0 && lastEnd !== undefined) {
+                const lineEnd = document.lineAt(document.positionAt(lastEnd).line).range.end;
+                hints.push(this.createHint(lineEnd, `pad ${structInfo.trailingPadding}`, true));
+            }
+        }
+
+        return hints;
+    }
+
+    private createHint(position: vscode.Position, label: string, afterText: boolean): vscode.InlayHint {
+        const hint = new vscode.InlayHint(position, label);
+        hint.paddingLeft = afterText;
+        hint.paddingRight = !afterText;
+        return hint;
+    }
+}
@@ -0,0 +1,30 @@
+// Retire les commentaires // et /* */ d'un JSON avec commentaires (c_cpp_properties.json).
+// Le texte des chaînes est laissé tel quel : "${workspaceFolder}/**" n'ouvre pas un commentaire
+export function stripJsonComments(text: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+
+        if (char === '"') {
+            let end = index + 1;
+            while (end < text.length && text[end] !== '"' && text[end] !== '\n') {
+                end += text[end] === '\\' ? 2 : 1;
+            }
+            result += text.substring(index, end + 1);
+            index = end + 1;
+        } else if (char === '/' && text[index + 1] === '/') {
+            const newline = text.indexOf('\n', index);
+            index = newline < 0 ? text.length : newline;
+        } else if (char === '/' && text[index + 1] === '*') {
+            const close = text.indexOf('*/', index + 2);
+            index = close < 0 ? text.length : close + 2;
+        } else {
+            result += char;
+            index++;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,245 @@
+import { MemberLayout, SourceDocument, StructAnalyzer, StructInfo } from './structAnalyzer';
+import { TypeInfoProvider } from './typeInfo';
+
+export type ReportFormat = 'markdown' | 'json' | 'csv';
+
+// Version du format JSON : à incrémenter si sa structure change
+const REPORT_VERSION = 1;
+
+export interface MemberReport {
+    name: string;
+    type: string;
+    offset: number;
+    size: number;
+    alignment: number;
+    paddingBefore: number;
+    dimensions?: number[];
+    bitOffset?: number;
+    bitWidth?: number;
+}
+
+export interface StructReport {
+    name: string;
+    kind: string;
+    // null si un type de membre n'est pas résolu
+    size: number | null;
+    alignment: number | null;
+    padding: number | null;
+    trailingPadding: number | null;
+    unresolvedTypes?: string[];
+    bases?: Array<{ name: string; offset: number; size: number; virtual: boolean }>;
+    vptrOffset?: number;
+    members: MemberReport[];
+}
+
+export interface FileReport {
+    // Chemin relatif au workspace, toujours avec des "/"
+    path: string;
+    structs: StructReport[];
+}
+
+export interface LayoutReport {
+    version: number;
+    target: {
+        profile: string;
+        label: string;
+        bitfieldLayout: string;
+        standardLibrary: string;
+    };
+    files: FileReport[];
+}
+
+// Rapport des layouts de toutes les structs d'un ensemble de fichiers, sans dépendre d'un éditeur :
+// le JSON est stable (ordre des fichiers, des structs et des clés fixé) pour être comparé en CI
+export class LayoutReporter {
+    private structAnalyzer: StructAnalyzer;
+    private typeProvider: TypeInfoProvider;
+
+    constructor() {
+        this.structAnalyzer = new StructAnalyzer();
+        this.typeProvider = TypeInfoProvider.getInstance();
+    }
+
+    // ".c" et ".h" sont lus comme du C, le reste comme du C++ (le C++ est aussi reconnu au contenu)
+    public static languageIdFor(filePath: string): string {
+        return /\.(cc|cpp|cxx|c\+\+|hh|hpp|hxx|inl|ipp)$/i.test(filePath) ? 'cpp' : 'c';
+    }
+
+    // Structs définies dans le fichier lui-même ; includedTexts fournit les types déclarés ailleurs
+    public analyzeFile(path: string, source: SourceDocument, includedTexts: string[] = []): FileReport {
+        const structs = this.structAnalyzer.findStructs(source, includedTexts);
+        const reports = new Map<string, StructReport>();
+
+        for (const location of this.structAnalyzer.findRecordLocations(source, includedTexts)) {
+            const structInfo = structs.get(location.name);
+            if (location.isTemplate || !structInfo || reports.has(location.name)) {
+                continue;
+            }
+            reports.set(location.name, this.describeStruct(structInfo));
+        }
+
+        return {
+            path: path.replace(/\\/g, '/'),
+            structs: Array.from(reports.values()).sort((a, b) => this.compare(a.name, b.name))
+        };
+    }
+
+    public createReport(files: FileReport[]): LayoutReport {
+        const profile = this.typeProvider.getProfile();
+        return {
+            version: REPORT_VERSION,
+            target: {
+                profile: profile.id,
+                label: profile.label,
+                bitfieldLayout: this.typeProvider.getBitfieldLayout(),
+                standardLibrary: this.typeProvider.getStandardLibrary()
+            },
+            files: files
+                .filter(file => file.structs.length > 0)
+                .sort((a, b) => this.compare(a.path, b.path))
+        };
+    }
+
+    public format(report: LayoutReport, format: ReportFormat): string {
+        switch (format) {
+            case 'json':
+                return this.toJson(report);
+            case 'csv':
+                return this.toCsv(report);
+            default:
+                return this.toMarkdown(report);
+        }
+    }
+
+    public toJson(report: LayoutReport): string {
+        return JSON.stringify(report, null, 2) + '\n';
+    }
+
+    public toMarkdown(report: LayoutReport): string {
+        const lines = [
+            '# Layout report',
+            '',
+            `Target: ${report.target.label} (\`${report.target.profile}\`, bitfields ${report.target.bitfieldLayout}, ${report.target.standardLibrary})`
+        ];
+
+        for (const file of report.files) {
+            lines.push('', `## ${file.path}`);
+
+            for (const struct of file.structs) {
+                lines.push('');
+                if (struct.size === null) {
+                    lines.push(`### ${struct.name}: size unknown`, '', `Unresolved member types: ${(struct.unresolvedTypes || []).join(', ')}`);
+                    continue;
+                }
+
+                lines.push(`### ${struct.name}: ${struct.size} bytes, align ${struct.alignment}, ${struct.padding} bytes padding`);
+                if (struct.bases) {
+                    lines.push('', 'Bases: ' + struct.bases.map(base => `\`${base.name}\` at ${base.offset}${base.virtual ? ' (virtual)' : ''}`).join(', '));
+                }
+                if (struct.members.length === 0 && struct.vptrOffset === undefined) {
+                    continue;
+                }
+
+                lines.push('', '| Offset | Member | Type | Size | Align | Padding |', '|---:|---|---|---:|---:|---:|');
+                if (struct.vptrOffset !== undefined) {
+                    lines.push(`| ${struct.vptrOffset} | *vptr* | | | | 0 |`);
+                }
+                for (const member of struct.members) {
+                    if (member.bitWidth !== undefined) {
+                        lines.push(`| ${member.offset} (bit ${member.bitOffset}) | \`${member.name || '(unnamed)'} : ${member.bitWidth}\` | \`${member.type}\` | ${member.bitWidth} bits | ${member.alignment} | ${member.paddingBefore} |`);
+                    } else {
+                        lines.push(`| ${member.offset} | \`${this.memberName(member)}\` | \`${member.type}\` | ${member.size} | ${member.alignment} | ${member.paddingBefore} |`);
+                    }
+                }
+                if (struct.trailingPadding) {
+                    lines.push(`| ${struct.size - struct.trailingPadding} | *tail padding* | | | | ${struct.trailingPadding} |`);
+                }
+            }
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    // Une ligne par membre, les colonnes de la struct répétées ; une struct sans membre a sa propre ligne
+    public toCsv(report: LayoutReport): string {
+        const rows = [[
+            'file', 'struct', 'kind', 'struct_size', 'struct_alignment', 'struct_padding',
+            'member', 'type', 'offset', 'bit_offset', 'bit_width', 'size', 'alignment', 'padding_before'
+        ]];
+
+        for (const file of report.files) {
+            for (const struct of file.structs) {
+                const structColumns = [file.path, struct.name, struct.kind, this.cell(struct.size), this.cell(struct.alignment), this.cell(struct.padding)];
+                if (struct.members.length === 0) {
+                    rows.push([...structColumns, '', '', '', '', '', '', '', '']);
+                    continue;
+                }
+                for (const member of struct.members) {
+                    rows.push([
+                        ...structColumns,
+                        this.memberName(member), member.type, String(member.offset),
+                        this.cell(member.bitOffset), this.cell(member.bitWidth),
+                        String(member.size), String(member.alignment), String(member.paddingBefore)
+                    ]);
+                }
+            }
+        }
+
+        return rows.map(row => row.map(value => this.escapeCsv(value)).join(',')).join('\n') + '\n';
+    }
+
+    private describeStruct(structInfo: StructInfo): StructReport {
+        const resolved = structInfo.unresolvedTypes.length === 0;
+        const padding = structInfo.members.reduce((sum, member) => sum + member.paddingBefore, 0) + structInfo.trailingPadding;
+
+        // Clés dans un ordre fixe : JSON.stringify les écrit dans l'ordre d'insertion
+        return {
+            name: structInfo.name,
+            kind: structInfo.kind === 'union' ? 'union' : structInfo.bases || structInfo.vptrOffset !== undefined ? 'class' : 'struct',
+            size: resolved ? structInfo.totalSize : null,
+            alignment: resolved ? structInfo.alignment : null,
+            padding: resolved ? padding : null,
+            trailingPadding: resolved ? structInfo.trailingPadding : null,
+            ...(resolved ? {} : { unresolvedTypes: [...structInfo.unresolvedTypes] }),
+            ...(structInfo.bases ? { bases: structInfo.bases.map(base => ({ name: base.name, offset: base.offset, size: base.size, virtual: base.isVirtual })) } : {}),
+            ...(structInfo.vptrOffset !== undefined ? { vptrOffset: structInfo.vptrOffset } : {}),
+            members: resolved ? structInfo.members.map(member => this.describeMember(member)) : []
+        };
+    }
+
+    private describeMember(member: MemberLayout): MemberReport {
+        const report: MemberReport = {
+            name: member.name,
+            type: member.type,
+            offset: member.offset,
+            size: member.size,
+            alignment: member.alignment,
+            paddingBefore: member.paddingBefore
+        };
+        if (member.dimensions) {
+            report.dimensions = [...member.dimensions];
+        }
+        if (member.bitWidth !== undefined) {
+            report.bitOffset = member.bitOffset || 0;
+            report.bitWidth = member.bitWidth;
+        }
+        return report;
+    }
+
+    private memberName(member: MemberReport): string {
+        return member.dimensions ? `${member.name}${member.dimensions.map(dimension => `[${dimension}]`).join('')}` : member.name;
+    }
+
+    private cell(value: number | null | undefined): string {
+        return value === null || value === undefined ? '' : String(value);
+    }
+
+    private escapeCsv(value: string): string {
+        return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    // Indépendant de la locale, pour un ordre identique sur toutes les machines
+    private compare(a: string, b: string): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+}
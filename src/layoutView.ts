@@ -0,0 +1,313 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { StructAnalyzer, StructInfo } from './structAnalyzer';
+import { StructCache } from './structCache';
+import { TargetProfile } from './targetProfiles';
+import { TypeInfoProvider } from './typeInfo';
+
+const BYTES_PER_ROW = 8;
+// Au-delà, la grille n'affiche que le début de la struct
+const MAX_GRID_BYTES = 4096;
+
+// Bloc d'octets occupé par un membre, le vptr ou une base
+interface LayoutBlock {
+    key: string;
+    label: string;
+    // Type affiché dans la légende, commun à toutes les cibles
+    type: string;
+    detail: string;
+    start: number;
+    end: number;
+    // Base : ne couvre que les octets qu'aucun membre n'occupe
+    isBase?: boolean;
+}
+
+interface ProfileLayout {
+    profile: TargetProfile;
+    structInfo?: StructInfo;
+}
+
+// Vue "Show Struct Layout" : la struct sous le curseur dessinée octet par octet, pour chaque cible
+export class LayoutViewPanel implements vscode.Disposable {
+    public static readonly viewType = 'memorySizeHover.layout';
+
+    private structAnalyzer: StructAnalyzer;
+    private typeProvider: TypeInfoProvider;
+    private structCache: StructCache;
+    private panel?: vscode.WebviewPanel;
+    private current?: { document: vscode.TextDocument; name: string };
+
+    constructor(structCache: StructCache) {
+        this.structAnalyzer = new StructAnalyzer();
+        this.typeProvider = TypeInfoProvider.getInstance();
+        this.structCache = structCache;
+    }
+
+    public show(editor: vscode.TextEditor | undefined): void {
+        if (!editor) {
+            vscode.window.showInformationMessage('Memory Size Hover: open a C/C++ file to show a struct layout.');
+            return;
+        }
+
+        const name = this.findStructName(editor.document, editor.selection.active);
+        if (!name) {
+            vscode.window.showInformationMessage('Memory Size Hover: place the cursor on a struct, union or class to show its layout.');
+            return;
+        }
+
+        this.current = { document: editor.document, name };
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                LayoutViewPanel.viewType,
+                '',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.current = undefined;
+            });
+        } else {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+
+        this.render();
+    }
+
+    // Après un changement de cible ou de configuration
+    public refresh(): void {
+        if (this.panel && this.current) {
+            this.render();
+        }
+    }
+
+    public dispose(): void {
+        if (this.panel) {
+            this.panel.dispose();
+        }
+    }
+
+    // Struct nommée sous le curseur, sinon la définition la plus interne qui contient le curseur
+    private findStructName(document: vscode.TextDocument, position: vscode.Position): string | null {
+        const analysis = this.structCache.getAnalysis(document);
+
+        const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_]\w*/);
+        if (wordRange) {
+            const word = document.getText(wordRange);
+            if (analysis.structs.has(word)) {
+                return word;
+            }
+            const alias = analysis.aliases.get(word);
+            if (alias && alias.recordName && analysis.structs.has(alias.recordName)) {
+                return alias.recordName;
+            }
+        }
+
+        const offset = document.offsetAt(position);
+        const enclosing = this.structAnalyzer.findRecordLocations(this.structCache.getSource(document), this.structCache.getRelatedTexts(document))
+            .filter(location => !location.isTemplate && location.start <= offset && offset <= location.bodyEnd && analysis.structs.has(location.name))
+            .sort((a, b) => b.start - a.start);
+        return enclosing.length > 0 ? enclosing[0].name : null;
+    }
+
+    private render(): void {
+        const { document, name } = this.current!;
+        const source = this.structCache.getSource(document);
+        const relatedTexts = this.structCache.getRelatedTexts(document);
+        const currentId = this.typeProvider.getProfile().id;
+
+        // Même struct calculée pour chaque cible configurée ; l'analyse en cache vaut pour la cible courante
+        const layouts: ProfileLayout[] = this.typeProvider.getProfiles().map(profile => ({
+            profile,
+            structInfo: profile.id === currentId
+                ? this.structCache.getAnalysis(document).structs.get(name)
+                : this.typeProvider.withProfile(profile, () => this.structAnalyzer.analyze(source, relatedTexts).structs.get(name))
+        }));
+
+        const configured = vscode.workspace.getConfiguration('memorySizeHover.diagnostics').get<number>('cacheLineSize', 64);
+        const cacheLineSize = configured > 0 ? configured : 64;
+
+        this.panel!.title = `Layout: ${name}`;
+        this.panel!.webview.html = this.renderPage(name, layouts, currentId, cacheLineSize);
+    }
+
+    private renderPage(name: string, layouts: ProfileLayout[], currentId: string, cacheLineSize: number): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+
+        // Une couleur par membre, identique d'une cible à l'autre
+        const colors = new Map<string, string>();
+        const legend: string[] = [];
+        for (const layout of layouts) {
+            for (const block of layout.structInfo ? this.getBlocks(layout.structInfo, layout.profile) : []) {
+                if (!colors.has(block.key)) {
+                    const color = `hsl(${(colors.size * 137) % 360}, 55%, 72%)`;
+                    colors.set(block.key, color);
+                    legend.push(`<span class="legend-item"><span class="swatch" style="background: ${color};"></span>${this.escapeHtml(block.label)} <small>${this.escapeHtml(block.type)}</small></span>`);
+                }
+            }
+        }
+        legend.push('<span class="legend-item"><span class="swatch padding"></span>padding</span>');
+
+        const toggles = layouts.map(layout => {
+            const id = this.escapeHtml(layout.profile.id);
+            const checked = layout.profile.id === currentId ? ' checked' : '';
+            return `<label><input type="checkbox" data-profile="${id}"${checked}> ${this.escapeHtml(layout.profile.label)}</label>`;
+        });
+
+        const columns = layouts.map(layout => this.renderProfile(layout, layout.profile.id === currentId, colors, cacheLineSize));
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .toggles label { margin-right: 12px; white-space: nowrap; }
+    .legend { margin: 12px 0; }
+    .legend-item { display: inline-block; margin: 0 12px 4px 0; }
+    .legend small, .summary { color: var(--vscode-descriptionForeground); }
+    .swatch { display: inline-block; width: 12px; height: 12px; margin-right: 4px; vertical-align: middle; border: 1px solid var(--vscode-panel-border); }
+    .profiles { display: flex; gap: 24px; align-items: flex-start; overflow-x: auto; }
+    .profile.hidden { display: none; }
+    .profile h3 { margin: 8px 0 2px; }
+    table.grid { border-collapse: collapse; font-family: var(--vscode-editor-font-family); font-size: 11px; margin-top: 8px; }
+    table.grid td { width: 44px; height: 22px; border: 1px solid var(--vscode-panel-border); text-align: center; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; max-width: 44px; color: #1e1e1e; }
+    table.grid td.offset { width: auto; max-width: none; padding-right: 6px; text-align: right; border: none; color: var(--vscode-descriptionForeground); }
+    table.grid td.shared { outline: 1px dotted #1e1e1e; outline-offset: -3px; }
+    .padding { background: repeating-linear-gradient(45deg, transparent, transparent 3px, rgba(128, 128, 128, 0.45) 3px, rgba(128, 128, 128, 0.45) 5px); }
+    table.grid tr.cache-line td { border-top: 3px solid #d73a49; }
+    table.grid tr.cache-line td.offset { color: #d73a49; }
+</style>
+</head>
+<body>
+<h2>${this.escapeHtml(name)}</h2>
+<div class="toggles">${toggles.join('')}</div>
+<div class="legend">${legend.join('')}</div>
+<div class="profiles">${columns.join('')}</div>
+<script nonce="${nonce}">
+    for (const input of document.querySelectorAll('input[data-profile]')) {
+        input.addEventListener('change', () => {
+            const column = document.querySelector('.profile[data-profile="' + CSS.escape(input.dataset.profile) + '"]');
+            column.classList.toggle('hidden', !input.checked);
+        });
+    }
+</script>
+</body>
+</html>`;
+    }
+
+    private renderProfile(layout: ProfileLayout, visible: boolean, colors: Map<string, string>, cacheLineSize: number): string {
+        const structInfo = layout.structInfo;
+        const header = `<div class="profile${visible ? '' : ' hidden'}" data-profile="${this.escapeHtml(layout.profile.id)}"><h3>${this.escapeHtml(layout.profile.label)}</h3>`;
+
+        if (!structInfo) {
+            return `${header}<div class="summary">Layout unavailable for this target</div></div>`;
+        }
+        if (structInfo.unresolvedTypes.length > 0) {
+            return `${header}<div class="summary">Size unknown: unresolved ${this.escapeHtml(structInfo.unresolvedTypes.join(', '))}</div></div>`;
+        }
+
+        const padding = structInfo.members.reduce((sum, member) => sum + member.paddingBefore, 0) + structInfo.trailingPadding;
+        const size = structInfo.totalSize;
+        let summary = `${size} bytes, align ${structInfo.alignment}, ${padding} bytes padding`;
+        if (size > cacheLineSize) {
+            summary += `, ${Math.ceil(size / cacheLineSize)} cache lines`;
+        }
+
+        // Propriétaires de chaque octet : plusieurs pour une union ou des bitfields voisins
+        const shownBytes = Math.min(size, MAX_GRID_BYTES);
+        const owners: LayoutBlock[][] = Array.from({ length: shownBytes }, () => []);
+        for (const block of this.getBlocks(structInfo, layout.profile)) {
+            for (let byte = block.start; byte < Math.min(block.end, shownBytes); byte++) {
+                if (!block.isBase || owners[byte].length === 0) {
+                    owners[byte].push(block);
+                }
+            }
+        }
+
+        const rows: string[] = [];
+        for (let rowStart = 0; rowStart < shownBytes; rowStart += BYTES_PER_ROW) {
+            const boundary = rowStart > 0 && rowStart % cacheLineSize === 0;
+            const label = boundary ? `line ${rowStart / cacheLineSize} · ${rowStart}` : `${rowStart}`;
+            const cells = [`<td class="offset">${label}</td>`];
+
+            for (let byte = rowStart; byte < rowStart + BYTES_PER_ROW && byte < shownBytes; byte++) {
+                const blocks = owners[byte];
+                if (blocks.length === 0) {
+                    cells.push(`<td class="padding" title="byte ${byte}: padding"></td>`);
+                    continue;
+                }
+                const title = `byte ${byte}: ` + blocks.map(block => `${block.label} ${block.detail}`).join(', ');
+                // Le nom n'est écrit que sur le premier octet du bloc
+                const text = blocks[0].start === byte ? this.escapeHtml(blocks[0].label) : '';
+                const shared = blocks.length > 1 ? ' class="shared"' : '';
+                cells.push(`<td${shared} style="background: ${colors.get(blocks[0].key)};" title="${this.escapeHtml(title)}">${text}</td>`);
+            }
+            rows.push(`<tr${boundary ? ' class="cache-line"' : ''}>${cells.join('')}</tr>`);
+        }
+
+        if (size > shownBytes) {
+            summary += ` (first ${shownBytes} bytes shown)`;
+        }
+
+        return `${header}<div class="summary">${this.escapeHtml(summary)}</div><table class="grid">${rows.join('')}</table></div>`;
+    }
+
+    // Blocs du vptr, des membres hérités puis des membres propres ; les octets d'une base non couverts
+    // par ses membres (vptr de la base, padding interne) sont attribués à la base
+    private getBlocks(structInfo: StructInfo, profile: TargetProfile): LayoutBlock[] {
+        const blocks: LayoutBlock[] = [];
+
+        if (structInfo.vptrOffset !== undefined) {
+            const pointerSize = profile.types.pointer.size;
+            blocks.push({ key: 'vptr', label: 'vptr', type: 'vtable pointer', detail: `+${structInfo.vptrOffset}, ${pointerSize} B`, start: structInfo.vptrOffset, end: structInfo.vptrOffset + pointerSize });
+        }
+
+        const members = [...(structInfo.inheritedMembers || []), ...structInfo.members];
+        for (const member of members) {
+            const key = member.inheritedFrom ? `${member.inheritedFrom}::${member.name}` : member.name;
+            const type = member.type + (member.dimensions ? member.dimensions.map(dimension => `[${dimension}]`).join('') : '');
+
+            if (member.bitWidth !== undefined) {
+                const firstBit = member.offset * 8 + (member.bitOffset || 0);
+                const lastBit = firstBit + member.bitWidth;
+                if (member.bitWidth > 0) {
+                    blocks.push({
+                        key,
+                        label: key,
+                        type: `${type} : ${member.bitWidth}`,
+                        detail: `${type} : ${member.bitWidth} at +${member.offset}:${member.bitOffset || 0}`,
+                        start: Math.floor(firstBit / 8),
+                        end: Math.ceil(lastBit / 8)
+                    });
+                }
+                continue;
+            }
+
+            if (member.size > 0) {
+                blocks.push({ key, label: key, type, detail: `${type} at +${member.offset}, ${member.size} B`, start: member.offset, end: member.offset + member.size });
+            }
+        }
+
+        for (const base of structInfo.bases || []) {
+            if (base.isEmpty || base.size === 0) {
+                continue;
+            }
+            // Jusqu'à la fin du dernier membre de la base : le padding de queue peut être réutilisé
+            const baseEnd = base.offset + base.size;
+            const dataEnds = (structInfo.inheritedMembers || [])
+                .filter(member => member.offset >= base.offset && member.offset < baseEnd)
+                .map(member => member.offset + (member.bitWidth !== undefined ? Math.ceil(((member.bitOffset || 0) + member.bitWidth) / 8) : member.size));
+            const end = dataEnds.length > 0 ? Math.max(...dataEnds) : baseEnd;
+            blocks.push({ key: `base ${base.name}`, label: base.name, type: 'base class', detail: `base at +${base.offset}, ${base.size} B`, start: base.offset, end, isBase: true });
+        }
+
+        return blocks;
+    }
+
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+}
+
@@ -0,0 +1,259 @@
+import { CLexer, Token } from './cLexer';
+import { ConstantEvaluator } from './constantEvaluator';
+import { TextMemo } from './sourceRegions';
+
+// Macros visibles à un point du texte, mises à jour par les #define/#undef actifs
+export interface MacroTable {
+    // Macros sans paramètres : nom -> texte de remplacement
+    values: Map<string, string>;
+    // Macros avec paramètres : seul defined() les voit
+    functions: Set<string>;
+    // Macros définies ou retirées quelque part dans les sources : à un #if, leur absence est une certitude
+    known: Set<string>;
+}
+
+// Branche d'un groupe #if : "#ifdef DEBUG", "#elif LEVEL > 2", "#else"
+export interface ConditionalBranch {
+    // Directive sur une ligne, commentaires retirés ; vide pour le #else implicite d'un groupe qui n'en a pas
+    directive: string;
+    // Du début de la directive au début de la directive suivante du groupe
+    start: number;
+    end: number;
+}
+
+// Groupe #if ... #endif rencontré dans le code actif
+export interface ConditionalGroup {
+    // Position du '#' de #if/#ifdef/#ifndef et fin de la ligne #endif
+    start: number;
+    end: number;
+    // Branches écrites, puis le #else implicite s'il n'y en a pas
+    branches: ConditionalBranch[];
+    // Index de la branche retenue
+    taken: number;
+    // Une condition évaluée dépend d'une macro dont on ignore si elle est définie, ou n'a pas pu être évaluée
+    undecided: boolean;
+}
+
+export interface PreprocessedText {
+    // Texte avec les branches inactives remplacées par des espaces (positions et sauts de ligne conservés)
+    text: string;
+    groups: ConditionalGroup[];
+    // Macros sans paramètres définies par le code actif, y compris celles retirées ensuite par #undef
+    defines: Map<string, string>;
+}
+
+interface GroupFrame {
+    // null si le groupe est dans une branche inactive
+    group: ConditionalGroup | null;
+    // La branche courante est active
+    active: boolean;
+    // Début du texte de la branche courante, après sa directive
+    contentStart: number;
+}
+
+// Évalue les #if/#ifdef/#ifndef/#elif/#else comme le préprocesseur : une macro inconnue vaut 0.
+// Une macro jamais définie ni retirée dans les sources, et dont le nom n'est pas réservé à
+// l'implémentation, rend la condition indécidable : elle peut venir de la ligne de commande
+export class Preprocessor {
+    private lexer: CLexer;
+    // Directives déjà mises sur une ligne : un document rouvert après une modification garde presque toutes les siennes
+    private normalized: TextMemo<string>;
+
+    constructor() {
+        this.lexer = new CLexer();
+        this.normalized = new TextMemo(20000);
+    }
+
+    // Table initiale : macros prédéfinies, puis noms apparaissant dans un #define/#undef des sources.
+    // tokens, s'ils sont donnés, sont ceux de chaque source et évitent de la relire
+    public createTable(predefined: { [name: string]: string }, sources: string[], tokens: Token[][] = []): MacroTable {
+        const table: MacroTable = { values: new Map(Object.entries(predefined)), functions: new Set(), known: new Set(Object.keys(predefined)) };
+
+        for (const [index, source] of sources.entries()) {
+            for (const directive of this.directivesOf(source, tokens[index])) {
+                const match = /^#\s*(?:define|undef)\s+([A-Za-z_]\w*)/.exec(directive.text);
+                if (match) {
+                    table.known.add(match[1]);
+                }
+            }
+        }
+
+        return table;
+    }
+
+    // "-DNAME=value", "NAME", "-UNAME" (options d'un compilateur ou du réglage memorySizeHover.defines)
+    // -> "#define NAME value" / "#undef NAME", à analyser avant le document
+    public definesPrelude(defines: string[]): string {
+        const lines: string[] = [];
+        for (const define of defines) {
+            const match = /^(?:[-/]([DU]))?\s*([A-Za-z_]\w*)(?:=(.*))?$/.exec(define.trim());
+            if (!match) {
+                continue;
+            }
+            // Comme "-DNAME" pour un compilateur, une macro sans valeur vaut 1
+            lines.push(match[1] === 'U' ? `#undef ${match[2]}` : `#define ${match[2]} ${match[3] === undefined ? '1' : match[3]}`);
+        }
+        return lines.length > 0 ? lines.join('\n') + '\n' : '';
+    }
+
+    // Applique les directives du texte à la table et efface les branches inactives.
+    // choices force la branche retenue d'un groupe, identifié par la position de son #if
+    public process(text: string, table: MacroTable, choices: Map<number, number> = new Map(), tokens?: Token[]): PreprocessedText {
+        const groups: ConditionalGroup[] = [];
+        const defines = new Map<string, string>();
+        const inactive: Array<{ start: number; end: number }> = [];
+        const stack: GroupFrame[] = [];
+        const isActive = () => stack.every(frame => frame.active);
+
+        // Fin de la branche courante : son texte est effacé si elle n'a pas été retenue
+        const closeBranch = (frame: GroupFrame, end: number) => {
+            if (frame.group) {
+                frame.group.branches[frame.group.branches.length - 1].end = end;
+            }
+            if (!frame.active && stack.slice(0, -1).every(parent => parent.active)) {
+                inactive.push({ start: frame.contentStart, end });
+            }
+        };
+
+        for (const directive of this.directivesOf(text, tokens)) {
+            const match = /^#\s*(\w+)\s*([\s\S]*)$/.exec(directive.text);
+            if (!match) {
+                continue;
+            }
+            const [, keyword, argument] = match;
+            const frame = stack[stack.length - 1];
+
+            if (keyword === 'if' || keyword === 'ifdef' || keyword === 'ifndef') {
+                if (!isActive()) {
+                    stack.push({ group: null, active: false, contentStart: directive.end });
+                    continue;
+                }
+
+                const group: ConditionalGroup = { start: directive.start, end: text.length, branches: [], taken: -1, undecided: false };
+                groups.push(group);
+                const condition = keyword === 'if' ? argument : `${keyword === 'ifndef' ? '!' : ''}defined(${argument})`;
+                stack.push({ group, active: this.enterBranch(group, directive, condition, table, choices), contentStart: directive.end });
+            } else if ((keyword === 'elif' || keyword === 'else') && frame) {
+                closeBranch(frame, directive.start);
+                frame.contentStart = directive.end;
+                frame.active = frame.group ? this.enterBranch(frame.group, directive, keyword === 'elif' ? argument : '1', table, choices) : false;
+            } else if (keyword === 'endif' && frame) {
+                closeBranch(frame, directive.start);
+                stack.pop();
+                if (frame.group) {
+                    this.closeGroup(frame.group, directive, choices);
+                }
+            } else if (keyword === 'define' && isActive()) {
+                const define = /^([A-Za-z_]\w*)(\()?\s*([\s\S]*)$/.exec(argument);
+                if (define && define[2]) {
+                    table.functions.add(define[1]);
+                    table.values.delete(define[1]);
+                } else if (define) {
+                    table.values.set(define[1], define[3]);
+                    defines.set(define[1], define[3]);
+                    table.functions.delete(define[1]);
+                }
+            } else if (keyword === 'undef' && isActive()) {
+                const name = argument.trim();
+                table.values.delete(name);
+                table.functions.delete(name);
+            }
+        }
+
+        // #if sans #endif : le groupe va jusqu'à la fin du texte
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            closeBranch(frame, text.length);
+            stack.pop();
+            if (frame.group) {
+                this.closeGroup(frame.group, { start: text.length, end: text.length, text: '' }, choices);
+            }
+        }
+
+        return { text: this.blank(text, inactive), groups, defines };
+    }
+
+    // Ajoute une branche au groupe ; elle est retenue si aucune ne l'a été avant et que sa condition est vraie
+    private enterBranch(group: ConditionalGroup, directive: { start: number; end: number; text: string }, condition: string, table: MacroTable, choices: Map<number, number>): boolean {
+        const index = group.branches.length;
+        group.branches.push({ directive: directive.text, start: directive.start, end: directive.end });
+
+        const forced = choices.get(group.start);
+        if (forced !== undefined) {
+            if (forced === index) {
+                group.taken = index;
+            }
+            return forced === index;
+        }
+        if (group.taken >= 0) {
+            return false;
+        }
+
+        const value = this.evaluate(condition, table);
+        if (value === null) {
+            group.undecided = true;
+            return false;
+        }
+        group.undecided = group.undecided || value.undecided;
+        if (value.holds) {
+            group.taken = index;
+        }
+        return value.holds;
+    }
+
+    // Sans #else, une branche vide représente le cas où aucune condition n'est vraie
+    private closeGroup(group: ConditionalGroup, directive: { start: number; end: number; text: string }, choices: Map<number, number>): void {
+        group.end = directive.end;
+        if (!group.branches.some(branch => /^#\s*else\b/.test(branch.directive))) {
+            group.branches.push({ directive: '', start: directive.start, end: directive.start });
+        }
+        if (group.taken < 0) {
+            const forced = choices.get(group.start);
+            group.taken = forced !== undefined ? forced : group.branches.length - 1;
+        }
+    }
+
+    // null si la condition n'est pas une expression constante évaluable (macro avec paramètres, __has_include...)
+    private evaluate(condition: string, table: MacroTable): { holds: boolean; undecided: boolean } | null {
+        let undecided = false;
+        const isDefined = (name: string) => {
+            const defined = table.values.has(name) || table.functions.has(name);
+            if (!defined && !table.known.has(name) && !/^_[_A-Z]/.test(name)) {
+                undecided = true;
+            }
+            return defined;
+        };
+
+        const substituted = condition.replace(/\bdefined\s*(?:\(\s*([A-Za-z_]\w*)\s*\)|([A-Za-z_]\w*))/g,
+            (whole, parenthesized, bare) => isDefined(parenthesized || bare) ? '1' : '0');
+
+        // Un identifiant qui n'est pas une macro vaut 0 ; une macro avec paramètres n'est pas développée
+        const evaluator = new ConstantEvaluator(
+            identifier => table.functions.has(identifier) ? undefined : isDefined(identifier) ? table.values.get(identifier) : '0',
+            () => null
+        );
+        const value = evaluator.evaluate(substituted);
+        return value === null ? null : { holds: value !== 0, undecided };
+    }
+
+    // Directives du texte, commentaires retirés et lignes continuées jointes
+    private directivesOf(text: string, tokens: Token[] = this.lexer.tokenize(text).tokens): Array<{ start: number; end: number; text: string }> {
+        return tokens
+            .filter(token => token.kind === 'directive')
+            .map(token => ({
+                start: token.start,
+                end: token.end,
+                text: this.normalized.get(token.text, directive => this.lexer.mask(directive, { comments: true }).replace(/\\\r?\n/g, ' ').replace(/\s+/g, ' ').trim())
+            }));
+    }
+
+    private blank(text: string, ranges: Array<{ start: number; end: number }>): string {
+        let result = '';
+        let position = 0;
+        for (const { start, end } of ranges) {
+            result += text.substring(position, start) + text.substring(start, end).replace(/[^\n]/g, ' ');
+            position = end;
+        }
+        return result + text.substring(position);
+    }
+}
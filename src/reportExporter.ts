@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { FileReport, LayoutReporter, ReportFormat } from './layoutReport';
+import { WorkspaceIndex } from './workspaceIndex';
+
+// Fichiers C/C++ analysés pour un rapport sur tout le workspace
+const REPORT_GLOB = '**/*.{c,h,cc,cpp,cxx,hh,hpp,hxx}';
+const MAX_REPORT_FILES = 5000;
+const LANGUAGES = ['c', 'cpp', 'h', 'hpp'];
+
+const formats: Array<{ label: string; format: ReportFormat; extension: string }> = [
+    { label: 'Markdown', format: 'markdown', extension: 'md' },
+    { label: 'JSON', format: 'json', extension: 'json' },
+    { label: 'CSV', format: 'csv', extension: 'csv' }
+];
+
+// Commande "Export Layout Report" : layouts du fichier courant ou de tout le workspace dans un fichier
+export class LayoutReportExporter {
+    private reporter: LayoutReporter;
+    private workspaceIndex?: WorkspaceIndex;
+
+    constructor(workspaceIndex?: WorkspaceIndex) {
+        this.reporter = new LayoutReporter();
+        this.workspaceIndex = workspaceIndex;
+    }
+
+    public async export(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        const currentDocument = editor && LANGUAGES.includes(editor.document.languageId) ? editor.document : undefined;
+
+        const scopes = [{ label: 'Workspace', description: 'All C/C++ files in the workspace', workspace: true }];
+        if (currentDocument) {
+            scopes.unshift({ label: 'Current file', description: vscode.workspace.asRelativePath(currentDocument.uri, false), workspace: false });
+        }
+        const scope = await vscode.window.showQuickPick(scopes, { placeHolder: 'Structs to include in the layout report' });
+        if (!scope) {
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick(formats, { placeHolder: 'Report format' });
+        if (!format) {
+            return;
+        }
+
+        const folder = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri : undefined;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, `layout-report.${format.extension}`) : undefined,
+            filters: { [format.label]: [format.extension] }
+        });
+        if (!target) {
+            return;
+        }
+
+        const files = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Memory Size Hover: analysing layouts', cancellable: true },
+            (progress, token) => scope.workspace ? this.analyzeWorkspace(progress, token) : Promise.resolve([this.analyzeDocument(currentDocument!)])
+        );
+        if (!files) {
+            return;
+        }
+
+        const report = this.reporter.createReport(files);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(this.reporter.format(report, format.format), 'utf8'));
+
+        const count = report.files.reduce((sum, file) => sum + file.structs.length, 0);
+        const choice = await vscode.window.showInformationMessage(`Layout report written: ${count} struct${count > 1 ? 's' : ''} in ${report.files.length} file${report.files.length > 1 ? 's' : ''}.`, 'Open');
+        if (choice === 'Open') {
+            await vscode.window.showTextDocument(target);
+        }
+    }
+
+    private analyzeDocument(document: vscode.TextDocument): FileReport {
+        const relatedTexts = this.workspaceIndex ? this.workspaceIndex.getRelatedTexts(document) : [];
+        return this.reporter.analyzeFile(vscode.workspace.asRelativePath(document.uri, false), document, relatedTexts);
+    }
+
+    // Les fichiers sont lus sur le disque, sauf ceux ouverts qui peuvent avoir des modifications non enregistrées
+    private async analyzeWorkspace(progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<FileReport[] | undefined> {
+        const uris = await vscode.workspace.findFiles(REPORT_GLOB, '**/node_modules/**', MAX_REPORT_FILES);
+        const files: FileReport[] = [];
+
+        for (const uri of uris) {
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            progress.report({ message: vscode.workspace.asRelativePath(uri, false), increment: 100 / uris.length });
+
+            const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+            if (openDocument) {
+                files.push(this.analyzeDocument(openDocument));
+                continue;
+            }
+
+            let text: string;
+            try {
+                text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                // Fichier supprimé entre-temps ou illisible
+                continue;
+            }
+            const relatedTexts = this.workspaceIndex ? this.workspaceIndex.getRelatedTextsFor(text, uri.fsPath) : [];
+            const source = { getText: () => text, languageId: LayoutReporter.languageIdFor(uri.fsPath) };
+            files.push(this.reporter.analyzeFile(vscode.workspace.asRelativePath(uri, false), source, relatedTexts));
+        }
+
+        return files;
+    }
+}
@@ -0,0 +1,163 @@
+import { CLexer, Token } from './cLexer';
+
+// Portion de texte, fin exclue
+export interface TextRegion {
+    start: number;
+    end: number;
+}
+
+// Remplacement de [start, end) par text, en positions du texte avant la modification
+export interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Découpe d'un texte en régions de premier niveau : chaque région commence en début de ligne, entre
+// deux déclarations, hors commentaire, chaîne et parenthèses. Une région peut donc être lue seule, et
+// une modification ne fait relire que les régions qu'elle touche. Le contenu d'un namespace ou d'un
+// extern "C" { } reste dans une seule région
+export class RegionIndex {
+    // En dessous, les déclarations voisines sont regroupées pour limiter le nombre de régions
+    private static readonly minLength = 1024;
+
+    private lexer: CLexer;
+    private regions: TextRegion[];
+
+    constructor(text: string) {
+        this.lexer = new CLexer();
+        this.regions = this.split(text, 0, text.length)!;
+    }
+
+    public getRegions(): TextRegion[] {
+        return this.regions;
+    }
+
+    // Applique les modifications dans l'ordre (chacune en positions du texte laissé par la précédente,
+    // comme les contentChanges de VS Code) puis redécoupe les régions touchées. Renvoie leur nombre
+    public update(text: string, edits: TextEdit[]): number {
+        const dirty = new Set<TextRegion>();
+
+        for (const edit of edits) {
+            const delta = edit.text.length - (edit.end - edit.start);
+            // Une modification sur une frontière touche les deux régions voisines
+            let first = this.regions.findIndex(region => region.end >= edit.start);
+            if (first < 0) {
+                first = this.regions.length - 1;
+            }
+            let last = first;
+            while (last + 1 < this.regions.length && this.regions[last + 1].start <= edit.end) {
+                last++;
+            }
+
+            const merged = { start: this.regions[first].start, end: this.regions[last].end + delta };
+            this.regions.splice(first, last - first + 1, merged);
+            dirty.add(merged);
+            for (let i = first + 1; i < this.regions.length; i++) {
+                this.regions[i] = { start: this.regions[i].start + delta, end: this.regions[i].end + delta };
+            }
+        }
+
+        let resplit = 0;
+        for (let i = 0; i < this.regions.length; i++) {
+            if (!dirty.has(this.regions[i])) {
+                continue;
+            }
+
+            // Un commentaire ou une accolade ouverts débordent sur la région suivante : on l'ajoute
+            let count = 1;
+            let regions = this.split(text, this.regions[i].start, this.regions[i].end);
+            while (!regions) {
+                count++;
+                regions = this.split(text, this.regions[i].start, this.regions[i + count - 1].end);
+            }
+
+            this.regions.splice(i, count, ...regions);
+            resplit += regions.length;
+            i += regions.length - 1;
+        }
+
+        return resplit;
+    }
+
+    // Régions de [start, end) ; null si end n'est pas une frontière (texte encore ouvert à cet endroit)
+    private split(text: string, start: number, end: number): TextRegion[] | null {
+        const chunk = text.substring(start, end);
+        const { tokens, comments } = this.lexer.tokenize(chunk);
+        const spans: Array<{ start: number; end: number; token?: Token }> = [
+            ...tokens.map(token => ({ start: token.start, end: token.end, token })),
+            ...comments
+        ].sort((a, b) => a.start - b.start);
+
+        const regions: TextRegion[] = [];
+        let regionStart = 0;
+        let depth = 0;
+        // Entre deux déclarations : au début, après un ';' ou le corps d'une fonction de premier niveau
+        let between = true;
+        let functionBody = false;
+        let previous: Token | undefined;
+        let lastEnd = 0;
+
+        for (const span of spans) {
+            const lineStart = chunk.lastIndexOf('\n', span.start - 1) + 1;
+            if (between && depth === 0 && lineStart >= lastEnd && lineStart - regionStart >= RegionIndex.minLength) {
+                regions.push({ start: start + regionStart, end: start + lineStart });
+                regionStart = lineStart;
+            }
+            // Un commentaire dans une directive finit avant elle
+            lastEnd = Math.max(lastEnd, span.end);
+
+            const token = span.token;
+            if (!token || token.kind === 'directive') {
+                continue;
+            }
+
+            if (token.text === '{' || token.text === '(' || token.text === '[') {
+                if (token.text === '{' && depth === 0) {
+                    functionBody = previous !== undefined && /^(?:\)|const|noexcept|override)$/.test(previous.text);
+                }
+                depth++;
+                between = false;
+            } else if (token.text === '}' || token.text === ')' || token.text === ']') {
+                depth = Math.max(depth - 1, 0);
+                between = depth === 0 && token.text === '}' && functionBody;
+            } else {
+                between = depth === 0 && token.text === ';';
+            }
+            previous = token;
+        }
+
+        // Un commentaire, une chaîne ou une directive qui va jusqu'à la fin du morceau n'y est pas terminé
+        if (end < text.length && (!between || depth > 0 || lastEnd >= chunk.length)) {
+            return null;
+        }
+
+        regions.push({ start: start + regionStart, end });
+        return regions;
+    }
+}
+
+// Résultats mémorisés selon un texte, en nombre limité : les moins récemment utilisés sont oubliés
+export class TextMemo<V> {
+    private entries = new Map<string, V>();
+
+    constructor(private limit: number) {}
+
+    // compute reçoit une copie du texte : une sous-chaîne garderait en mémoire tout le document dont elle vient
+    public get(text: string, compute: (text: string) => V): V {
+        const cached = this.entries.get(text);
+        if (cached !== undefined) {
+            this.entries.delete(text);
+            this.entries.set(text, cached);
+            return cached;
+        }
+
+        const copy = Buffer.from(text, 'utf16le').toString('utf16le');
+        const value = compute(copy);
+        this.entries.set(copy, value);
+        if (this.entries.size > this.limit) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+        return value;
+    }
+}
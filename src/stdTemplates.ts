@@ -0,0 +1,191 @@
+import { TypeLayout } from './targetProfiles';
+
+export type StandardLibrary = 'libstdc++' | 'libc++' | 'msvc';
+
+// Argument de template : un type (layout) ou une constante (value)
+export interface TemplateArgument {
+    text: string;
+    layout: TypeLayout | null;
+    value: number | null;
+}
+
+// Ce dont dépendent les formules : cible et bibliothèque standard
+export interface StandardLayoutContext {
+    library: StandardLibrary;
+    pointer: TypeLayout;
+    sizeType: TypeLayout;
+    long: TypeLayout;
+    // Alignement de max_align_t
+    maxAlignment: number;
+}
+
+type LayoutFormula = (args: TemplateArgument[], context: StandardLayoutContext) => TypeLayout | null;
+
+function alignTo(offset: number, alignment: number): number {
+    return Math.ceil(offset / alignment) * alignment;
+}
+
+// Layout d'une struct dont les champs sont placés dans l'ordre
+function recordLayout(fields: TypeLayout[]): TypeLayout {
+    let offset = 0;
+    let alignment = 1;
+    for (const field of fields) {
+        offset = alignTo(offset, field.alignment) + field.size;
+        alignment = Math.max(alignment, field.alignment);
+    }
+    return { size: Math.max(alignTo(offset, alignment), 1), alignment };
+}
+
+// n pointeurs consécutifs
+function pointers(count: number): (args: TemplateArgument[], context: StandardLayoutContext) => TypeLayout {
+    return (args, context) => ({ size: count * context.pointer.size, alignment: context.pointer.alignment });
+}
+
+// Nombre de pointeurs selon la bibliothèque : [libstdc++, libc++, MSVC STL]
+function pointersByLibrary(libstdcxx: number, libcxx: number, msvc: number): LayoutFormula {
+    return (args, context) => {
+        const count = context.library === 'libstdc++' ? libstdcxx : context.library === 'libc++' ? libcxx : msvc;
+        return { size: count * context.pointer.size, alignment: context.pointer.alignment };
+    };
+}
+
+function typeArguments(args: TemplateArgument[], count: number): TypeLayout[] | null {
+    const layouts = args.slice(0, count).map(arg => arg.layout);
+    return layouts.length === count && layouts.every(layout => layout !== null) ? layouts as TypeLayout[] : null;
+}
+
+function basicString(args: TemplateArgument[], context: StandardLayoutContext): TypeLayout | null {
+    // libc++ : pointeur, taille et capacité, avec la petite chaîne stockée dans ces trois mots
+    if (context.library === 'libc++') {
+        return { size: 3 * context.pointer.size, alignment: context.pointer.alignment };
+    }
+    // libstdc++ : pointeur, taille, tampon de 16 octets ; MSVC : tampon de 16 octets, taille, capacité
+    const fields = context.library === 'libstdc++'
+        ? [context.pointer, context.sizeType, { size: 16, alignment: context.pointer.alignment }]
+        : [{ size: 16, alignment: context.pointer.alignment }, context.sizeType, context.sizeType];
+    return recordLayout(fields);
+}
+
+// Formules par nom de type, sans le préfixe std::
+const formulas: { [name: string]: LayoutFormula } = {
+    'string': basicString,
+    'wstring': basicString,
+    'u8string': basicString,
+    'u16string': basicString,
+    'u32string': basicString,
+    'basic_string': basicString,
+    'string_view': pointers(2),
+    'wstring_view': pointers(2),
+    // std::span<T, N> à taille fixe ne stocke que le pointeur
+    'span': (args, context) => pointers(args[1] && args[1].value !== null ? 1 : 2)(args, context),
+
+    'vector': (args, context) => {
+        const element = args[0] ? args[0].text.replace(/\s+/g, ' ').trim() : '';
+        if (element === 'bool') {
+            // vector<bool> : itérateurs de bits (libstdc++), mot de taille en plus (MSVC)
+            return pointersByLibrary(5, 3, 4)(args, context);
+        }
+        return pointers(3)(args, context);
+    },
+    'deque': pointersByLibrary(10, 6, 5),
+    'list': pointersByLibrary(3, 3, 2),
+    'forward_list': pointers(1),
+    'map': pointersByLibrary(6, 3, 2),
+    'multimap': pointersByLibrary(6, 3, 2),
+    'set': pointersByLibrary(6, 3, 2),
+    'multiset': pointersByLibrary(6, 3, 2),
+    'unordered_map': pointersByLibrary(7, 5, 8),
+    'unordered_multimap': pointersByLibrary(7, 5, 8),
+    'unordered_set': pointersByLibrary(7, 5, 8),
+    'unordered_multiset': pointersByLibrary(7, 5, 8),
+
+    'unique_ptr': pointers(1),
+    'shared_ptr': pointers(2),
+    'weak_ptr': pointers(2),
+
+    'function': (args, context) => {
+        const pointer = context.pointer;
+        if (context.library === 'libstdc++') {
+            return { size: 4 * pointer.size, alignment: pointer.alignment };
+        }
+        if (context.library === 'libc++') {
+            // Tampon aligned_storage<3 * sizeof(void*)> aligné sur max_align_t, puis un pointeur
+            return recordLayout([{ size: alignTo(3 * pointer.size, context.maxAlignment), alignment: context.maxAlignment }, pointer]);
+        }
+        return { size: (6 + 16 / pointer.size) * pointer.size, alignment: pointer.alignment };
+    },
+
+    'array': args => {
+        const element = typeArguments(args, 1);
+        const count = args[1] ? args[1].value : null;
+        if (!element || count === null) {
+            return null;
+        }
+        // std::array<T, 0> occupe tout de même un octet
+        return { size: Math.max(element[0].size * count, 1), alignment: element[0].alignment };
+    },
+    'pair': args => {
+        const fields = typeArguments(args, 2);
+        return fields ? recordLayout(fields) : null;
+    },
+    'tuple': args => {
+        const fields = typeArguments(args, args.length);
+        if (!fields) {
+            return null;
+        }
+        return fields.length > 0 ? recordLayout(fields) : { size: 1, alignment: 1 };
+    },
+    'optional': args => {
+        const value = typeArguments(args, 1);
+        return value ? recordLayout([value[0], { size: 1, alignment: 1 }]) : null;
+    },
+    'variant': args => {
+        const alternatives = typeArguments(args, args.length);
+        if (!alternatives || alternatives.length === 0) {
+            return null;
+        }
+        // Stockage de la plus grande alternative, puis l'index (1 octet jusqu'à 255 alternatives)
+        const storage = {
+            size: Math.max(...alternatives.map(alternative => alternative.size)),
+            alignment: Math.max(...alternatives.map(alternative => alternative.alignment))
+        };
+        const index = alternatives.length < 255 ? { size: 1, alignment: 1 } : { size: 2, alignment: 2 };
+        return recordLayout([storage, index]);
+    },
+    'complex': args => {
+        const value = typeArguments(args, 1);
+        return value ? { size: 2 * value[0].size, alignment: value[0].alignment } : null;
+    },
+    'atomic': args => {
+        const value = typeArguments(args, 1);
+        if (!value) {
+            return null;
+        }
+        // Les tailles en puissance de deux sont alignées sur leur taille pour les opérations atomiques
+        const size = value[0].size;
+        const powerOfTwo = size > 0 && (size & (size - 1)) === 0 && size <= 16;
+        return { size, alignment: powerOfTwo ? Math.max(size, value[0].alignment) : value[0].alignment };
+    },
+    'bitset': (args, context) => {
+        const bits = args[0] ? args[0].value : null;
+        if (bits === null) {
+            return null;
+        }
+        if (context.library === 'msvc') {
+            return bits <= 32 ? { size: 4, alignment: 4 } : { size: 8 * Math.ceil(bits / 64), alignment: 8 };
+        }
+        const word = context.library === 'libc++' ? context.sizeType : context.long;
+        return { size: word.size * Math.max(1, Math.ceil(bits / (word.size * 8))), alignment: word.alignment };
+    }
+};
+
+// Noms reconnus, avec ou sans std::
+export const standardTypeNames: string[] = Object.keys(formulas);
+
+// Types sans argument de template
+export const standardPlainTypes: string[] = ['string', 'wstring', 'u8string', 'u16string', 'u32string', 'string_view', 'wstring_view'];
+
+export function standardTypeLayout(name: string, args: TemplateArgument[], context: StandardLayoutContext): TypeLayout | null {
+    const formula = Object.prototype.hasOwnProperty.call(formulas, name) ? formulas[name] : undefined;
+    return formula ? formula(args, context) : null;
+}
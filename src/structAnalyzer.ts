@@ -1,151 +1,2321 @@
-import * as vscode from 'vscode';
+import { CLexer, LexedSource, Token } from './cLexer';
+import { ConstantEvaluator } from './constantEvaluator';
+import { DeclarationParser, DeclaratorNode, MemberNode, RecordNode, VariableNode } from './declarationParser';
+import { ConditionalGroup, MacroTable, Preprocessor } from './preprocessor';
+import { TextMemo, TextRegion } from './sourceRegions';
+import { standardPlainTypes, standardTypeLayout, standardTypeNames, TemplateArgument } from './stdTemplates';
 import { TypeInfoProvider } from './typeInfo';
 
+export interface MemberLayout {
+    name: string;
+    type: string;
+    offset: number;
+    size: number;
+    alignment: number;
+    // Octets de padding insérés avant ce membre
+    paddingBefore: number;
+    // Nombre total d'éléments et dimensions d'un tableau : "m[4][4]" -> 16, [4, 4]
+    arraySize?: number;
+    dimensions?: number[];
+    // Bitfields : position du premier bit dans l'unité de stockage et largeur
+    bitOffset?: number;
+    bitWidth?: number;
+    // Membre hérité : classe de base qui le déclare
+    inheritedFrom?: string;
+}
+
+// Sous-objet d'une classe de base (C++)
+export interface BaseClassLayout {
+    name: string;
+    offset: number;
+    size: number;
+    isVirtual: boolean;
+    // Base vide : ne prend pas de place (empty base optimization)
+    isEmpty: boolean;
+}
+
+export type RecordKind = 'struct' | 'union';
+
 export interface StructInfo {
     name: string;
+    kind: RecordKind;
     totalSize: number;
     alignment: number;
+    members: MemberLayout[];
+    trailingPadding: number;
+    // Types de membres non résolus : si non vide, totalSize n'est pas fiable
+    unresolvedTypes: string[];
+    // Pour une union : le membre qui impose la taille
+    dominantMember?: string;
+    // Directives (#pragma pack, packed, aligned, alignas) ayant modifié le layout
+    layoutDirectives: string[];
+    // C++ : bases placées avant les membres propres, et membres qu'elles apportent
+    bases?: BaseClassLayout[];
+    inheritedMembers?: MemberLayout[];
+    // Pointeur de vtable ajouté par cette classe (absent s'il est partagé avec une base)
+    vptrOffset?: number;
+    // Layout mesuré par un compilateur plutôt que calculé : "gcc 12.2.0"
+    measuredBy?: string;
+}
+
+// Alias déclaré par typedef ou using, résolu jusqu'à un type connu
+export interface TypeAlias {
+    name: string;
+    // Chaîne complète : ["handle_t", "u32", "uint32_t"]
+    chain: string[];
+    // null si la chaîne n'aboutit pas à un type connu
+    size: number | null;
+    alignment: number | null;
+    arraySize?: number;
+    // Struct/union/classe au bout de la chaîne
+    recordName?: string;
+}
+
+// Texte analysé : un vscode.TextDocument, ou le contenu d'un fichier lu sans éditeur
+export interface SourceDocument {
+    getText(): string;
+    languageId: string;
+    // Découpe du texte tenue à jour au fil des modifications (voir RegionIndex) : seules les
+    // régions qui ont changé depuis l'analyse précédente sont relues
+    regions?: TextRegion[];
+}
+
+export interface DocumentAnalysis {
+    structs: Map<string, StructInfo>;
+    aliases: Map<string, TypeAlias>;
+    // Templates de classe : leur taille dépend des arguments, calculée à l'instanciation
+    templates: Set<string>;
+}
+
+// Struct, union ou classe écrite dans le document, avec sa position
+export interface RecordLocation {
+    name: string;
+    // Positions dans le texte du document : mot-clé, nom, corps entre les accolades
+    start: number;
+    nameStart: number;
+    bodyStart: number;
+    bodyEnd: number;
+    isTemplate: boolean;
+    // Taille maximale déclarée par un commentaire "// memsize: max 32"
+    sizeBudget?: number;
+}
+
+// Position d'un membre dans le document : début de sa déclaration et fin de son déclarateur
+export interface MemberPosition {
+    name: string;
+    statementStart: number;
+    declaratorEnd: number;
+}
+
+// Réordonnancement des membres d'une struct du document qui réduit sa taille
+export interface LayoutOptimization {
+    name: string;
+    // Position du corps, entre les accolades, dans le texte du document
+    bodyStart: number;
+    bodyEnd: number;
+    currentSize: number;
+    optimizedSize: number;
+    // Nouveau corps, commentaires compris
+    body: string;
+}
+
+// Instance d'un template : classe du document ou type de la bibliothèque standard
+export interface TemplateInstance {
+    // Nom normalisé : "std::array<uint16_t, 8>"
+    name: string;
+    // null si un argument n'a pas pu être résolu
+    size: number | null;
+    alignment: number | null;
+    // Layout détaillé d'un template défini dans le document
+    structInfo?: StructInfo;
+    isStandard: boolean;
+}
+
+// static_assert ou _Static_assert portant sur sizeof, alignof ou offsetof
+export interface StaticAssertion {
+    // Position de "static_assert" et fin de la ')' fermante dans le texte du document
+    start: number;
+    end: number;
+    condition: string;
+    message?: string;
+    // Condition évaluée avec le layout calculé ; null si elle ne peut pas l'être (type inconnu, template...)
+    holds: boolean | null;
+    // Valeur calculée de chaque sizeof/alignof/offsetof de la condition
+    computed: Array<{ expression: string; value: number | null }>;
+}
+
+// Assertions figeant la taille et les offsets d'une struct du document pour la cible courante
+export interface LayoutAssertions {
+    name: string;
+    // Fin de la ligne où se termine la définition : le texte commence par un saut de ligne
+    insertOffset: number;
+    text: string;
+    // "#include <stddef.h>" à insérer au début d'une ligne pour offsetof, absent si le document le voit déjà
+    include?: { offset: number; text: string };
+}
+
+// Groupe #if/#ifdef du corps d'une struct du document
+export interface ConditionalLayout {
+    // Ligne du #if dans le document, à partir de 0
+    line: number;
+    branches: Array<{
+        // "#ifdef DEBUG", "#elif LEVEL > 2", "#else" ; vide pour le cas où aucune branche d'un groupe sans #else n'est retenue
+        directive: string;
+        // Taille de la struct avec cette branche, calculée pour un groupe indécidable ; null si inconnue
+        size?: number | null;
+    }>;
+    // Index de la branche retenue pour le layout affiché
+    taken: number;
+    // Une condition dépend d'une macro qui peut venir de la ligne de commande
+    undecided: boolean;
+}
+
+// Variable ou paramètre retrouvé à partir de sa déclaration
+export interface VariableInfo {
+    name: string;
+    // Déclaration telle qu'écrite : "struct packet buf[MAX_PACKETS]"
+    declaration: string;
+    // Type d'un élément tel que déclaré : "struct packet", "char*"
+    type: string;
+    arraySize?: number;
+    dimensions?: number[];
+    // null si le type n'a pas pu être résolu
+    elementSize: number | null;
+    totalSize: number | null;
+    alignment: number | null;
+    isParameter: boolean;
+    // Tableau passé en paramètre ("[8]") : c'est en réalité un pointeur
+    decayedArray?: string;
+    // Pour un pointeur : l'objet pointé
+    pointee?: { type: string; size: number | null };
+}
+
+// Attributs de layout extraits d'une déclaration
+interface LayoutAttributes {
+    packed: boolean;
+    aligned?: number;
+    // [[no_unique_address]] : un membre vide ne prend pas de place
+    noUniqueAddress?: boolean;
+    directives: string[];
+}
+
+interface PackState {
+    value: number;
+    directive: string;
+}
+
+interface BaseSpecifier {
+    name: string;
+    isVirtual: boolean;
+}
+
+// "typename T = int", "size_t N"
+interface TemplateParameter {
+    name: string;
+    // Paramètre non typé : sa valeur est substituée entre parenthèses
+    isValue: boolean;
+    defaultValue?: string;
+    variadic: boolean;
+}
+
+interface RecordDefinition {
+    name: string;
+    kind: RecordKind;
+    body: string;
+    attributes: LayoutAttributes;
+    pack?: PackState;
+    bases?: BaseSpecifier[];
+    // Déclarée avec "class" : membres privés par défaut
+    isClass?: boolean;
+    // Template de classe : pas de layout tant que les arguments ne sont pas connus
+    templateParameters?: TemplateParameter[];
+    // Spécialisation "Arr<0>", "X<T *>" : arguments qu'elle fixe, paramètres propres dans templateParameters
+    specializationArgs?: string[];
+    // Portées où chercher les noms de types du corps, de la plus large à la plus proche :
+    // namespaces et records englobants, puis le record lui-même ("ns", "Outer", "Inner")
+    scope?: string[];
+    // Position dans le texte analysé : mot-clé, nom, début et fin du corps
+    location?: { start: number; nameStart: number; bodyStart: number; bodyEnd: number };
+}
+
+// Morceau du corps d'une struct : un membre avec ses commentaires, ou ce qui ne bouge pas
+interface MemberChunk {
+    // Texte original et sa version sans commentaires ni directives (même longueur)
+    text: string;
+    code: string;
+    // Indentation et lignes vides en tête, qui restent à leur place
+    leadLength: number;
+    role: 'member' | 'bitfield' | 'fixed' | 'barrier';
+}
+
+// Propriétés d'une classe nécessaires au layout de ses dérivées (ABI Itanium)
+interface ClassTraits {
+    // Taille sans le padding final, que les dérivées peuvent réutiliser si la classe n'est pas POD
+    dataSize: number;
+    // Partie non virtuelle : sans les bases virtuelles
+    nonVirtualSize: number;
+    nonVirtualAlignment: number;
+    isEmpty: boolean;
+    // Possède un pointeur de vtable (méthodes ou bases virtuelles)
+    isDynamic: boolean;
+    isPod: boolean;
+    // Bases virtuelles directes et héritées, dans l'ordre de placement
+    virtualBases: string[];
+}
+
+interface ParsedMember {
+    type: string;
+    name: string;
+    // Expressions des dimensions, évaluées au calcul du layout : ["MAX_NAME + 1"]
+    dimensions?: string[];
+    bitWidth?: number;
+    attributes?: LayoutAttributes;
+    // Corps d'une struct/union imbriquée (anonyme ou non)
+    nested?: { kind: RecordKind; body: string; attributes: LayoutAttributes };
+    // Déclaration que l'on n'a pas su interpréter
+    unparsed?: boolean;
+}
+
+interface AliasDefinition {
+    name: string;
+    target: string;
+    dimensions?: string[];
+}
+
+// Déclaration de variable trouvée dans le texte, avec sa portée
+interface VariableDeclaration {
+    type: string;
+    // Déclaration affichée, qualificatifs et paramètres compris : "const char* const name"
+    written: string;
+    dimensions: string[];
+    isParameter: boolean;
+}
+
+// État partagé pendant l'analyse d'un document
+interface AnalysisContext {
+    definitions: Map<string, RecordDefinition>;
+    // Nom du template -> ses spécialisations explicites et partielles
+    specializations: Map<string, RecordDefinition[]>;
+    // Nom complet "ns::Outer::Inner" -> définition, pour les types qualifiés
+    qualifiedDefinitions: Map<string, RecordDefinition>;
+    enums: Map<string, string>;
+    aliases: Map<string, AliasDefinition>;
+    // Macros sans paramètres et énumérateurs, utilisables dans les dimensions
+    macros: Map<string, string>;
+    constants: Map<string, string>;
+    // État du préprocesseur pour évaluer les #if, qui oublie les macros retirées par #undef
+    macroTable: MacroTable;
+    // Groupes #if du dernier texte analysé, le document
+    conditionals: ConditionalGroup[];
+    traits: Map<string, ClassTraits>;
+    // Sources C++ : une classe vide occupe un octet
+    isCpp: boolean;
+    resolved: Map<string, StructInfo | null>;
+    resolving: Set<string>;
+}
+
+// Source prête pour l'analyse, aux mêmes positions que le texte d'origine
+interface PreparedSource {
+    // Branches #if inactives et commentaires effacés
+    withoutComments: string;
+    // Directives effacées aussi
+    code: string;
+    groups: ConditionalGroup[];
+    defines: Map<string, string>;
+}
+
+// Lecture d'une région de document : positions des directives et des commentaires dans la région
+interface RegionScan {
+    directives: TextRegion[];
+    comments: TextRegion[];
 }
 
 export class StructAnalyzer {
+    private static readonly layoutQueryRegex = /\b(?:sizeof|alignof|_Alignof|__alignof__|offsetof|__builtin_offsetof)\s*\(/;
+    // Instances imbriquées au-delà : récursion sans fin ("Arr<N - 1>" sans spécialisation qui l'arrête)
+    private static readonly maxInstantiationDepth = 64;
+
     private typeProvider: TypeInfoProvider;
+    private lexer: CLexer;
+    private parser: DeclarationParser;
+    private preprocessor: Preprocessor;
+    // Lectures déjà faites, selon le texte lu : régions des documents ouverts, corps des structs
+    // et variables des derniers documents survolés
+    private regionScans: TextMemo<RegionScan>;
+    private regionRecords: TextMemo<RecordNode[]>;
+    private memberNodes: TextMemo<MemberNode[]>;
+    private variableNodes: TextMemo<VariableNode[]>;
 
     constructor() {
         this.typeProvider = TypeInfoProvider.getInstance();
+        this.lexer = new CLexer();
+        this.parser = new DeclarationParser();
+        this.preprocessor = new Preprocessor();
+        this.regionScans = new TextMemo(5000);
+        this.regionRecords = new TextMemo(5000);
+        this.memberNodes = new TextMemo(5000);
+        this.variableNodes = new TextMemo(4);
+    }
+
+    public findStructs(document: SourceDocument, includedTexts: string[] = []): Map<string, StructInfo> {
+        return this.analyze(document, includedTexts).structs;
+    }
+
+    // Définitions du document lui-même, une par corps (le tag d'un typedef struct passe avant l'alias)
+    public findRecordLocations(document: SourceDocument, includedTexts: string[] = []): RecordLocation[] {
+        const source = document.getText();
+        const text = this.prepareDocument(document, includedTexts).code;
+        const locations: RecordLocation[] = [];
+        const seen = new Set<number>();
+
+        for (const [key, definition] of this.findRecordDefinitions(text, [], document.regions)) {
+            const location = definition.location!;
+            // Les noms complets ("ns::Inner") doublent les définitions déjà vues sous leur nom
+            if (seen.has(location.bodyStart) || key.includes('::')) {
+                continue;
+            }
+            seen.add(location.bodyStart);
+
+            locations.push({
+                name: definition.name,
+                ...location,
+                isTemplate: definition.templateParameters !== undefined,
+                sizeBudget: this.findSizeBudget(source, location)
+            });
+        }
+
+        return locations;
     }
 
-    public findStructs(document: vscode.TextDocument): Map<string, StructInfo> {
+    // includedTexts : contenu des en-têtes inclus, dont les définitions sont connues mais
+    // peuvent être redéfinies par le document lui-même
+    public analyze(document: SourceDocument, includedTexts: string[] = []): DocumentAnalysis {
         const structs = new Map<string, StructInfo>();
-        const text = document.getText();
 
-        // Regex pour capturer les définitions de structures
-        const structRegex = /(?:typedef\s+)?struct\s+(?:(\w+)\s*)?\{([^}]+)\}\s*(?:(\w+)\s*)?;/g;
+        const context = this.createContext([...includedTexts, document.getText()], document.languageId === 'cpp', document.regions);
+
+        // Les dépendances sont résolues à la demande, dans l'ordre où elles sont utilisées
+        const templates = new Set<string>();
+        for (const [name, definition] of context.definitions) {
+            if (definition.templateParameters) {
+                templates.add(name);
+                continue;
+            }
+            const structInfo = this.resolveRecord(name, context);
+            if (structInfo) {
+                structs.set(name, structInfo);
+            }
+        }
+
+        const aliases = new Map<string, TypeAlias>();
+        for (const name of context.aliases.keys()) {
+            aliases.set(name, this.resolveAlias(name, context));
+        }
+
+        return { structs, aliases, templates };
+    }
+
+    // Noms des types (struct/union/class, enum, typedef/using) déclarés dans un texte,
+    // sans calculer de layout : sert à indexer les fichiers du workspace
+    public declaredTypeNames(source: string, regions?: TextRegion[]): string[] {
+        const context = this.createContext([source], false, regions);
+        return [...context.definitions.keys(), ...context.enums.keys(), ...context.aliases.keys()];
+    }
+
+    // Retrouve la déclaration visible depuis offset de la variable ou du paramètre "name"
+    public findVariable(document: SourceDocument, name: string, offset: number, includedTexts: string[] = []): VariableInfo | null {
+        const text = this.prepareDocument(document, includedTexts).code;
+        const candidates = this.variableNodes.get(text, code => this.parser.parseVariables(code))
+            .filter(variable => variable.declarator.name === name && variable.declarator.nameStart <= offset && variable.scopeStart <= offset && offset <= variable.scopeEnd);
+
+        // La déclaration la plus proche dont la portée contient l'utilisation
+        let context: AnalysisContext | undefined;
+        for (let i = candidates.length - 1; i >= 0; i--) {
+            const declaration = this.toVariableDeclaration(candidates[i]);
+            if (!declaration) {
+                continue;
+            }
+
+            context = context || this.createContext([...includedTexts, document.getText()], document.languageId === 'cpp', document.regions);
+            const variable = this.describeVariable(name, declaration, context);
+            if (variable) {
+                return variable;
+            }
+        }
+
+        return null;
+    }
+
+    // Taille d'une instance de template ("Buffer<uint8_t, 16>", "std::vector<int>"), null si
+    // typeText n'en est pas une
+    public describeTemplate(document: SourceDocument, typeText: string, includedTexts: string[] = []): TemplateInstance | null {
+        const context = this.createContext([...includedTexts, document.getText()], document.languageId === 'cpp', document.regions);
+        const type = this.canonicalTypeName(this.cleanType(typeText));
+
+        const key = this.recordKey(type, [], context);
+        const templateMatch = key ? /^((?:\w+::)*\w+)\s*<[\s\S]*>$/.exec(key) : null;
+        const definition = templateMatch ? this.findDefinition(templateMatch[1], context) : undefined;
+        if (key && definition && definition.templateParameters) {
+            const structInfo = this.resolveRecord(key, context);
+            if (!structInfo) {
+                return null;
+            }
+            const known = structInfo.unresolvedTypes.length === 0;
+            return { name: type, size: known ? structInfo.totalSize : null, alignment: known ? structInfo.alignment : null, structInfo, isStandard: false };
+        }
+
+        if (!this.standardType(type, context)) {
+            return null;
+        }
+        const typeInfo = this.getTypeInfo({ type, name: '' }, this.emptyDefinition(), context);
+        return {
+            name: type,
+            size: typeInfo ? typeInfo.size : null,
+            alignment: typeInfo ? typeInfo.alignment : null,
+            isStandard: true
+        };
+    }
+
+    // Assertions statiques du document qui dépendent d'un layout, évaluées pour la cible courante
+    public findStaticAssertions(document: SourceDocument, includedTexts: string[] = []): StaticAssertion[] {
+        const text = this.prepareDocument(document, includedTexts).code;
+        const assertions: StaticAssertion[] = [];
+        const assertRegex = /\b(?:static_assert|_Static_assert)\s*\(/g;
+        let evaluator: ConstantEvaluator | undefined;
 
         let match;
-        while ((match = structRegex.exec(text)) !== null) {
-            const structName = match[1] || match[3];
-            const body = match[2];
+        while ((match = assertRegex.exec(text)) !== null) {
+            const call = this.parseCallArguments(text, match.index + match[0].length - 1);
+            if (!call || call.args.length === 0) {
+                continue;
+            }
+            assertRegex.lastIndex = call.end;
 
-            if (structName && body) {
-                const structInfo = this.calculateStructSize(structName, body);
-                if (structInfo) {
-                    structs.set(structName, structInfo);
+            const condition = call.args[0].replace(/\s+/g, ' ').trim();
+            if (!StructAnalyzer.layoutQueryRegex.test(condition)) {
+                continue;
+            }
+
+            evaluator = evaluator || this.createEvaluator(this.createContext([...includedTexts, document.getText()], document.languageId === 'cpp', document.regions));
+            const value = evaluator.evaluate(condition);
+
+            const computed: Array<{ expression: string; value: number | null }> = [];
+            const queryRegex = new RegExp(StructAnalyzer.layoutQueryRegex.source, 'g');
+            let query;
+            while ((query = queryRegex.exec(condition)) !== null) {
+                const queryCall = this.parseCallArguments(condition, query.index + query[0].length - 1);
+                if (queryCall) {
+                    const expression = condition.substring(query.index, queryCall.end);
+                    computed.push({ expression, value: evaluator.evaluate(expression) });
+                    queryRegex.lastIndex = queryCall.end;
                 }
             }
+
+            // Le message peut être fait de plusieurs littéraux concaténés
+            const literals = call.args.length > 1 ? call.args[1].match(/"(?:\\.|[^"\\])*"/g) : null;
+            assertions.push({
+                start: match.index,
+                end: call.end,
+                condition,
+                message: literals ? literals.map(literal => literal.substring(1, literal.length - 1)).join('') : undefined,
+                holds: value === null ? null : value !== 0,
+                computed
+            });
+        }
+
+        return assertions;
+    }
+
+    // static_assert sur sizeof et sur l'offsetof de chaque membre, à insérer après la définition
+    // contenant offset. Les structs imbriquées ne sont pas nommables hors de leur parent et sont ignorées
+    public createLayoutAssertions(document: SourceDocument, offset: number, includedTexts: string[] = []): LayoutAssertions | null {
+        const source = document.getText();
+        const { withoutComments, code: text } = this.prepareDocument(document, includedTexts);
+        const isCpp = document.languageId === 'cpp';
+
+        const definitions = Array.from(this.findRecordDefinitions(text, this.findPackDirectives(withoutComments), document.regions).values());
+        const target = definitions.find(definition => offset >= definition.location!.start && offset <= definition.location!.bodyEnd + 1 &&
+            !definitions.some(other => other.location!.bodyStart < definition.location!.start && other.location!.bodyEnd > definition.location!.bodyEnd));
+        if (!target || target.templateParameters) {
+            return null;
+        }
+
+        const context = this.createContext([...includedTexts, source], isCpp, document.regions);
+        const structInfo = this.resolveRecord(this.keyOf(target, context), context);
+        if (!structInfo || structInfo.unresolvedTypes.length > 0) {
+            return null;
         }
 
-        // Regex pour capturer les définitions de classes C++
-        const classRegex = /class\s+(\w+)(?:\s*\:\s*(?:(?:public|private|protected)\s+\w+(?:\s*,\s*(?:public|private|protected)\s+\w+)*))?\s*\{([^}]+)\}\s*;/g;
+        // En C, l'alias d'un typedef struct s'écrit sans mot-clé, un tag seul avec
+        const alias = definitions.find(definition => definition.location!.bodyStart === target.location!.bodyStart &&
+            definition.location!.nameStart > definition.location!.bodyEnd);
+        const typeName = isCpp ? target.name : alias ? alias.name : `${target.kind} ${target.name}`;
 
-        while ((match = classRegex.exec(text)) !== null) {
-            const className = match[1];
-            const body = match[match.length - 1];
+        // _Static_assert est la seule forme du C11 sans <assert.h>
+        const keyword = isCpp || /\bstatic_assert\s*\(/.test(text) ? 'static_assert' : '_Static_assert';
+        const lines = [
+            `// Layout on ${this.typeProvider.getProfile().label}`,
+            `${keyword}(sizeof(${typeName}) == ${structInfo.totalSize}, "unexpected size of ${typeName}");`
+        ];
 
-            if (className && body) {
-                const classInfo = this.calculateStructSize(className, body);
-                if (classInfo) {
-                    structs.set(className, classInfo);
+        // offsetof n'est défini que pour les types standard-layout dont les membres sont accessibles
+        const standardLayout = !structInfo.bases && structInfo.vptrOffset === undefined &&
+            !target.isClass && !/\b(?:private|protected)\s*:/.test(target.body);
+        if (structInfo.kind === 'struct' && standardLayout) {
+            for (const member of structInfo.members) {
+                if (member.bitWidth !== undefined || !/^\w+$/.test(member.name)) {
+                    continue;
                 }
+                lines.push(`${keyword}(offsetof(${typeName}, ${member.name}) == ${member.offset}, "unexpected offset of ${typeName}.${member.name}");`);
             }
         }
 
-        return structs;
+        // Après le ';' qui termine la définition, avec l'indentation de son mot-clé
+        const semicolonIndex = text.indexOf(';', target.location!.bodyEnd);
+        const lineEnd = source.indexOf('\n', semicolonIndex < 0 ? target.location!.bodyEnd : semicolonIndex);
+        const lineStart = source.lastIndexOf('\n', target.location!.start) + 1;
+        const indentation = /^[ \t]*/.exec(source.substring(lineStart))![0];
+
+        const usesOffsetof = lines.some(line => line.includes('offsetof('));
+        return {
+            name: target.name,
+            insertOffset: lineEnd < 0 ? source.length : lineEnd,
+            text: '\n\n' + lines.map(line => indentation + line).join('\n'),
+            include: usesOffsetof && !this.declaresOffsetof([...includedTexts, withoutComments])
+                ? { offset: this.includeOffset(withoutComments, target.location!.start), text: `#include <${isCpp ? 'cstddef' : 'stddef.h'}>\n` }
+                : undefined
+        };
+    }
+
+    // offsetof est visible si un des textes inclut <stddef.h>/<cstddef> ou définit la macro
+    private declaresOffsetof(texts: string[]): boolean {
+        return texts.some(text => /^[ \t]*#[ \t]*(?:include[ \t]*[<"](?:stddef\.h|cstddef)[>"]|define[ \t]+offsetof\b)/m.test(text));
+    }
+
+    // Début de la ligne qui suit le dernier #include placé avant "before", sinon début du texte
+    private includeOffset(text: string, before: number): number {
+        const includeRegex = /^[ \t]*#[ \t]*include\b.*$/gm;
+        let offset = 0;
+        let match;
+        while ((match = includeRegex.exec(text)) !== null && match.index < before) {
+            const newline = text.indexOf('\n', match.index);
+            offset = newline < 0 ? text.length : newline + 1;
+        }
+        return offset;
     }
 
-    private calculateStructSize(name: string, body: string): StructInfo | null {
-        const members = this.parseMembers(body);
-        if (members.length === 0) {
+    // Propose un ordre des membres de la struct contenant offset, triés par alignement décroissant.
+    // Les groupes de bitfields restent ensemble ; les membres marqués "memsize: pin", les
+    // access specifiers et les directives préprocesseur ne bougent pas et délimitent les groupes triés
+    public optimizeLayout(document: SourceDocument, offset: number, includedTexts: string[] = []): LayoutOptimization | null {
+        const source = document.getText();
+        const { withoutComments, code: text } = this.prepareDocument(document, includedTexts);
+
+        // Définition la plus interne contenant le curseur
+        let target: RecordDefinition | undefined;
+        for (const definition of this.findRecordDefinitions(text, this.findPackDirectives(withoutComments), document.regions).values()) {
+            const location = definition.location!;
+            if (offset >= location.start && offset <= location.bodyEnd + 1 && (!target || location.start > target.location!.start)) {
+                target = definition;
+            }
+        }
+        if (!target || target.kind === 'union' || target.templateParameters) {
             return null;
         }
 
-        let totalSize = 0;
-        let maxAlignment = 1;
+        const context = this.createContext([...includedTexts, source], document.languageId === 'cpp', document.regions);
+        const current = this.resolveRecord(this.keyOf(target, context), context);
+        if (!current || current.unresolvedTypes.length > 0) {
+            return null;
+        }
 
-        for (const member of members) {
-            const typeInfo = this.getTypeInfo(member.type);
-            if (!typeInfo) {
-                continue; // Ignore les types non reconnus
+        const { bodyStart, bodyEnd } = target.location!;
+        const chunks = this.splitMemberChunks(source.substring(bodyStart, bodyEnd), text.substring(bodyStart, bodyEnd));
+        const order = chunks.map((chunk, index) => index);
+
+        // Chaque groupe entre deux barrières est trié séparément
+        let segmentStart = 0;
+        for (let i = 0; i <= chunks.length; i++) {
+            if (i < chunks.length && chunks[i].role !== 'barrier') {
+                continue;
+            }
+
+            const slots = order.slice(segmentStart, i).filter(index => chunks[index].role === 'member' || chunks[index].role === 'bitfield');
+            const units: Array<{ chunks: number[]; alignment: number }> = [];
+            for (const index of slots) {
+                const previous = units[units.length - 1];
+                if (previous && chunks[index].role === 'bitfield' && chunks[previous.chunks[previous.chunks.length - 1]].role === 'bitfield') {
+                    previous.chunks.push(index);
+                } else {
+                    units.push({ chunks: [index], alignment: 0 });
+                }
             }
 
-            const memberSize = typeInfo.size * (member.arraySize || 1);
-            const alignment = typeInfo.alignment;
+            for (const unit of units) {
+                const unitDefinition: RecordDefinition = {
+                    ...target,
+                    name: `${target.name}::(member)`,
+                    body: unit.chunks.map(index => chunks[index].code).join(''),
+                    bases: [],
+                    attributes: { packed: target.attributes.packed, directives: [] }
+                };
+                const unitInfo = this.calculateStructSize(unitDefinition.name, unitDefinition, context);
+                if (!unitInfo || unitInfo.unresolvedTypes.length > 0) {
+                    return null;
+                }
+                unit.alignment = unitInfo.alignment;
+            }
 
-            maxAlignment = Math.max(maxAlignment, alignment);
+            // Tri stable : à alignement égal, l'ordre d'origine est conservé
+            const sorted = units
+                .slice()
+                .sort((first, second) => second.alignment - first.alignment)
+                .reduce((indices: number[], unit) => indices.concat(unit.chunks), []);
+            slots.forEach((slot, position) => order[slot] = sorted[position]);
 
-            // Alignement du membre
-            totalSize = this.alignTo(totalSize, alignment);
-            totalSize += memberSize;
+            segmentStart = i + 1;
         }
 
-        // Alignement final de la structure
-        totalSize = this.alignTo(totalSize, maxAlignment);
+        // Le membre déplacé prend l'indentation de la place qu'il occupe
+        const rebuild = (field: 'text' | 'code') => order
+            .map((index, slot) => chunks[slot][field].substring(0, chunks[slot].leadLength) + chunks[index][field].substring(chunks[index].leadLength))
+            .join('');
 
-        return {
-            name,
-            totalSize,
-            alignment: maxAlignment
+        const body = rebuild('text');
+        const optimized = this.calculateStructSize(target.name, { ...target, body: rebuild('code') }, context);
+        if (!optimized || optimized.unresolvedTypes.length > 0 || optimized.totalSize >= current.totalSize) {
+            return null;
+        }
+
+        return { name: target.name, bodyStart, bodyEnd, currentSize: current.totalSize, optimizedSize: optimized.totalSize, body };
+    }
+
+    // Membres déclarés directement dans le corps de la définition : "int a, b[4];" donne a et b
+    public findMemberPositions(document: SourceDocument, location: RecordLocation, includedTexts: string[] = []): MemberPosition[] {
+        const code = this.prepareDocument(document, includedTexts).code.substring(location.bodyStart, location.bodyEnd);
+        const positions: MemberPosition[] = [];
+
+        for (const member of this.memberNodesOf(code)) {
+            if (member.kind !== 'field' && member.kind !== 'record' && member.kind !== 'enum') {
+                continue;
+            }
+            for (const declarator of member.declarators) {
+                if (declarator.name) {
+                    positions.push({ name: declarator.name, statementStart: location.bodyStart + member.start, declaratorEnd: location.bodyStart + declarator.end });
+                }
+            }
+        }
+
+        return positions;
+    }
+
+    // Groupes #if/#ifdef du corps de la struct "name" écrite dans le document. Pour un groupe
+    // indécidable, la struct est recalculée avec chacune de ses branches
+    public findConditionalLayouts(document: SourceDocument, name: string, includedTexts: string[] = []): ConditionalLayout[] {
+        const source = document.getText();
+        const sources = [...includedTexts, source];
+        const isCpp = document.languageId === 'cpp';
+
+        const text = this.prepareDocument(document, includedTexts).code;
+        const definition = this.findRecordDefinitions(text, [], document.regions).get(name);
+        if (!definition || definition.templateParameters) {
+            return [];
+        }
+
+        const { bodyStart, bodyEnd } = definition.location!;
+        const context = this.createContext(sources, isCpp, document.regions);
+        const current = this.resolveRecord(name, context);
+        const sizeOf = (structInfo: StructInfo | null) => structInfo && structInfo.unresolvedTypes.length === 0 ? structInfo.totalSize : null;
+
+        return context.conditionals
+            .filter(group => group.start > bodyStart && group.start < bodyEnd)
+            .map(group => ({
+                line: source.substring(0, group.start).split('\n').length - 1,
+                branches: group.branches.map((branch, index) => ({
+                    directive: branch.directive,
+                    size: !group.undecided ? undefined : index === group.taken
+                        ? sizeOf(current)
+                        : sizeOf(this.resolveRecord(name, this.createContext(sources, isCpp, document.regions, new Map([[group.start, index]]))))
+                })),
+                taken: group.taken,
+                undecided: group.undecided
+            }));
+    }
+
+    // "// memsize: max 32" dans les commentaires juste au-dessus de la définition, sur la ligne
+    // de l'en-tête ou sur celle de l'accolade fermante
+    private findSizeBudget(source: string, location: { start: number; bodyStart: number; bodyEnd: number }): number | undefined {
+        let commentStart = source.lastIndexOf('\n', location.start - 1) + 1;
+        while (commentStart > 0) {
+            const previousLine = source.lastIndexOf('\n', commentStart - 2) + 1;
+            if (!/^\s*(?:\/\/|\/\*|\*|template\b)/.test(source.substring(previousLine, commentStart))) {
+                break;
+            }
+            commentStart = previousLine;
+        }
+
+        const lineEnd = (index: number) => {
+            const newline = source.indexOf('\n', index);
+            return newline < 0 ? source.length : newline;
         };
+        const text = source.substring(commentStart, lineEnd(location.bodyStart)) + '\n' + source.substring(location.bodyEnd, lineEnd(location.bodyEnd));
+
+        const budgetMatch = /\bmemsize:\s*max\s*(\d+)/i.exec(text);
+        return budgetMatch ? parseInt(budgetMatch[1]) : undefined;
     }
 
-    private parseMembers(body: string): Array<{type: string, name: string, arraySize?: number}> {
-        const members: Array<{type: string, name: string, arraySize?: number}> = [];
+    // regions et choices concernent le document, le dernier texte : sa découpe (voir SourceDocument)
+    // et la branche forcée de groupes #if (voir Preprocessor.process)
+    private createContext(sources: string[], isCpp: boolean = false, regions?: TextRegion[], choices?: Map<number, number>): AnalysisContext {
+        const cpp = this.isCppSource(sources, isCpp);
+        const lexed = this.scanSources(sources, regions);
+        const macroTable = this.createMacroTable(sources, lexed, cpp);
+        const context: AnalysisContext = {
+            definitions: new Map(),
+            specializations: new Map(),
+            qualifiedDefinitions: new Map(),
+            enums: new Map(),
+            aliases: new Map(),
+            macros: new Map(macroTable.values),
+            constants: new Map(),
+            macroTable,
+            conditionals: [],
+            traits: new Map(),
+            isCpp: cpp,
+            resolved: new Map(),
+            resolving: new Set()
+        };
 
-        // Nettoyer et diviser en lignes
-        const lines = body.split(/[;\n]/).map(line => line.trim()).filter(line => line.length > 0);
+        sources.forEach((source, index) => {
+            const isDocument = index === sources.length - 1;
+            this.collectDeclarations(source, lexed[index], context, isDocument ? regions : undefined, isDocument ? choices : undefined);
+        });
 
-        for (const line of lines) {
-            // Ignorer les commentaires
-            if (line.startsWith('//') || line.startsWith('/*')) {
-                continue;
+        return context;
+    }
+
+    private isCppSource(sources: string[], isCpp: boolean): boolean {
+        return isCpp || sources.some(source => /\b(?:class|namespace|template|virtual)\b|\bstd::|\b(?:public|private|protected)\s*:/.test(source));
+    }
+
+    // Macros de la cible et du langage, puis celles que les textes définissent ou retirent
+    private createMacroTable(sources: string[], lexed: LexedSource[], isCpp: boolean): MacroTable {
+        const language: { [name: string]: string } = isCpp ? { __cplusplus: '201703L' } : { __STDC__: '1', __STDC_VERSION__: '201710L' };
+        return this.preprocessor.createTable({ ...this.typeProvider.getProfile().macros, ...language }, sources, lexed.map(source => source.tokens));
+    }
+
+    // Texte du document prêt pour l'analyse, les macros des textes inclus étant définies avant lui
+    private prepareDocument(document: SourceDocument, includedTexts: string[]): PreparedSource {
+        const sources = [...includedTexts, document.getText()];
+        const lexed = this.scanSources(sources, document.regions);
+        const table = this.createMacroTable(sources, lexed, this.isCppSource(sources, document.languageId === 'cpp'));
+        includedTexts.forEach((source, index) => this.preprocessor.process(source, table, undefined, lexed[index].tokens));
+        return this.prepareSource(document.getText(), lexed[lexed.length - 1], table);
+    }
+
+    private prepareSource(source: string, lexed: LexedSource, table: MacroTable, choices?: Map<number, number>): PreparedSource {
+        const active = this.preprocessor.process(source, table, choices, lexed.tokens);
+        // Les commentaires et directives sont ceux du texte d'origine : dans une branche effacée, il n'y a plus rien à masquer
+        const withoutComments = this.lexer.mask(active.text, { comments: true }, lexed);
+        const code = this.lexer.mask(withoutComments, { directives: true }, lexed);
+        return { withoutComments, code, groups: active.groups, defines: active.defines };
+    }
+
+    // Tokens de chaque texte ; pour un document découpé en régions, seulement ses directives et ses commentaires
+    private scanSources(sources: string[], regions?: TextRegion[]): LexedSource[] {
+        return sources.map((source, index) => regions && index === sources.length - 1 ? this.scanRegions(source, regions) : this.lexer.tokenize(source));
+    }
+
+    private scanRegions(source: string, regions: TextRegion[]): LexedSource {
+        const tokens: Token[] = [];
+        const comments: TextRegion[] = [];
+
+        for (const region of regions) {
+            const scan = this.regionScans.get(source.substring(region.start, region.end), text => {
+                const lexed = this.lexer.tokenize(text);
+                return { directives: lexed.tokens.filter(token => token.kind === 'directive').map(({ start, end }) => ({ start, end })), comments: lexed.comments };
+            });
+            // Le texte des directives est repris du document : la lecture mémorisée ne garde que des positions
+            for (const directive of scan.directives) {
+                const start = region.start + directive.start;
+                const end = region.start + directive.end;
+                tokens.push({ kind: 'directive', text: source.substring(start, end), start, end });
             }
+            for (const comment of scan.comments) {
+                comments.push({ start: region.start + comment.start, end: region.start + comment.end });
+            }
+        }
 
-            // Ignorer les access specifiers (public:, private:, protected:)
-            if (line.match(/^\s*(public|private|protected)\s*:\s*$/)) {
-                continue;
+        return { tokens, comments };
+    }
+
+    private collectDeclarations(source: string, lexed: LexedSource, context: AnalysisContext, regions?: TextRegion[], choices?: Map<number, number>): void {
+        const prepared = this.prepareSource(source, lexed, context.macroTable, choices);
+        context.conditionals = prepared.groups;
+        prepared.defines.forEach((body, name) => context.macros.set(name, body));
+
+        const packDirectives = this.findPackDirectives(prepared.withoutComments);
+        const text = prepared.code;
+
+        this.findRecordDefinitions(text, packDirectives, regions).forEach((definition, name) => {
+            if (definition.specializationArgs) {
+                const specializations = context.specializations.get(definition.name) || [];
+                context.specializations.set(definition.name, [...specializations, definition]);
+            } else if (name.includes('::')) {
+                context.qualifiedDefinitions.set(name, definition);
+            } else if (!context.definitions.has(name) || this.isGlobalDefinition(definition) || !this.isGlobalDefinition(context.definitions.get(name)!)) {
+                context.definitions.set(name, definition);
             }
+        });
+        this.findEnums(text).forEach((underlyingType, name) => context.enums.set(name, underlyingType));
+        this.findEnumConstants(text).forEach((value, name) => context.constants.set(name, value));
+        this.findAliases(text).forEach((alias, name) => context.aliases.set(name, alias));
+    }
 
-            // Ignorer les méthodes/fonctions (contiennent des parenthèses)
-            if (line.includes('(') && line.includes(')')) {
+    private findRecordDefinitions(text: string, packDirectives: Array<{ index: number; state?: PackState }>, regions?: TextRegion[]): Map<string, RecordDefinition> {
+        const definitions = new Map<string, RecordDefinition>();
+
+        // Chaque définition struct/union/class, y compris les définitions imbriquées
+        for (const { record, at } of this.parseRecords(text, regions)) {
+            // L'en-tête doit se réduire à "[Nom[<arguments>]] [final] [: bases]", sinon ce n'est pas une définition
+            const header = this.extractAttributes(record.header);
+            const headerMatch = /^\s*(\w+)?\s*(<[\s\S]*?>)?\s*(?:final\s*)?(?::([^{]*))?$/.exec(header.text);
+            if (!headerMatch || headerMatch[1] === 'final' || (headerMatch[2] && (!headerMatch[1] || record.templateParameters === undefined))) {
                 continue;
             }
 
-            // Regex pour capturer type et nom avec potentiel tableau
-            const memberRegex = /^\s*(.+?)\s+(\w+)(?:\[(\d+)\])?\s*$/;
-            const match = memberRegex.exec(line);
+            const body = text.substring(at + record.bodyStart, at + record.bodyEnd);
+            const trailer = this.extractAttributes(record.trailer);
+
+            const tagName = headerMatch[1];
+            const aliasMatch = record.isTypedef ? /^\s*(\w+)/.exec(trailer.text) : null;
+            const aliasName = aliasMatch ? aliasMatch[1] : undefined;
+
+            const attributes = this.mergeAttributes(header.attributes, trailer.attributes);
+            const pack = this.packStateAt(packDirectives, at + record.start);
+            const bases = headerMatch[3] ? this.parseBaseList(headerMatch[3]) : [];
+
+            // "template <typename T, size_t N = 4>" juste avant la définition
+            const templateParameters = record.templateParameters !== undefined ? this.parseTemplateParameters(record.templateParameters) : undefined;
+            const scope = [...record.scope, tagName || '(anonymous)'];
 
-            if (match) {
-                const type = match[1].trim();
-                const name = match[2];
-                const arraySize = match[3] ? parseInt(match[3]) : undefined;
+            if (headerMatch[2]) {
+                const specializationArgs = this.splitTopLevel(headerMatch[2].slice(1, -1), true);
+                const location = { start: at + record.start, nameStart: at + record.nameStart!, bodyStart: at + record.bodyStart, bodyEnd: at + record.bodyEnd };
+                definitions.set(this.canonicalTypeName(tagName + headerMatch[2]), {
+                    name: tagName, kind: record.keyword === 'union' ? 'union' : 'struct', body, attributes, pack, bases, isClass: record.keyword === 'class', templateParameters, specializationArgs, scope, location
+                });
+                continue;
+            }
+
+            // Sous son seul nom, un record global passe avant celui d'un namespace ou d'un autre record
+            for (const name of [tagName, aliasName]) {
+                const existing = name ? definitions.get(name) : undefined;
+                if (name && (!existing || (record.scope.length === 0 && !this.isGlobalDefinition(existing)))) {
+                    const nameStart = this.indexOfWord(text, name, at + (name === tagName ? record.keywordEnd : record.bodyEnd));
+                    const location = { start: at + record.start, nameStart, bodyStart: at + record.bodyStart, bodyEnd: at + record.bodyEnd };
+                    definitions.set(name, { name, kind: record.keyword === 'union' ? 'union' : 'struct', body, attributes, pack, bases, isClass: record.keyword === 'class', templateParameters, scope, location });
+                }
+            }
 
-                members.push({ type, name, arraySize });
+            // "ns::Outer::Inner" : retrouvée même si un autre record porte le même nom ailleurs
+            const qualifiedName = [...record.scope, tagName].join('::');
+            if (tagName && record.scope.length > 0 && !record.scope.includes('(anonymous)') && !definitions.has(qualifiedName)) {
+                const nameStart = this.indexOfWord(text, tagName, at + record.keywordEnd);
+                const location = { start: at + record.start, nameStart, bodyStart: at + record.bodyStart, bodyEnd: at + record.bodyEnd };
+                definitions.set(qualifiedName, { name: tagName, kind: record.keyword === 'union' ? 'union' : 'struct', body, attributes, pack, bases, isClass: record.keyword === 'class', templateParameters, scope, location });
             }
         }
 
-        return members;
+        return definitions;
     }
 
-    private getTypeInfo(type: string): {size: number, alignment: number} | null {
-        // Gérer les pointeurs
-        if (type.includes('*')) {
-            const pointerSize = this.typeProvider.getPointerSize();
-            return { size: pointerSize, alignment: pointerSize };
+    // Définitions struct/union/class du texte, chacune avec la position de la région où elle a été lue
+    // (ses positions sont relatives à cette région). Les régions d'un document ouvert sont lues séparément
+    private parseRecords(text: string, regions?: TextRegion[]): Array<{ record: RecordNode; at: number }> {
+        if (!regions) {
+            return this.parser.parseRecords(text).map(record => ({ record, at: 0 }));
         }
 
-        // Nettoyer le type (enlever const, volatile, etc.)
-        const cleanType = type.replace(/\b(const|volatile|static|extern|register)\b/g, '').trim();
+        const records: Array<{ record: RecordNode; at: number }> = [];
+        for (const region of regions) {
+            for (const record of this.regionRecords.get(text.substring(region.start, region.end), code => this.parser.parseRecords(code))) {
+                records.push({ record, at: region.start });
+            }
+        }
+        return records;
+    }
 
-        // Normaliser les espaces multiples
-        const normalizedType = cleanType.replace(/\s+/g, ' ');
+    // Membres d'un corps de struct : le même corps revient à chaque analyse du document
+    private memberNodesOf(body: string): MemberNode[] {
+        return this.memberNodes.get(body, code => this.parser.parseMembers(code));
+    }
 
-        const size = this.typeProvider.getMemorySize(normalizedType);
-        const alignment = this.typeProvider.getAlignment(normalizedType);
+    // ": public Base, private virtual Mixin" ; les qualificatifs de namespace sont ignorés
+    private parseBaseList(text: string): BaseSpecifier[] {
+        return this.splitTopLevel(text, true).map(base => {
+            const name = base.replace(/\b(?:virtual|public|private|protected)\b/g, '').trim();
+            return { name: this.canonicalTypeName(name.replace(/^(?:\w*::)+/, '')), isVirtual: /\bvirtual\b/.test(base) };
+        });
+    }
+
+    private indexOfWord(text: string, word: string, from: number): number {
+        const wordRegex = new RegExp(`\\b${word}\\b`, 'g');
+        wordRegex.lastIndex = from;
+        const match = wordRegex.exec(text);
+        return match ? match.index : from;
+    }
+
+    // "typename T, size_t N = 4, class... Rest"
+    private parseTemplateParameters(text: string): TemplateParameter[] {
+        return this.splitTopLevel(text, true).map(parameter => {
+            const match = /^([\s\S]*?)(\.\.\.)?\s*(\w+)\s*(?:=\s*([\s\S]+))?$/.exec(parameter);
+            if (!match) {
+                return { name: parameter, isValue: false, variadic: true };
+            }
+            return {
+                name: match[3],
+                isValue: !/^\s*(?:typename|class)\b/.test(match[1]),
+                defaultValue: match[4] ? match[4].trim() : undefined,
+                variadic: match[2] !== undefined
+            };
+        });
+    }
+
+    // Définition concrète d'une instance "Box<int, 4>" : les paramètres sont remplacés
+    // par les arguments dans le corps et la liste des bases. Une spécialisation qui
+    // correspond aux arguments remplace la définition principale
+    private instantiateTemplate(name: string, context: AnalysisContext): RecordDefinition | null {
+        const match = /^((?:\w+::)*\w+)<([\s\S]*)>$/.exec(name);
+        const template = match ? this.findDefinition(match[1], context) : undefined;
+        const parameters = template ? template.templateParameters : undefined;
+        if (!match || !template || !parameters || parameters.some(parameter => parameter.variadic)) {
+            return null;
+        }
 
-        if (size === null || alignment === null) {
+        const args = match[2].length > 0 ? this.splitTopLevel(match[2], true) : [];
+        if (args.length > parameters.length || parameters.length === 0) {
             return null;
         }
 
-        return { size, alignment };
+        const substitutions = new Map<string, string>();
+        const substitute = (text: string) => text.replace(/\b\w+\b/g, word => substitutions.has(word) ? substitutions.get(word)! : word);
+
+        const values: string[] = [];
+        for (let i = 0; i < parameters.length; i++) {
+            // Les valeurs par défaut peuvent dépendre des paramètres précédents
+            const value = i < args.length ? args[i] : parameters[i].defaultValue ? substitute(parameters[i].defaultValue!) : undefined;
+            if (value === undefined) {
+                return null;
+            }
+            values.push(value);
+            substitutions.set(parameters[i].name, parameters[i].isValue ? `(${value})` : value);
+        }
+
+        const specialization = this.findSpecialization(template.name, parameters, values, context);
+        return specialization
+            ? this.substituteDefinition(name, specialization.definition, specialization.substitutions)
+            : this.substituteDefinition(name, template, substitutions);
+    }
+
+    // Spécialisation explicite ("template <> struct Arr<0>") ou partielle ("template <typename T> struct X<T *>")
+    // dont les arguments correspondent, avec la valeur de ses propres paramètres. Une spécialisation
+    // explicite passe avant les partielles, puis celle qui fixe le plus de texte
+    private findSpecialization(templateName: string, parameters: TemplateParameter[], values: string[], context: AnalysisContext):
+        { definition: RecordDefinition; substitutions: Map<string, string> } | null {
+        const evaluator = this.createEvaluator(context);
+        // "int *" et "int*" désignent le même type
+        const compact = (text: string) => text.replace(/\s+/g, ' ').replace(/\s*([^\w\s])\s*/g, '$1').trim();
+        let best: { definition: RecordDefinition; substitutions: Map<string, string>; fixed: number } | null = null;
+
+        for (const definition of context.specializations.get(templateName) || []) {
+            const own = definition.templateParameters || [];
+            const patterns = definition.specializationArgs!;
+            if (patterns.length !== values.length || own.some(parameter => parameter.variadic)) {
+                continue;
+            }
+
+            const bound = new Map<string, string>();
+            let fixed = 0;
+            const matches = patterns.every((pattern, i) => {
+                const names = own.filter(parameter => new RegExp(`\\b${parameter.name}\\b`).test(pattern)).map(parameter => parameter.name);
+                if (parameters[i].isValue && names.length === 0) {
+                    // Valeur fixée : "0" correspond à "(1) - 1"
+                    const expected = evaluator.evaluate(pattern);
+                    fixed += compact(pattern).length;
+                    return expected !== null && expected === evaluator.evaluate(values[i]);
+                }
+
+                // Motif de type : chaque paramètre propre correspond à un morceau de l'argument
+                const order: string[] = [];
+                const escaped = compact(pattern).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                const source = names.length > 0
+                    ? escaped.replace(new RegExp(`\\b(?:${names.join('|')})\\b`, 'g'), parameterName => {
+                        order.push(parameterName);
+                        return '([\\s\\S]+)';
+                    })
+                    : escaped;
+                const found = new RegExp(`^${source}$`).exec(compact(values[i]));
+                if (!found) {
+                    return false;
+                }
+
+                fixed += compact(pattern).length - order.reduce((sum, parameterName) => sum + parameterName.length, 0);
+                return order.every((parameterName, k) => {
+                    const previous = bound.get(parameterName);
+                    bound.set(parameterName, found[k + 1]);
+                    return previous === undefined || previous === found[k + 1];
+                });
+            });
+
+            if (!matches || !own.every(parameter => bound.has(parameter.name))) {
+                continue;
+            }
+
+            const score = own.length === 0 ? Infinity : fixed;
+            if (!best || score > best.fixed) {
+                const substitutions = new Map(own.map(parameter => {
+                    const value = bound.get(parameter.name)!;
+                    return [parameter.name, parameter.isValue ? `(${value})` : value] as [string, string];
+                }));
+                best = { definition, substitutions, fixed: score };
+            }
+        }
+
+        return best ? { definition: best.definition, substitutions: best.substitutions } : null;
+    }
+
+    private substituteDefinition(name: string, definition: RecordDefinition, substitutions: Map<string, string>): RecordDefinition {
+        const substitute = (text: string) => text.replace(/\b\w+\b/g, word => substitutions.has(word) ? substitutions.get(word)! : word);
+        return {
+            ...definition,
+            name,
+            body: substitute(definition.body),
+            bases: (definition.bases || []).map(base => ({ ...base, name: this.canonicalTypeName(substitute(base.name)) })),
+            templateParameters: undefined,
+            specializationArgs: undefined
+        };
+    }
+
+    // Suit la pile de "#pragma pack" dans l'ordre du texte
+    private findPackDirectives(text: string): Array<{ index: number; state?: PackState }> {
+        const directives: Array<{ index: number; state?: PackState }> = [];
+        const stack: Array<PackState | undefined> = [];
+        let current: PackState | undefined;
+
+        const pragmaRegex = /^[ \t]*#[ \t]*pragma[ \t]+pack[ \t]*\(([^)]*)\)/gm;
+
+        let match;
+        while ((match = pragmaRegex.exec(text)) !== null) {
+            const line = text.substring(0, match.index).split('\n').length;
+            const directive = `${match[0].trim().replace(/\s+/g, ' ')} (line ${line})`;
+            const args = match[1].split(',').map(arg => arg.trim()).filter(arg => arg.length > 0);
+            const value = args.find(arg => /^\d+$/.test(arg));
+
+            if (args[0] === 'push') {
+                stack.push(current);
+                if (value) {
+                    current = { value: parseInt(value), directive };
+                }
+            } else if (args[0] === 'pop') {
+                current = stack.length > 0 ? stack.pop() : undefined;
+                if (value) {
+                    current = { value: parseInt(value), directive };
+                }
+            } else if (value) {
+                current = { value: parseInt(value), directive };
+            } else {
+                // "#pragma pack()" rétablit l'alignement naturel
+                current = undefined;
+            }
+
+            directives.push({ index: match.index, state: current });
+        }
+
+        return directives;
+    }
+
+    private packStateAt(directives: Array<{ index: number; state?: PackState }>, index: number): PackState | undefined {
+        let state: PackState | undefined;
+        for (const directive of directives) {
+            if (directive.index > index) {
+                break;
+            }
+            state = directive.state;
+        }
+        return state;
+    }
+
+    // Retire les attributs de layout situés hors accolades et renvoie leur effet
+    private extractAttributes(text: string): { text: string; attributes: LayoutAttributes } {
+        const attributes: LayoutAttributes = { packed: false, directives: [] };
+        const attributeRegex = /__attribute__\s*\(|__declspec\s*\(|\b(?:_Alignas|alignas)\s*\(|\[\[/g;
+
+        let result = '';
+        let lastIndex = 0;
+        let match;
+        while ((match = attributeRegex.exec(text)) !== null) {
+            if (this.braceDepthAt(text, match.index) > 0) {
+                continue;
+            }
+
+            const isStandard = match[0] === '[[';
+            const endIndex = isStandard ? text.indexOf(']]', match.index) + 1 : this.findClosingParen(text, match.index + match[0].length - 1);
+            if (endIndex <= 0) {
+                break;
+            }
+
+            const directive = text.substring(match.index, endIndex + 1).replace(/\s+/g, ' ');
+            const content = isStandard ? directive.slice(2, -2) : directive.substring(directive.indexOf('(') + 1, directive.length - 1);
+
+            if (/^(?:_Alignas|alignas)/.test(directive)) {
+                const alignment = this.evaluateAlignment(content);
+                if (alignment !== null) {
+                    attributes.aligned = Math.max(attributes.aligned || 1, alignment);
+                    attributes.directives.push(directive);
+                }
+            } else {
+                let changed = false;
+                for (const item of this.splitTopLevel(content.replace(/^\(|\)$/g, ''))) {
+                    const name = item.replace(/^(?:gnu|msvc)::/, '').replace(/^__(\w+)__/, '$1');
+                    if (name === 'no_unique_address') {
+                        attributes.noUniqueAddress = true;
+                        changed = true;
+                    }
+                    if (name === 'packed') {
+                        attributes.packed = true;
+                        changed = true;
+                    }
+                    const alignedMatch = /^(?:aligned|align)\s*(?:\((.*)\))?$/.exec(name);
+                    if (alignedMatch) {
+                        const alignment = alignedMatch[1] !== undefined ? this.evaluateAlignment(alignedMatch[1]) : this.typeProvider.getBiggestAlignment();
+                        if (alignment !== null) {
+                            attributes.aligned = Math.max(attributes.aligned || 1, alignment);
+                            changed = true;
+                        }
+                    }
+                }
+                if (changed) {
+                    attributes.directives.push(directive);
+                }
+            }
+
+            result += text.substring(lastIndex, match.index) + ' ';
+            lastIndex = endIndex + 1;
+            attributeRegex.lastIndex = lastIndex;
+        }
+
+        return { text: result + text.substring(lastIndex), attributes };
+    }
+
+    private mergeAttributes(first: LayoutAttributes, second: LayoutAttributes): LayoutAttributes {
+        const aligned = first.aligned || second.aligned ? Math.max(first.aligned || 1, second.aligned || 1) : undefined;
+        return {
+            packed: first.packed || second.packed,
+            aligned,
+            noUniqueAddress: first.noUniqueAddress || second.noUniqueAddress,
+            directives: [...first.directives, ...second.directives]
+        };
+    }
+
+    // "8", "16" ou un type : alignas(double)
+    private evaluateAlignment(expression: string): number | null {
+        const trimmed = expression.trim();
+        if (/^\d+$/.test(trimmed)) {
+            return parseInt(trimmed);
+        }
+        return this.typeProvider.getAlignment(trimmed.replace(/\s+/g, ' '));
+    }
+
+    // typedef unsigned long size_type, *size_ptr; typedef void (*cb_t)(int); using Handle = uint32_t*;
+    private findAliases(text: string): Map<string, AliasDefinition> {
+        const aliases = new Map<string, AliasDefinition>();
+
+        const typedefRegex = /\btypedef\b([^;{}]*);/g;
+        let match;
+        while ((match = typedefRegex.exec(text)) !== null) {
+            // Mêmes déclarateurs qu'un membre : "void (*cb_t)(int)", "int row_t[4], *prow_t" ;
+            // un type fonction sans pointeur n'a pas de taille
+            for (const member of this.parseMembers(`${match[1]};`)) {
+                if (!member.unparsed && member.name) {
+                    aliases.set(member.name, { name: member.name, target: member.type, dimensions: member.dimensions });
+                }
+            }
+        }
+
+        const usingRegex = /\busing\s+(\w+)\s*=\s*([^;{}]+);/g;
+        while ((match = usingRegex.exec(text)) !== null) {
+            const target = match[2].trim();
+            const arrayMatch = /^(.+?)\s*((?:\[[^\]]*\]\s*)+)$/.exec(target);
+            if (arrayMatch) {
+                aliases.set(match[1], { name: match[1], target: arrayMatch[1], dimensions: this.splitDimensions(arrayMatch[2]) });
+            } else {
+                // "void(*)(int)" est un pointeur de fonction
+                aliases.set(match[1], { name: match[1], target: target.replace(/\(\s*\*\s*\)\s*\(.*\)$/s, ' (*)()') });
+            }
+        }
+
+        return aliases;
+    }
+
+    private resolveAlias(name: string, context: AnalysisContext): TypeAlias {
+        const chain = [name];
+        const visited = new Set([name]);
+        let arraySize: number | undefined;
+        let finalType = name;
+        let current = context.aliases.get(name);
+
+        // Suivre la chaîne tant que la cible est elle-même un alias (sans pointeur)
+        while (current) {
+            const target = this.cleanType(current.target);
+            if (visited.has(target)) {
+                break; // Cycle
+            }
+            visited.add(target);
+            finalType = target;
+
+            if (current.dimensions) {
+                const dimensions = this.evaluateDimensions(current.dimensions, context);
+                arraySize = dimensions ? (arraySize || 1) * this.product(dimensions) : arraySize;
+                chain.push(`${target}${(dimensions || current.dimensions).map(dimension => `[${dimension}]`).join('')}`);
+            } else {
+                chain.push(target);
+            }
+            current = target.includes('*') ? undefined : context.aliases.get(target);
+        }
+
+        const typeInfo = this.getTypeInfo({ type: name, name }, this.emptyDefinition(), context);
+        const recordMatch = /^(?:struct\s+|union\s+|class\s+)?(\w+)$/.exec(finalType);
+        const recordName = recordMatch && context.definitions.has(recordMatch[1]) && !finalType.includes('*') ? recordMatch[1] : undefined;
+
+        return {
+            name,
+            chain,
+            size: typeInfo && typeInfo.unresolvedTypes.length === 0 ? typeInfo.size : null,
+            alignment: typeInfo && typeInfo.unresolvedTypes.length === 0 ? typeInfo.alignment : null,
+            arraySize,
+            recordName
+        };
+    }
+
+    private emptyDefinition(): RecordDefinition {
+        return { name: '', kind: 'struct', body: '', attributes: { packed: false, directives: [] } };
+    }
+
+    // Valeur de chaque énumérateur, sous forme d'expression : "B" vaut "(A) + 1"
+    private findEnumConstants(text: string): Map<string, string> {
+        const constants = new Map<string, string>();
+        const enumRegex = /\benum\b[^{;()]*\{([^}]*)\}/g;
+
+        let match;
+        while ((match = enumRegex.exec(text)) !== null) {
+            let previous: string | undefined;
+            for (const enumerator of this.splitTopLevel(match[1])) {
+                const enumeratorMatch = /^(\w+)\s*(?:=\s*([\s\S]+))?$/.exec(enumerator);
+                if (!enumeratorMatch) {
+                    break;
+                }
+
+                const value = enumeratorMatch[2] ? enumeratorMatch[2].trim() : previous ? `(${previous}) + 1` : '0';
+                constants.set(enumeratorMatch[1], value);
+                previous = enumeratorMatch[1];
+            }
+        }
+
+        return constants;
+    }
+
+    private findEnums(text: string): Map<string, string> {
+        const enums = new Map<string, string>();
+
+        // enum [class] Nom [: type_sous_jacent] { ... } [Alias];
+        const enumRegex = /\b(typedef\s+)?enum\s+(?:class\s+|struct\s+)?(\w+)?\s*(?::\s*([\w\s]+?))?\s*\{[^}]*\}\s*(\w+)?/g;
+
+        let match;
+        while ((match = enumRegex.exec(text)) !== null) {
+            // Par défaut, un enum a la taille d'un int
+            const underlyingType = match[3] ? match[3].trim() : 'int';
+            if (match[2]) {
+                enums.set(match[2], underlyingType);
+            }
+            if (match[1] && match[4]) {
+                enums.set(match[4], underlyingType);
+            }
+        }
+
+        return enums;
+    }
+
+    // Définition d'une clé donnée par recordKey : "Inner", ou nom complet "ns::Outer::Inner"
+    private findDefinition(key: string, context: AnalysisContext): RecordDefinition | undefined {
+        return key.includes('::') ? context.qualifiedDefinitions.get(key) : context.definitions.get(key);
+    }
+
+    // Clé du record que "name" ("Inner", "inner::Deep", "Box<int>") désigne depuis scope : comme en C++,
+    // la portée la plus proche d'abord, puis chaque portée englobante et enfin la portée globale.
+    // Un nom qu'aucune portée ne voit (C, "using namespace") n'est retenu que s'il ne désigne qu'un
+    // seul record : ambigu, il reste non résolu plutôt que de donner la taille d'un autre type
+    private recordKey(name: string, scope: string[], context: AnalysisContext): string | undefined {
+        const instance = /^((?:\w+::)*\w+)\s*(<[\s\S]*>)$/.exec(name);
+        if (instance) {
+            const key = this.recordKey(instance[1], scope, context);
+            return key ? key + instance[2] : undefined;
+        }
+
+        for (let depth = scope.length; depth > 0; depth--) {
+            const key = [...scope.slice(0, depth), name].join('::');
+            if (context.qualifiedDefinitions.has(key)) {
+                return key;
+            }
+        }
+        if (name.includes('::')) {
+            return context.qualifiedDefinitions.has(name) ? name : undefined;
+        }
+
+        const definition = context.definitions.get(name);
+        // En C, une struct déclarée dans une autre est visible de tout le fichier
+        if (definition && (!context.isCpp || this.isGlobalDefinition(definition))) {
+            return name;
+        }
+        const candidates = [...context.qualifiedDefinitions.keys()].filter(key => key.endsWith(`::${name}`));
+        if (candidates.length > 1) {
+            return undefined;
+        }
+        return candidates.length === 1 ? candidates[0] : definition ? name : undefined;
+    }
+
+    // Clé d'une définition lue par findRecordDefinitions : son nom complet si elle est dans une portée nommée
+    private keyOf(definition: RecordDefinition, context: AnalysisContext): string {
+        const key = [...(definition.scope || []).slice(0, -1), definition.name].join('::');
+        return context.qualifiedDefinitions.has(key) ? key : definition.name;
+    }
+
+    // Record déclaré hors de tout namespace et de tout autre record
+    private isGlobalDefinition(definition: RecordDefinition): boolean {
+        return !definition.scope || definition.scope.length <= 1;
+    }
+
+    private resolveRecord(name: string, context: AnalysisContext): StructInfo | null {
+        if (context.resolved.has(name)) {
+            return context.resolved.get(name) || null;
+        }
+
+        // Instances imbriquées trop profondément : la taille reste inconnue plutôt que de dépasser la pile
+        if (name.includes('<') && context.resolving.size >= StructAnalyzer.maxInstantiationDepth) {
+            return null;
+        }
+
+        const definition = name.includes('<') ? this.instantiateTemplate(name, context) : this.findDefinition(name, context);
+        if (!definition || definition.templateParameters) {
+            return null;
+        }
+
+        // Une struct qui se contient elle-même par valeur ne peut pas avoir de taille
+        if (context.resolving.has(name)) {
+            return null;
+        }
+
+        context.resolving.add(name);
+        const structInfo = this.calculateStructSize(name, definition, context);
+        context.resolving.delete(name);
+
+        context.resolved.set(name, structInfo);
+        return structInfo;
+    }
+
+    private calculateStructSize(name: string, definition: RecordDefinition, context: AnalysisContext): StructInfo | null {
+        const kind = definition.kind;
+        const members = this.parseMembers(definition.body);
+        // En C, une struct sans membre n'a pas de taille standard ; en C++ elle occupe un octet
+        if (members.length === 0 && !context.isCpp) {
+            return null;
+        }
+
+        const bitfieldLayout = this.typeProvider.getBitfieldLayout();
+
+        // Position courante en bits, pour pouvoir placer les bitfields
+        let bitCursor = 0;
+        let unionSize = 0;
+        let maxAlignment = 1;
+        const layout: MemberLayout[] = [];
+        const unresolvedTypes: string[] = [];
+        const layoutDirectives = new Set<string>();
+        let dominantMember: MemberLayout | undefined;
+
+        // Unité de stockage MSVC en cours de remplissage
+        let msvcUnit: { offset: number; size: number; usedBits: number } | null = null;
+
+        // C++ (ABI Itanium) : vptr et sous-objets des bases, placés avant les membres propres
+        const topLevel = this.topLevelText(definition.body);
+        const baseLayouts: BaseClassLayout[] = [];
+        const inheritedMembers: MemberLayout[] = [];
+        // Deux sous-objets vides du même type ne peuvent pas partager une adresse
+        const emptySubobjects: Array<{ type: string; offset: number }> = [];
+        let minimumSize = 0;
+        let vptrOffset: number | undefined;
+        let membersPod = true;
+
+        const knownBases: Array<{ base: BaseSpecifier; info: StructInfo; traits: ClassTraits }> = [];
+        for (const written of kind === 'struct' ? definition.bases || [] : []) {
+            const base = { ...written, name: this.recordKey(written.name, definition.scope || [], context) || written.name };
+            const info = this.resolveRecord(base.name, context);
+            const traits = context.traits.get(base.name);
+            if (info && traits) {
+                knownBases.push({ base, info, traits });
+                unresolvedTypes.push(...info.unresolvedTypes);
+            } else {
+                unresolvedTypes.push(base.name);
+            }
+        }
+
+        const virtualBases = knownBases
+            .reduce((names: string[], { base, traits }) => names.concat(traits.virtualBases, base.isVirtual ? [base.name] : []), [])
+            .filter((baseName, index, names) => names.indexOf(baseName) === index);
+        const isDynamic = kind === 'struct' && (/\bvirtual\b/.test(topLevel) || virtualBases.length > 0 || knownBases.some(({ traits }) => traits.isDynamic));
+
+        const placeBase = (baseName: string, info: StructInfo, traits: ClassTraits, isVirtual: boolean) => {
+            const start = Math.ceil(bitCursor / 8);
+            let offset: number;
+            if (traits.isEmpty) {
+                // Empty base optimization : à l'offset 0 sauf conflit avec un sous-objet du même type
+                offset = this.placeEmptySubobject(baseName, start, traits.nonVirtualAlignment, emptySubobjects, true);
+                minimumSize = Math.max(minimumSize, offset + info.totalSize);
+            } else {
+                offset = this.alignTo(start, traits.nonVirtualAlignment);
+                // Le padding final d'une base non POD peut accueillir les membres suivants
+                bitCursor = (offset + (traits.isPod ? info.totalSize : traits.nonVirtualSize)) * 8;
+            }
+            maxAlignment = Math.max(maxAlignment, traits.nonVirtualAlignment);
+
+            const size = traits.isEmpty ? 0 : isVirtual || traits.virtualBases.length === 0 ? info.totalSize : traits.nonVirtualSize;
+            baseLayouts.push({ name: baseName, offset, size, isVirtual, isEmpty: traits.isEmpty });
+
+            // Les bases virtuelles d'une base sont placées à part, par la classe la plus dérivée
+            for (const member of [...(info.inheritedMembers || []), ...info.members]) {
+                if (isVirtual || member.offset < traits.nonVirtualSize) {
+                    inheritedMembers.push({ ...member, offset: member.offset + offset, inheritedFrom: member.inheritedFrom || baseName });
+                }
+            }
+        };
+
+        // La première base dynamique non virtuelle (base primaire) partage son vptr
+        const primary = knownBases.find(({ base, traits }) => !base.isVirtual && traits.isDynamic);
+        if (isDynamic && !primary) {
+            vptrOffset = 0;
+            bitCursor = this.typeProvider.getPointerSize() * 8;
+            maxAlignment = this.typeProvider.getPointerAlignment();
+        }
+
+        const nonVirtualBases = knownBases.filter(({ base }) => !base.isVirtual);
+        for (const { base, info, traits } of primary ? [primary, ...nonVirtualBases.filter(entry => entry !== primary)] : nonVirtualBases) {
+            placeBase(base.name, info, traits, false);
+        }
+
+        for (const member of members) {
+            if (member.unparsed) {
+                unresolvedTypes.push(member.type);
+                continue;
+            }
+
+            const typeInfo = this.getTypeInfo(member, definition, context);
+            if (!typeInfo) {
+                unresolvedTypes.push(member.type);
+                continue;
+            }
+
+            unresolvedTypes.push(...typeInfo.unresolvedTypes);
+
+            const alignment = this.effectiveAlignment(typeInfo.alignment, member, definition, layoutDirectives);
+            let memberLayout: MemberLayout;
+
+            if (member.bitWidth !== undefined) {
+                const width = member.bitWidth;
+                if (width > typeInfo.size * 8) {
+                    unresolvedTypes.push(`${member.type} : ${width}`);
+                    continue;
+                }
+
+                if (kind === 'union') {
+                    if (width === 0) {
+                        continue;
+                    }
+                    const size = bitfieldLayout === 'msvc' ? typeInfo.size : Math.ceil(width / 8);
+                    memberLayout = { name: member.name, type: member.type, offset: 0, size, alignment, paddingBefore: 0, bitOffset: 0, bitWidth: width };
+                    if (bitfieldLayout === 'msvc' || member.name) {
+                        maxAlignment = Math.max(maxAlignment, alignment);
+                    }
+                } else if (bitfieldLayout === 'msvc') {
+                    // MSVC : une unité de la taille du type déclaré, partagée seulement entre types de même taille
+                    // Après un bitfield, ":0" aligne la suite sur son propre type, qui compte dans l'alignement de la structure ; ignoré sinon
+                    if (width === 0) {
+                        if (msvcUnit) {
+                            bitCursor = this.alignTo(Math.ceil(bitCursor / 8), alignment) * 8;
+                            maxAlignment = Math.max(maxAlignment, alignment);
+                        }
+                        msvcUnit = null;
+                        continue;
+                    }
+
+                    let paddingBefore = 0;
+                    if (!msvcUnit || msvcUnit.size !== typeInfo.size || msvcUnit.usedBits + width > typeInfo.size * 8) {
+                        const start = Math.ceil(bitCursor / 8);
+                        const offset = this.alignTo(start, alignment);
+                        msvcUnit = { offset, size: typeInfo.size, usedBits: 0 };
+                        paddingBefore = offset - start;
+                        bitCursor = (offset + typeInfo.size) * 8;
+                    }
+
+                    memberLayout = { name: member.name, type: member.type, offset: msvcUnit.offset, size: typeInfo.size, alignment, paddingBefore, bitOffset: msvcUnit.usedBits, bitWidth: width };
+                    msvcUnit.usedBits += width;
+                    maxAlignment = Math.max(maxAlignment, alignment);
+                } else {
+                    // SysV : un bitfield ne chevauche jamais une frontière d'alignement de son type
+                    const alignmentBits = alignment * 8;
+                    if (width === 0) {
+                        bitCursor = this.alignTo(bitCursor, alignmentBits);
+                        continue;
+                    }
+
+                    // Un bitfield compacté peut chevaucher les octets librement
+                    let start = bitCursor;
+                    if (alignment >= typeInfo.alignment && Math.floor(start / alignmentBits) !== Math.floor((start + width - 1) / alignmentBits)) {
+                        start = this.alignTo(start, alignmentBits);
+                    }
+
+                    const unitOffset = Math.floor(start / alignmentBits) * alignment;
+                    memberLayout = {
+                        name: member.name,
+                        type: member.type,
+                        offset: unitOffset,
+                        size: typeInfo.size,
+                        alignment,
+                        paddingBefore: Math.max(0, Math.floor(start / 8) - Math.ceil(bitCursor / 8)),
+                        bitOffset: start - unitOffset * 8,
+                        bitWidth: width
+                    };
+                    bitCursor = start + width;
+
+                    // Les bitfields sans nom n'influencent pas l'alignement de la structure
+                    if (member.name) {
+                        maxAlignment = Math.max(maxAlignment, alignment);
+                    }
+                }
+            } else {
+                msvcUnit = null;
+
+                // Membre tableau flexible "char data[];" : aucun élément, mais l'alignement du type compte
+                const flexible = member.dimensions !== undefined && member.dimensions.length > 0 && member.dimensions[0].trim() === '';
+                const declared = member.dimensions && flexible ? ['0', ...member.dimensions.slice(1)] : member.dimensions;
+                const dimensions = declared ? this.evaluateDimensions(declared, context) : [];
+                if (!dimensions) {
+                    unresolvedTypes.push(`${member.type} ${member.name}${member.dimensions!.map(dimension => `[${dimension}]`).join('')}`);
+                    continue;
+                }
+
+                const arraySize = member.dimensions ? this.product(dimensions) : undefined;
+                let memberSize = typeInfo.size * (arraySize === undefined ? 1 : arraySize);
+                maxAlignment = Math.max(maxAlignment, alignment);
+
+                const recordName = this.recordNameOf(member, definition, context);
+                const memberTraits = recordName ? context.traits.get(recordName) : undefined;
+                const noUniqueAddress = member.attributes !== undefined && member.attributes.noUniqueAddress === true && memberTraits !== undefined;
+                // Seul std::array est un agrégat POD parmi les types de la bibliothèque standard
+                const standard = this.standardType(this.cleanType(member.type), context);
+                if ((memberTraits && !memberTraits.isPod) || (standard && standard.name !== 'array' && !member.type.includes('*'))) {
+                    membersPod = false;
+                }
+
+                // Dans une union, tous les membres commencent à l'offset 0
+                const start = Math.ceil(bitCursor / 8);
+                let offset = kind === 'union' ? 0 : this.alignTo(start, alignment);
+                if (kind !== 'union' && recordName && memberTraits && memberTraits.isEmpty && arraySize === undefined) {
+                    offset = this.placeEmptySubobject(recordName, start, alignment, emptySubobjects, noUniqueAddress);
+                }
+
+                // [[no_unique_address]] : un membre vide ne prend pas de place, un membre non POD prête son padding final
+                let occupiedSize = memberSize;
+                if (noUniqueAddress && memberTraits) {
+                    occupiedSize = memberTraits.isEmpty ? 0 : memberTraits.isPod ? memberSize : memberTraits.dataSize;
+                    memberSize = memberTraits.isEmpty ? 0 : memberSize;
+                }
+
+                memberLayout = {
+                    name: member.name,
+                    type: member.type,
+                    offset,
+                    size: memberSize,
+                    alignment,
+                    paddingBefore: kind === 'union' ? 0 : Math.max(0, offset - start),
+                    arraySize,
+                    dimensions: member.dimensions ? dimensions : undefined
+                };
+
+                if (kind !== 'union') {
+                    bitCursor = Math.max(bitCursor, (offset + occupiedSize) * 8);
+                }
+            }
+
+            layout.push(memberLayout);
+            if (kind === 'union') {
+                if (!dominantMember || memberLayout.size > dominantMember.size) {
+                    dominantMember = memberLayout;
+                }
+                unionSize = Math.max(unionSize, memberLayout.size);
+            }
+        }
+
+        // Bases virtuelles : placées une seule fois, après la partie non virtuelle
+        const dataSizeBeforeVirtualBases = Math.ceil(bitCursor / 8);
+        const nonVirtualAlignment = Math.max(maxAlignment, definition.attributes.aligned || 1);
+        for (const baseName of virtualBases) {
+            const info = this.resolveRecord(baseName, context);
+            const traits = context.traits.get(baseName);
+            if (info && traits) {
+                placeBase(baseName, info, traits, true);
+            }
+        }
+
+        // aligned(N) sur la structure ne peut qu'augmenter son alignement
+        const structAlignment = definition.attributes.aligned;
+        if (structAlignment && structAlignment > maxAlignment) {
+            maxAlignment = structAlignment;
+            definition.attributes.directives
+                .filter(directive => /align/i.test(directive))
+                .forEach(directive => layoutDirectives.add(directive));
+        }
+
+        // Alignement final de la structure ; un objet C++ occupe au moins un octet
+        const dataSize = Math.ceil(bitCursor / 8);
+        const unpaddedSize = kind === 'union' ? unionSize : Math.max(dataSize, minimumSize);
+        const totalSize = Math.max(this.alignTo(unpaddedSize, maxAlignment), context.isCpp ? 1 : 0);
+
+        const hasNonPublicData = /\b(?:private|protected)\s*:/.test(topLevel) || (definition.isClass === true && !/^\s*public\s*:/.test(topLevel));
+        context.traits.set(name, {
+            dataSize: kind === 'union' ? unionSize : dataSize,
+            nonVirtualSize: kind === 'union' ? unionSize : dataSizeBeforeVirtualBases,
+            nonVirtualAlignment,
+            isEmpty: !isDynamic && unresolvedTypes.length === 0 && knownBases.every(({ traits }) => traits.isEmpty) && layout.every(member => member.size === 0),
+            isDynamic,
+            isPod: membersPod && knownBases.length === 0 && !isDynamic && !hasNonPublicData && !this.hasUserSpecialMembers(name, topLevel),
+            virtualBases
+        });
+
+        return {
+            name,
+            kind,
+            totalSize,
+            alignment: maxAlignment,
+            members: layout,
+            trailingPadding: totalSize - unpaddedSize,
+            unresolvedTypes,
+            dominantMember: dominantMember ? dominantMember.name : undefined,
+            layoutDirectives: Array.from(layoutDirectives),
+            bases: baseLayouts.length > 0 ? baseLayouts : undefined,
+            inheritedMembers: inheritedMembers.length > 0 ? inheritedMembers : undefined,
+            vptrOffset
+        };
+    }
+
+    // Premier offset possible pour un sous-objet vide : 0 si autorisé, sinon à partir de start
+    private placeEmptySubobject(type: string, start: number, alignment: number, emptySubobjects: Array<{ type: string; offset: number }>, allowOverlap: boolean): number {
+        let offset = allowOverlap ? 0 : this.alignTo(start, alignment);
+        while (emptySubobjects.some(subobject => subobject.type === type && subobject.offset === offset)) {
+            offset = offset < start ? this.alignTo(start, alignment) : offset + alignment;
+        }
+        emptySubobjects.push({ type, offset });
+        return offset;
+    }
+
+    // Nom de la struct/classe d'un membre stocké par valeur
+    private recordNameOf(member: ParsedMember, parent: RecordDefinition, context: AnalysisContext): string | undefined {
+        if (member.nested || this.maskTemplateArguments(member.type).includes('*')) {
+            return undefined;
+        }
+        const match = /^(?:struct\s+|class\s+)?((?:\w+::)*\w+(?:\s*<[\s\S]*>)?)$/.exec(this.cleanType(member.type).replace(/^::/, ''));
+        return match ? this.recordKey(this.canonicalTypeName(match[1]), parent.scope || [], context) : undefined;
+    }
+
+    // Constructeur, destructeur ou affectation déclarés : la classe n'est pas POD
+    private hasUserSpecialMembers(name: string, topLevel: string): boolean {
+        if (/\boperator\s*=\s*\(/.test(topLevel)) {
+            return true;
+        }
+        return /^\w+$/.test(name) && new RegExp(`(?:^|[^\\w:])~?\\s*${name}\\s*\\(`).test(topLevel);
+    }
+
+    // Alignement naturel, réduit par packed / #pragma pack puis augmenté par aligned(N) / alignas
+    private effectiveAlignment(natural: number, member: ParsedMember, definition: RecordDefinition, layoutDirectives: Set<string>): number {
+        let alignment = natural;
+        const memberAttributes = member.attributes || { packed: false, directives: [] };
+
+        if (memberAttributes.packed || definition.attributes.packed) {
+            if (alignment > 1) {
+                const directives = memberAttributes.packed ? memberAttributes.directives : definition.attributes.directives;
+                const directive = directives.find(text => /packed/.test(text)) || 'packed';
+                layoutDirectives.add(memberAttributes.packed ? `${directive} on ${member.name}` : directive);
+            }
+            alignment = 1;
+        }
+
+        if (definition.pack && definition.pack.value < alignment) {
+            alignment = definition.pack.value;
+            layoutDirectives.add(definition.pack.directive);
+        }
+
+        if (memberAttributes.aligned && memberAttributes.aligned > alignment) {
+            alignment = memberAttributes.aligned;
+            const directive = memberAttributes.directives.find(text => /align/i.test(text)) || `aligned(${alignment})`;
+            layoutDirectives.add(`${directive} on ${member.name}`);
+        }
+
+        return alignment;
+    }
+
+    private parseMembers(body: string): ParsedMember[] {
+        const members: ParsedMember[] = [];
+
+        for (const node of this.memberNodesOf(body)) {
+            const attributes = this.extractAttributes(node.attributes.join(' ')).attributes;
+
+            if (node.kind === 'unparsed') {
+                members.push({ type: node.typeText, name: '', unparsed: true });
+            } else if (node.kind === 'field' || node.kind === 'enum') {
+                // Les enums imbriqués n'occupent de la place que s'ils déclarent un membre
+                members.push(...this.withAttributes(node.declarators.map(declarator => this.declaratorMember(node.typeText, declarator)), attributes));
+            } else if (node.kind === 'record' && node.record) {
+                members.push(...this.nestedRecordMembers(node, body, attributes));
+            }
+        }
+
+        return members;
+    }
+
+    // Struct/union imbriquée : "struct { ... } a, b;" ou "union Name { ... };"
+    private nestedRecordMembers(node: MemberNode, body: string, attributes: LayoutAttributes): ParsedMember[] {
+        const record = node.record!;
+        const header = this.extractAttributes(record.header);
+        const typeName = record.name ? `${record.keyword} ${record.name}` : `${record.keyword} (anonymous)`;
+
+        // Avec des bases, le type est résolu par son nom comme les autres définitions
+        const nested = /^\s*(\w+)?\s*$/.test(header.text)
+            ? { kind: (record.keyword === 'union' ? 'union' : 'struct') as RecordKind, body: body.substring(record.bodyStart, record.bodyEnd), attributes: header.attributes }
+            : undefined;
+
+        if (node.declarators.length > 0) {
+            return this.withAttributes(node.declarators.map(declarator => this.declaratorMember(typeName, declarator, nested)), attributes);
+        }
+        // Membre anonyme : ses champs font partie de l'objet englobant
+        return record.name ? [] : [{ type: typeName, name: '(anonymous)', nested }];
+    }
+
+    private withAttributes(members: ParsedMember[], attributes: LayoutAttributes): ParsedMember[] {
+        if (attributes.packed || attributes.aligned || attributes.noUniqueAddress) {
+            members.forEach(member => member.attributes = attributes);
+        }
+        return members;
+    }
+
+    private declaratorMember(baseType: string, declarator: DeclaratorNode, nested?: { kind: RecordKind; body: string; attributes: LayoutAttributes }): ParsedMember {
+        if (declarator.bitWidth !== undefined) {
+            if (!/^\d+$/.test(declarator.bitWidth)) {
+                return { type: `${baseType} ${declarator.name} : ${declarator.bitWidth}`, name: '', unparsed: true };
+            }
+            return { type: baseType, name: declarator.name, bitWidth: parseInt(declarator.bitWidth) };
+        }
+
+        const type = declarator.functionPointer ? `${baseType} (*)()` : `${baseType}${declarator.pointer}`;
+        return {
+            type,
+            name: declarator.name,
+            dimensions: declarator.dimensions.length > 0 ? declarator.dimensions : undefined,
+            nested: declarator.pointer ? undefined : nested
+        };
+    }
+
+    // "[MAX + 1][4]" -> ["MAX + 1", "4"]
+    private splitDimensions(text: string): string[] {
+        return (text.match(/\[[^\]]*\]/g) || []).map(dimension => dimension.substring(1, dimension.length - 1).trim());
+    }
+
+    // Valeur de chaque dimension, ou null si l'une n'est pas une constante connue
+    private evaluateDimensions(dimensions: string[], context: AnalysisContext): number[] | null {
+        const evaluator = this.createEvaluator(context);
+        const values: number[] = [];
+
+        for (const dimension of dimensions) {
+            const value = evaluator.evaluate(dimension);
+            if (value === null || value < 0 || !Number.isInteger(value)) {
+                return null;
+            }
+            values.push(value);
+        }
+
+        return values;
+    }
+
+    private createEvaluator(context: AnalysisContext): ConstantEvaluator {
+        const layoutOf = (type: string) => {
+            const typeInfo = this.getTypeInfo({ type, name: '' }, this.emptyDefinition(), context);
+            return typeInfo && typeInfo.unresolvedTypes.length === 0 ? typeInfo : null;
+        };
+
+        return new ConstantEvaluator(
+            identifier => context.macros.has(identifier) ? context.macros.get(identifier) : context.constants.get(identifier),
+            type => {
+                const layout = layoutOf(type);
+                return layout ? layout.size : null;
+            },
+            type => {
+                const layout = layoutOf(type);
+                return layout ? layout.alignment : null;
+            },
+            (type, member) => this.memberOffset(type, member, context)
+        );
+    }
+
+    // offsetof(type, designator) : "flags", "header.flags", "data[3]"
+    private memberOffset(type: string, designator: string, context: AnalysisContext): number | null {
+        let structInfo = this.resolveRecordType(type, context);
+        let offset = 0;
+
+        for (const part of designator.split('.')) {
+            const match = /^(\w+)((?:\[\d+\])*)$/.exec(part);
+            const member = match && structInfo
+                ? [...(structInfo.inheritedMembers || []), ...structInfo.members].find(candidate => candidate.name === match[1])
+                : undefined;
+            // offsetof n'est pas défini pour un bitfield
+            if (!match || !structInfo || structInfo.unresolvedTypes.length > 0 || !member || member.bitWidth !== undefined) {
+                return null;
+            }
+
+            offset += member.offset;
+            const indexes = (match[2].match(/\d+/g) || []).map(index => parseInt(index, 10));
+            if (indexes.length > 0) {
+                const dimensions = member.dimensions || [];
+                if (indexes.length > dimensions.length) {
+                    return null;
+                }
+                // Indices d'un tableau multidimensionnel : la taille d'un élément divise celle du tableau
+                let stride = member.size;
+                for (let i = 0; i < indexes.length; i++) {
+                    stride /= dimensions[i];
+                    offset += indexes[i] * stride;
+                }
+            }
+
+            structInfo = this.resolveRecordType(member.type, context);
+        }
+
+        return offset;
+    }
+
+    // Struct nommée directement ou au bout d'une chaîne d'alias
+    private resolveRecordType(type: string, context: AnalysisContext): StructInfo | null {
+        const name = this.canonicalTypeName(this.cleanType(type)).replace(/^(?:struct|union|class)\s+/, '');
+        const key = this.recordKey(name, [], context);
+        if (key) {
+            return this.resolveRecord(key, context);
+        }
+        if (context.aliases.has(name)) {
+            const alias = this.resolveAlias(name, context);
+            return alias.recordName && alias.arraySize === undefined ? this.resolveRecord(alias.recordName, context) : null;
+        }
+        return null;
+    }
+
+    private product(values: number[]): number {
+        return values.reduce((total, value) => total * value, 1);
+    }
+
+    private getTypeInfo(member: ParsedMember, parent: RecordDefinition, context: AnalysisContext): {size: number, alignment: number, unresolvedTypes: string[]} | null {
+        const type = member.type;
+
+        // Gérer les pointeurs ("std::vector<int*>" n'en est pas un)
+        if (this.maskTemplateArguments(type).includes('*')) {
+            return { size: this.typeProvider.getPointerSize(), alignment: this.typeProvider.getPointerAlignment(), unresolvedTypes: [] };
+        }
+
+        // Struct/union imbriquée : calculée comme un sous-objet
+        if (member.nested) {
+            // Le #pragma pack de la structure englobante s'applique aussi au sous-objet
+            const nestedDefinition: RecordDefinition = { name: type, ...member.nested, pack: parent.pack, scope: parent.scope };
+            const nestedInfo = this.calculateStructSize(type, nestedDefinition, context);
+            if (!nestedInfo) {
+                return null;
+            }
+            return { size: nestedInfo.totalSize, alignment: nestedInfo.alignment, unresolvedTypes: nestedInfo.unresolvedTypes };
+        }
+
+        const normalizedType = this.cleanType(type);
+
+        const size = this.typeProvider.getMemorySize(normalizedType);
+        const alignment = this.typeProvider.getAlignment(normalizedType);
+
+        if (size !== null && alignment !== null) {
+            return { size, alignment, unresolvedTypes: [] };
+        }
+
+        // Enums : type sous-jacent déclaré, sinon int
+        const enumMatch = /^(?:enum\s+)?(\w+)$/.exec(normalizedType);
+        if (enumMatch && (normalizedType.startsWith('enum ') || context.enums.has(enumMatch[1]))) {
+            const underlyingType = context.enums.get(enumMatch[1]) || 'int';
+            const enumSize = this.typeProvider.getMemorySize(underlyingType);
+            const enumAlignment = this.typeProvider.getAlignment(underlyingType);
+            if (enumSize === null || enumAlignment === null) {
+                return null;
+            }
+            return { size: enumSize, alignment: enumAlignment, unresolvedTypes: [] };
+        }
+
+        // Struct, union ou classe définie dans le document, éventuellement qualifiée : "ns::Inner"
+        const recordMatch = /^(?:struct\s+|union\s+|class\s+)?((?:\w+::)*\w+)$/.exec(normalizedType.replace(/^::/, ''));
+        const recordKey = recordMatch ? this.recordKey(recordMatch[1], parent.scope || [], context) : undefined;
+        if (recordKey) {
+            const recordInfo = this.resolveRecord(recordKey, context);
+            if (recordInfo) {
+                return { size: recordInfo.totalSize, alignment: recordInfo.alignment, unresolvedTypes: recordInfo.unresolvedTypes };
+            }
+        }
+
+        // Alias typedef/using : on résout la cible, en se protégeant des cycles
+        const alias = context.aliases.get(normalizedType);
+        const aliasKey = `alias:${normalizedType}`;
+        if (alias && !context.resolving.has(aliasKey)) {
+            context.resolving.add(aliasKey);
+            const targetInfo = this.getTypeInfo({ type: alias.target, name: alias.name }, parent, context);
+            context.resolving.delete(aliasKey);
+
+            const dimensions = alias.dimensions ? this.evaluateDimensions(alias.dimensions, context) : [];
+            if (targetInfo && dimensions) {
+                return { ...targetInfo, size: targetInfo.size * this.product(dimensions) };
+            }
+        }
+
+        // Instance d'un template de classe du document : "Buffer<uint8_t, 16>"
+        const instanceMatch = /^(?:struct\s+|class\s+)?((?:\w+::)*\w+\s*<[\s\S]*>)$/.exec(normalizedType);
+        const instanceKey = instanceMatch ? this.recordKey(this.canonicalTypeName(instanceMatch[1]), parent.scope || [], context) : undefined;
+        if (instanceKey) {
+            const instanceInfo = this.resolveRecord(instanceKey, context);
+            if (instanceInfo) {
+                return { size: instanceInfo.totalSize, alignment: instanceInfo.alignment, unresolvedTypes: instanceInfo.unresolvedTypes };
+            }
+        }
+
+        // Types de la bibliothèque standard, selon la bibliothèque de la cible
+        const standard = this.standardType(normalizedType, context);
+        if (standard) {
+            const evaluator = this.createEvaluator(context);
+            const args: TemplateArgument[] = standard.args.map(text => {
+                const argumentInfo = this.getTypeInfo({ type: text, name: '' }, this.emptyDefinition(), context);
+                const layout = argumentInfo && argumentInfo.unresolvedTypes.length === 0 ? { size: argumentInfo.size, alignment: argumentInfo.alignment } : null;
+                return { text, layout, value: layout ? null : evaluator.evaluate(text) };
+            });
+
+            const layout = standardTypeLayout(standard.name, args, this.typeProvider.getStandardLayoutContext());
+            if (layout) {
+                return { ...layout, unresolvedTypes: [] };
+            }
+        }
+
+        return null;
+    }
+
+    // "std::map<int, int>" -> map, ["int", "int"] ; sans "std::" seulement en C++ (using namespace std)
+    private standardType(type: string, context: AnalysisContext): { name: string; args: string[] } | null {
+        const match = /^(std::)?(\w+)\s*(?:<([\s\S]*)>)?$/.exec(type);
+        if (!match || !standardTypeNames.includes(match[2]) || (!match[1] && !context.isCpp)) {
+            return null;
+        }
+        if (match[3] === undefined && !standardPlainTypes.includes(match[2])) {
+            return null;
+        }
+        return { name: match[2], args: match[3] !== undefined && match[3].trim().length > 0 ? this.splitTopLevel(match[3], true) : [] };
+    }
+
+    // Type et déclaration affichée d'une variable lue par DeclarationParser ; null si son type n'en est pas un
+    private toVariableDeclaration(variable: VariableNode): VariableDeclaration | null {
+        // const et volatile restent dans la déclaration affichée ; le layout les ignore
+        const baseType = variable.typeText.replace(/\b(?:inline|constexpr|thread_local|typename|static|extern|register|mutable)\b/g, '').trim().replace(/\s+/g, ' ');
+        if (!this.looksLikeType(baseType)) {
+            return null;
+        }
+
+        const declarator = variable.declarator;
+        const named = `${declarator.name}${declarator.dimensions.map(dimension => `[${dimension}]`).join('')}`;
+        const functionPointer = declarator.functionPointer && declarator.parameters !== undefined;
+
+        return {
+            type: functionPointer ? `${baseType} (*)(${declarator.parameters})` : `${baseType}${declarator.pointer.replace(/[^*]/g, '')}`,
+            written: functionPointer ? `${baseType} (${declarator.pointerText}${named})(${declarator.parameters})` : `${baseType}${declarator.pointerText} ${named}`,
+            dimensions: declarator.dimensions,
+            isParameter: variable.isParameter
+        };
+    }
+
+    // Écarte les expressions ("a * b", "return x") prises pour des déclarations
+    private looksLikeType(type: string): boolean {
+        // Les arguments de template peuvent contenir '*', '(' : "std::function<void(int)>"
+        if (type.length === 0 || !/^[\w\s:<>,#]+$/.test(this.maskTemplateArguments(type))) {
+            return false;
+        }
+        const words = type.split(/\s+/);
+        return !words.some(word => /^(?:return|case|goto|else|do|delete|new|throw|sizeof|typedef|using|namespace|operator|auto)$/.test(word));
+    }
+
+    private describeVariable(name: string, declaration: VariableDeclaration, context: AnalysisContext): VariableInfo | null {
+        // Un tableau passé en paramètre est un pointeur vers son premier élément
+        const decayed = declaration.isParameter && declaration.dimensions.length > 0;
+        const type = decayed ? `${declaration.type}*` : declaration.type;
+        const dimensions = decayed ? [] : this.evaluateDimensions(declaration.dimensions, context);
+        const arraySize = dimensions && dimensions.length > 0 ? this.product(dimensions) : undefined;
+
+        const typeInfo = this.getTypeInfo({ type, name }, this.emptyDefinition(), context);
+        const known = typeInfo !== null && typeInfo.unresolvedTypes.length === 0;
+
+        let pointee: { type: string; size: number | null } | undefined;
+        if (type.endsWith('*')) {
+            const pointeeType = type.substring(0, type.length - 1).trim();
+            const pointeeInfo = this.cleanType(pointeeType) === 'void'
+                ? null
+                : this.getTypeInfo({ type: pointeeType, name }, this.emptyDefinition(), context);
+            // Sans type connu ni mot-clé struct/union/enum, "a * b" est une multiplication
+            if (!pointeeInfo && !/^(?:struct|union|class|enum|void)\b/.test(this.cleanType(pointeeType))) {
+                return null;
+            }
+
+            // "int m[][4]" en paramètre pointe vers des lignes de 4 int
+            const innerDimensions = decayed ? declaration.dimensions.slice(1) : [];
+            const innerValues = this.evaluateDimensions(innerDimensions, context);
+            pointee = {
+                type: `${pointeeType}${innerDimensions.map(dimension => `[${dimension}]`).join('')}`,
+                size: pointeeInfo && pointeeInfo.unresolvedTypes.length === 0 && innerValues ? pointeeInfo.size * this.product(innerValues) : null
+            };
+        } else if (!typeInfo && !/^(?:struct|union|class|enum)\b/.test(this.cleanType(type))) {
+            return null;
+        }
+
+        return {
+            name,
+            declaration: declaration.written,
+            type,
+            arraySize,
+            dimensions: arraySize !== undefined ? dimensions! : undefined,
+            elementSize: known ? typeInfo!.size : null,
+            totalSize: known && dimensions ? typeInfo!.size * this.product(dimensions) : null,
+            alignment: known ? typeInfo!.alignment : null,
+            isParameter: declaration.isParameter,
+            decayedArray: decayed ? declaration.dimensions.map(dimension => `[${dimension}]`).join('') : undefined,
+            pointee
+        };
+    }
+
+    // Enlever const, volatile, etc. et normaliser les espaces multiples
+    private cleanType(type: string): string {
+        return type.replace(/\b(const|volatile|static|extern|register|mutable)\b/g, '').trim().replace(/\s+/g, ' ');
+    }
+
+    // Découpe un corps de struct en membres : chaque morceau garde les commentaires qui le
+    // précèdent et celui de fin de ligne. code est le corps sans commentaires ni directives
+    private splitMemberChunks(body: string, code: string): MemberChunk[] {
+        const ranges: Array<{ start: number; end: number }> = [];
+        const lineEnd = /[ \t]*(?:\r?\n|$)/y;
+        let start = 0;
+
+        // Chaque déclaration va jusqu'à la fin de sa ligne
+        for (const member of this.memberNodesOf(code)) {
+            lineEnd.lastIndex = member.end;
+            const trailing = lineEnd.exec(code);
+            const end = member.end + (trailing ? trailing[0].length : 0);
+            ranges.push({ start, end });
+            start = end;
+        }
+        if (start < code.length) {
+            ranges.push({ start, end: code.length });
+        }
+
+        return ranges.map(({ start, end }) => {
+            const text = body.substring(start, end);
+            const chunkCode = code.substring(start, end);
+            const leadLength = /^\s*/.exec(text)![0].length;
+
+            let role: MemberChunk['role'];
+            if (/^[ \t]*#/m.test(text) || /\bmemsize:\s*pin\b/.test(text) || /^\s*(?:public|private|protected)\s*:\s*$/.test(chunkCode)) {
+                role = 'barrier';
+            } else {
+                const members = this.parseMembers(chunkCode);
+                if (members.length === 0) {
+                    role = 'fixed';
+                } else if (members.some(member => member.unparsed)) {
+                    role = 'barrier';
+                } else {
+                    role = members.every(member => member.bitWidth !== undefined) ? 'bitfield' : 'member';
+                }
+            }
+
+            return { text, code: chunkCode, leadLength, role };
+        });
+    }
+
+    private findClosingParen(text: string, openIndex: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < text.length; i++) {
+            if (text[i] === '(') {
+                depth++;
+            } else if (text[i] === ')') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
+    }
+
+    // Texte hors des accolades imbriquées (corps de méthodes, types imbriqués)
+    private topLevelText(body: string): string {
+        let result = '';
+        let depth = 0;
+        for (const char of body) {
+            if (char === '{') {
+                depth++;
+            } else if (char === '}') {
+                depth--;
+            } else if (depth === 0) {
+                result += char;
+            }
+        }
+        return result;
+    }
+
+    private braceDepthAt(text: string, index: number): number {
+        let depth = 0;
+        for (let i = 0; i < index; i++) {
+            if (text[i] === '{') {
+                depth++;
+            } else if (text[i] === '}') {
+                depth--;
+            }
+        }
+        return depth;
+    }
+
+    // Découpe "packed, aligned(4)" sur les virgules hors parenthèses et accolades ; avec angleBrackets,
+    // aussi hors arguments de template : "map<int, int> a, b"
+    private splitTopLevel(text: string, angleBrackets: boolean = false): string[] {
+        const items: string[] = [];
+        let current = '';
+        let depth = 0;
+
+        const masked = angleBrackets ? this.maskTemplateArguments(text) : text;
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (masked[i] !== char) {
+                current += char;
+                continue;
+            }
+            if (char === '(' || char === '{') {
+                depth++;
+            } else if (char === ')' || char === '}') {
+                depth--;
+            }
+
+            if (char === ',' && depth === 0) {
+                items.push(current.trim());
+                current = '';
+                continue;
+            }
+            current += char;
+        }
+
+        if (current.trim().length > 0) {
+            items.push(current.trim());
+        }
+        return items;
+    }
+
+    // "Box< int,4 >" -> "Box<int, 4>" : une seule clé par instance de template
+    // Arguments d'un appel dont la '(' est à openIndex, sans se tromper sur les virgules et
+    // parenthèses des littéraux ; end est la position qui suit la ')' fermante
+    private parseCallArguments(text: string, openIndex: number): { args: string[]; end: number } | null {
+        const args: string[] = [];
+        let start = openIndex + 1;
+        let depth = 0;
+
+        for (let i = openIndex + 1; i < text.length; i++) {
+            const char = text[i];
+            if (char === '"' || char === '\'') {
+                // Fin du littéral, en sautant les caractères échappés
+                let j = i + 1;
+                while (j < text.length && text[j] !== char && text[j] !== '\n') {
+                    j += text[j] === '\\' ? 2 : 1;
+                }
+                i = j;
+            } else if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if (char === ')' && depth === 0) {
+                args.push(text.substring(start, i).trim());
+                return { args: args.filter(arg => arg.length > 0), end: i + 1 };
+            } else if (char === ')' || char === ']' || char === '}') {
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                args.push(text.substring(start, i).trim());
+                start = i + 1;
+            }
+        }
+
+        return null;
+    }
+
+    private canonicalTypeName(type: string): string {
+        return type.replace(/\s+/g, ' ').replace(/\s*([<>,])\s*/g, '$1').replace(/,/g, ', ').trim();
+    }
+
+    // Remplace le contenu des arguments de template par des '#', en conservant les positions,
+    // pour que leurs virgules, parenthèses et '*' ne soient pas pris pour ceux de la déclaration
+    private maskTemplateArguments(text: string): string {
+        if (!text.includes('<')) {
+            return text;
+        }
+
+        let result = '';
+        let i = 0;
+        while (i < text.length) {
+            // '<' après un identifiant, sauf décalage "<<"
+            const isTemplate = text[i] === '<' && text[i + 1] !== '<' && text[i - 1] !== '<' && /[A-Za-z_]\w*\s*$/.test(text.substring(0, i));
+            const close = isTemplate ? this.findClosingAngle(text, i) : -1;
+            if (close === -1) {
+                result += text[i++];
+                continue;
+            }
+            result += '<' + '#'.repeat(close - i - 1) + '>';
+            i = close + 1;
+        }
+        return result;
+    }
+
+    private findClosingAngle(text: string, openIndex: number): number {
+        let depth = 0;
+        let parens = 0;
+        for (let i = openIndex; i < text.length; i++) {
+            const char = text[i];
+            if (char === '(') {
+                parens++;
+            } else if (char === ')') {
+                if (--parens < 0) {
+                    return -1;
+                }
+            } else if (char === ';' || char === '{' || char === '}') {
+                return -1;
+            } else if (parens === 0 && char === '<') {
+                depth++;
+            } else if (parens === 0 && char === '>') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+        }
+        return -1;
     }
 
     private alignTo(offset: number, alignment: number): number {
@@ -0,0 +1,121 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RegionIndex } from './sourceRegions';
+import { DocumentAnalysis, SourceDocument, StructAnalyzer } from './structAnalyzer';
+import { WorkspaceIndex } from './workspaceIndex';
+
+interface CachedDocument {
+    // Version du texte à laquelle regions correspond
+    version: number;
+    regions: RegionIndex;
+    // Régions redécoupées par les modifications depuis la dernière analyse
+    changedRegions: number;
+    relatedTexts?: string[];
+    analysis?: DocumentAnalysis;
+}
+
+// Analyse des documents, valable pour une version de leur texte. Les modifications reçues par
+// onDidChangeTextDocument mettent à jour la découpe en régions du document : l'analyse suivante
+// ne relit que les régions modifiées. Un document fermé est oublié. La durée de chaque analyse
+// est écrite dans le canal de sortie "Memory Size Hover"
+export class StructCache implements vscode.Disposable {
+    private documents: Map<string, CachedDocument> = new Map();
+    private structAnalyzer: StructAnalyzer;
+    private workspaceIndex?: WorkspaceIndex;
+    private output: vscode.LogOutputChannel;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceIndex?: WorkspaceIndex) {
+        this.structAnalyzer = new StructAnalyzer();
+        this.workspaceIndex = workspaceIndex;
+        this.output = vscode.window.createOutputChannel('Memory Size Hover', { log: true });
+
+        this.disposables.push(
+            this.output,
+            vscode.workspace.onDidChangeTextDocument(event => this.update(event)),
+            vscode.workspace.onDidCloseTextDocument(document => this.documents.delete(document.uri.toString()))
+        );
+    }
+
+    public getAnalysis(document: vscode.TextDocument): DocumentAnalysis {
+        const entry = this.getEntry(document);
+        if (entry.analysis) {
+            return entry.analysis;
+        }
+
+        const started = Date.now();
+        const relatedTexts = this.getRelatedTexts(document);
+        entry.analysis = this.structAnalyzer.analyze(this.getSource(document), relatedTexts);
+
+        const regionCount = entry.regions.getRegions().length;
+        this.output.info(`${path.basename(document.uri.fsPath)} v${document.version}: ${entry.analysis.structs.size} structs in ${Date.now() - started} ms ` +
+            `(${entry.changedRegions} of ${regionCount} regions changed, ${document.lineCount} lines)`);
+        entry.changedRegions = 0;
+
+        return entry.analysis;
+    }
+
+    // Document avec sa découpe en régions, à passer à StructAnalyzer
+    public getSource(document: vscode.TextDocument): SourceDocument {
+        const regions = this.getEntry(document).regions.getRegions();
+        return { getText: () => document.getText(), languageId: document.languageId, regions };
+    }
+
+    // En-têtes et macros de la ligne de commande vus par le document
+    public getRelatedTexts(document: vscode.TextDocument): string[] {
+        if (!this.workspaceIndex) {
+            return [];
+        }
+
+        const entry = this.getEntry(document);
+        if (!entry.relatedTexts) {
+            entry.relatedTexts = this.workspaceIndex.getRelatedTexts(document, entry.regions.getRegions());
+        }
+        return entry.relatedTexts;
+    }
+
+    // Réglages, profil ou index du workspace changés : les analyses sont à refaire, pas la découpe des textes
+    public clear(): void {
+        this.documents.forEach(entry => {
+            entry.analysis = undefined;
+            entry.relatedTexts = undefined;
+        });
+    }
+
+    public dispose(): void {
+        this.documents.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private getEntry(document: vscode.TextDocument): CachedDocument {
+        const key = document.uri.toString();
+        let entry = this.documents.get(key);
+        if (!entry || entry.version !== document.version) {
+            // Première analyse du document, ou modification qu'on n'a pas suivie : découpe complète
+            const regions = new RegionIndex(document.getText());
+            entry = { version: document.version, regions, changedRegions: regions.getRegions().length };
+            this.documents.set(key, entry);
+        }
+        return entry;
+    }
+
+    private update(event: vscode.TextDocumentChangeEvent): void {
+        const key = event.document.uri.toString();
+        const entry = this.documents.get(key);
+        if (!entry || event.contentChanges.length === 0) {
+            return;
+        }
+
+        // Une version sautée : la découpe sera refaite à la prochaine demande
+        if (entry.version !== event.document.version - 1) {
+            this.documents.delete(key);
+            return;
+        }
+
+        const edits = event.contentChanges.map(change => ({ start: change.rangeOffset, end: change.rangeOffset + change.rangeLength, text: change.text }));
+        entry.changedRegions += entry.regions.update(event.document.getText(), edits);
+        entry.version = event.document.version;
+        entry.analysis = undefined;
+        entry.relatedTexts = undefined;
+    }
+}
@@ -0,0 +1,185 @@
+export type BitfieldLayout = 'sysv' | 'msvc';
+
+export interface TypeLayout {
+    size: number;
+    alignment: number;
+}
+
+// Types fondamentaux à partir desquels tous les autres sont dérivés
+export type CanonicalType =
+    'char' | 'short' | 'int' | 'long' | 'long long' |
+    'float' | 'double' | 'long double' |
+    '_Bool' | 'wchar_t' | 'pointer';
+
+export interface TargetProfile {
+    id: string;
+    label: string;
+    types: { [K in CanonicalType]: TypeLayout };
+    charSigned: boolean;
+    wcharSigned: boolean;
+    // Type utilisé pour size_t, ptrdiff_t, intptr_t...
+    sizeType: CanonicalType;
+    timeType: CanonicalType;
+    // int_fast8_t, int_fast16_t, int_fast32_t, int_fast64_t
+    fastTypes: [CanonicalType, CanonicalType, CanonicalType, CanonicalType];
+    bitfieldLayout: BitfieldLayout;
+    // Alignement de "__attribute__((aligned))" sans argument
+    biggestAlignment: number;
+    // Macros prédéfinies par le compilateur pour cette cible, vues par les #if
+    macros: { [name: string]: string };
+}
+
+function layout(size: number, alignment: number = size): TypeLayout {
+    return { size, alignment };
+}
+
+const common = {
+    char: layout(1),
+    short: layout(2),
+    int: layout(4),
+    float: layout(4),
+    _Bool: layout(1)
+};
+
+export const builtinProfiles: TargetProfile[] = [
+    {
+        id: 'lp64',
+        label: 'LP64 (x86-64 System V)',
+        types: { ...common, long: layout(8), 'long long': layout(8), double: layout(8), 'long double': layout(16), wchar_t: layout(4), pointer: layout(8) },
+        charSigned: true,
+        wcharSigned: true,
+        sizeType: 'long',
+        timeType: 'long',
+        fastTypes: ['char', 'long', 'long', 'long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 16,
+        macros: { __x86_64__: '1', __x86_64: '1', __amd64__: '1', __LP64__: '1', _LP64: '1', __linux__: '1', __unix__: '1', __GNUC__: '12', __SIZEOF_POINTER__: '8', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '8', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'llp64',
+        label: 'LLP64 (x64 MSVC)',
+        types: { ...common, long: layout(4), 'long long': layout(8), double: layout(8), 'long double': layout(8), wchar_t: layout(2), pointer: layout(8) },
+        charSigned: true,
+        wcharSigned: false,
+        sizeType: 'long long',
+        timeType: 'long long',
+        fastTypes: ['char', 'int', 'int', 'long long'],
+        bitfieldLayout: 'msvc',
+        biggestAlignment: 16,
+        macros: { _WIN32: '1', _WIN64: '1', _M_X64: '100', _M_AMD64: '100', _MSC_VER: '1930' }
+    },
+    {
+        id: 'ilp32',
+        label: 'ILP32 (i386 System V)',
+        types: { ...common, long: layout(4), 'long long': layout(8, 4), double: layout(8, 4), 'long double': layout(12, 4), wchar_t: layout(4), pointer: layout(4) },
+        charSigned: true,
+        wcharSigned: true,
+        sizeType: 'int',
+        timeType: 'long',
+        fastTypes: ['char', 'int', 'int', 'long long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 16,
+        macros: { __i386__: '1', __i386: '1', __linux__: '1', __unix__: '1', __GNUC__: '12', __SIZEOF_POINTER__: '4', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '4', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'msvc-x86',
+        label: 'ILP32 (x86 MSVC)',
+        types: { ...common, long: layout(4), 'long long': layout(8), double: layout(8), 'long double': layout(8), wchar_t: layout(2), pointer: layout(4) },
+        charSigned: true,
+        wcharSigned: false,
+        sizeType: 'int',
+        timeType: 'long long',
+        fastTypes: ['char', 'int', 'int', 'long long'],
+        bitfieldLayout: 'msvc',
+        biggestAlignment: 8,
+        macros: { _WIN32: '1', _M_IX86: '600', _MSC_VER: '1930' }
+    },
+    {
+        id: 'aarch64',
+        label: 'AArch64 (Linux, AAPCS64)',
+        types: { ...common, long: layout(8), 'long long': layout(8), double: layout(8), 'long double': layout(16), wchar_t: layout(4), pointer: layout(8) },
+        charSigned: false,
+        wcharSigned: false,
+        sizeType: 'long',
+        timeType: 'long',
+        fastTypes: ['char', 'long', 'long', 'long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 16,
+        macros: { __aarch64__: '1', __LP64__: '1', _LP64: '1', __linux__: '1', __unix__: '1', __GNUC__: '12', __CHAR_UNSIGNED__: '1', __SIZEOF_POINTER__: '8', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '8', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'apple-arm64',
+        label: 'ARM64 (Apple)',
+        types: { ...common, long: layout(8), 'long long': layout(8), double: layout(8), 'long double': layout(8), wchar_t: layout(4), pointer: layout(8) },
+        charSigned: true,
+        wcharSigned: true,
+        sizeType: 'long',
+        timeType: 'long',
+        fastTypes: ['char', 'short', 'int', 'long long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 16,
+        macros: { __aarch64__: '1', __arm64__: '1', __APPLE__: '1', __MACH__: '1', __LP64__: '1', _LP64: '1', __clang__: '1', __SIZEOF_POINTER__: '8', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '8', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'arm-eabi',
+        label: 'ARM EABI (AAPCS, 32-bit)',
+        types: { ...common, long: layout(4), 'long long': layout(8), double: layout(8), 'long double': layout(8), wchar_t: layout(4), pointer: layout(4) },
+        charSigned: false,
+        wcharSigned: false,
+        sizeType: 'int',
+        timeType: 'long long',
+        fastTypes: ['char', 'int', 'int', 'long long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 8,
+        macros: { __arm__: '1', __ARM_EABI__: '1', __GNUC__: '12', __CHAR_UNSIGNED__: '1', __SIZEOF_POINTER__: '4', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '4', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'avr',
+        label: 'AVR (8-bit)',
+        types: {
+            char: layout(1), short: layout(2, 1), int: layout(2, 1), long: layout(4, 1), 'long long': layout(8, 1),
+            float: layout(4, 1), double: layout(4, 1), 'long double': layout(4, 1),
+            _Bool: layout(1), wchar_t: layout(2, 1), pointer: layout(2, 1)
+        },
+        charSigned: true,
+        wcharSigned: true,
+        sizeType: 'int',
+        timeType: 'long',
+        fastTypes: ['char', 'int', 'long', 'long long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 1,
+        macros: { __AVR__: '1', __AVR: '1', __GNUC__: '12', __SIZEOF_POINTER__: '2', __SIZEOF_INT__: '2', __SIZEOF_LONG__: '4', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'riscv32',
+        label: 'RISC-V 32 (ILP32)',
+        types: { ...common, long: layout(4), 'long long': layout(8), double: layout(8), 'long double': layout(16), wchar_t: layout(4), pointer: layout(4) },
+        charSigned: false,
+        wcharSigned: true,
+        sizeType: 'int',
+        timeType: 'long long',
+        fastTypes: ['char', 'int', 'int', 'long long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 16,
+        macros: { __riscv: '1', __riscv_xlen: '32', __ILP32__: '1', __GNUC__: '12', __CHAR_UNSIGNED__: '1', __SIZEOF_POINTER__: '4', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '4', __CHAR_BIT__: '8' }
+    },
+    {
+        id: 'riscv64',
+        label: 'RISC-V 64 (LP64)',
+        types: { ...common, long: layout(8), 'long long': layout(8), double: layout(8), 'long double': layout(16), wchar_t: layout(4), pointer: layout(8) },
+        charSigned: false,
+        wcharSigned: true,
+        sizeType: 'long',
+        timeType: 'long',
+        fastTypes: ['char', 'long', 'long', 'long'],
+        bitfieldLayout: 'sysv',
+        biggestAlignment: 16,
+        macros: { __riscv: '1', __riscv_xlen: '64', __LP64__: '1', _LP64: '1', __GNUC__: '12', __CHAR_UNSIGNED__: '1', __SIZEOF_POINTER__: '8', __SIZEOF_INT__: '4', __SIZEOF_LONG__: '8', __CHAR_BIT__: '8' }
+    }
+];
+
+// Anciennes valeurs du réglage memorySizeHover.architecture
+export const legacyProfileAliases: { [alias: string]: string } = {
+    x64: 'lp64',
+    x32: 'ilp32'
+};
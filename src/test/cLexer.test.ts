@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { CLexer } from '../cLexer';
+import { fixtureFiles, readFixture } from './fixtures';
+
+const lexer = new CLexer();
+const texts = (source: string) => lexer.tokenize(source).tokens.map(token => token.text);
+
+test('comments do not produce tokens, even inside a directive', () => {
+    const { tokens, comments } = lexer.tokenize('int a; // } \n/* { */ int b;\n#define X 1 /* ; */\n');
+    assert.deepStrictEqual(tokens.map(token => token.text), ['int', 'a', ';', 'int', 'b', ';', '#define X 1 /* ; */']);
+    assert.strictEqual(comments.length, 3);
+});
+
+test('literals keep braces, quotes and comment markers', () => {
+    assert.deepStrictEqual(texts('s = "a // }"; c = \'}\'; w = L"\\"{";'), ['s', '=', '"a // }"', ';', 'c', '=', '\'}\'', ';', 'w', '=', 'L"\\"{"', ';']);
+    assert.deepStrictEqual(texts('r = R"x(a )" } )x";'), ['r', '=', 'R"x(a )" } )x"', ';']);
+});
+
+test('numbers, continued directives and template closers', () => {
+    assert.deepStrictEqual(texts('n = 1\'000\'000u + 0x1p-3;'), ['n', '=', '1\'000\'000u', '+', '0x1p-3', ';']);
+    assert.deepStrictEqual(texts('#define M(a) \\\n  (a + 1)\nx;'), ['#define M(a) \\\n  (a + 1)', 'x', ';']);
+    assert.deepStrictEqual(texts('A<B<int>> x; y >>= 1;'), ['A', '<', 'B', '<', 'int', '>', '>', 'x', ';', 'y', '>', '>', '=', '1', ';']);
+});
+
+test('mask keeps positions and line breaks', () => {
+    const source = 'a; /* x\ny */ "s";\n#if 1\nb;\n';
+    const masked = lexer.mask(source, { comments: true, directives: true, literals: true });
+    assert.strictEqual(masked, 'a;     \n     " ";\n     \nb;\n');
+    assert.strictEqual(lexer.mask(source, {}), source);
+});
+
+for (const file of fixtureFiles()) {
+    test(`${file}: tokens and comments cover the source without overlapping`, () => {
+        const source = readFixture(file).getText();
+        const { tokens, comments } = lexer.tokenize(source);
+        // Un commentaire dans une directive fait partie de son token
+        const directives = tokens.filter(token => token.kind === 'directive');
+        const outside = comments.filter(comment => !directives.some(directive => directive.start <= comment.start && comment.end <= directive.end));
+        const spans = [...tokens, ...outside].sort((a, b) => a.start - b.start);
+
+        let covered = 0;
+        for (const span of spans) {
+            assert.ok(span.start >= covered, `overlap at ${span.start}`);
+            assert.match(source.substring(covered, span.start), /^\s*$/);
+            covered = span.end;
+        }
+        assert.match(source.substring(covered), /^\s*$/);
+    });
+}
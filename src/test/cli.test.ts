@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { MemsizeCli } from '../cli';
+import { LayoutReport } from '../layoutReport';
+import { repositoryRoot } from './fixtures';
+
+// Exécute la CLI en capturant ce qu'elle écrit sur stdout et stderr
+function runCli(args: string[]): { code: number; stdout: string; stderr: string } {
+    const result = { code: -1, stdout: '', stderr: '' };
+    const stdoutWrite = process.stdout.write;
+    const stderrWrite = process.stderr.write;
+    process.stdout.write = ((chunk: string) => { result.stdout += chunk; return true; }) as typeof process.stdout.write;
+    process.stderr.write = ((chunk: string) => { result.stderr += chunk; return true; }) as typeof process.stderr.write;
+    try {
+        result.code = new MemsizeCli().run(args);
+    } finally {
+        process.stdout.write = stdoutWrite;
+        process.stderr.write = stderrWrite;
+    }
+    return result;
+}
+
+function fixture(file: string): string {
+    return path.join(repositoryRoot, file);
+}
+
+function withTempDir(body: (directory: string) => void): void {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'memsize-'));
+    try {
+        body(directory);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+test('analyze prints the layout report and exits with 0', () => {
+    const { code, stdout } = runCli(['analyze', fixture('test/struct-test.h'), '--target', 'lp64', '--format', 'json']);
+    assert.strictEqual(code, 0);
+
+    const report: LayoutReport = JSON.parse(stdout);
+    assert.strictEqual(report.target.profile, 'lp64');
+    const person = report.files[0].structs.find(struct => struct.name === 'Person');
+    assert.deepStrictEqual(person && [person.size, person.alignment], [48, 8]);
+});
+
+test('check passes against a baseline of the same sources', () => {
+    withTempDir(directory => {
+        const baseline = path.join(directory, 'baseline.json');
+        assert.strictEqual(runCli(['analyze', fixture('test/struct-test.h'), '--target', 'lp64', '--format', 'json', '--output', baseline]).code, 0);
+
+        const { code, stdout, stderr } = runCli(['check', '--baseline', baseline]);
+        assert.strictEqual(stderr, '');
+        assert.strictEqual(code, 0);
+        assert.match(stdout, /7 structs match /);
+    });
+});
+
+test('check reports a size regression against the baseline and exits with 1', () => {
+    withTempDir(directory => {
+        // La référence est produite avec ENABLE_TRACE : sans -D, Record perd son tableau de pointeurs
+        const baseline = path.join(directory, 'baseline.json');
+        const source = fixture('test/conditional-test.h');
+        assert.strictEqual(runCli(['analyze', source, '--target', 'lp64', '--format', 'json', '--output', baseline, '-D', 'ENABLE_TRACE']).code, 0);
+
+        const { code, stdout, stderr } = runCli(['check', '--baseline', baseline, source]);
+        assert.strictEqual(code, 1);
+        assert.match(stderr, /: Record: size 48 → 8; alignment 8 → 4; member trace removed; member flags \+40, 2 B → \+4, 2 B/);
+        assert.match(stdout, /1 layout problem found/);
+
+        // -U retire la macro définie plus tôt par -D
+        assert.strictEqual(runCli(['check', '--baseline', baseline, source, '-DENABLE_TRACE', '-UENABLE_TRACE']).code, 1);
+        assert.strictEqual(runCli(['check', '--baseline', baseline, source, '-DENABLE_TRACE']).code, 0);
+    });
+});
+
+test('-I makes structs of included headers known', () => {
+    withTempDir(directory => {
+        const source = path.join(directory, 'uses.c');
+        fs.writeFileSync(source, '#include <struct-test.h>\n\nstruct Uses {\n    struct Point origin;\n    char tag;\n};\n');
+
+        const sizeOfUses = (args: string[]) => {
+            const { code, stdout } = runCli(['analyze', source, '--target', 'lp64', '--format', 'json', ...args]);
+            assert.strictEqual(code, 0);
+            const report: LayoutReport = JSON.parse(stdout);
+            const uses = report.files[0].structs.find(struct => struct.name === 'Uses');
+            return uses ? uses.size : undefined;
+        };
+
+        assert.strictEqual(sizeOfUses(['-I', fixture('test')]), 12);
+        assert.strictEqual(sizeOfUses([`-I${fixture('test')}`]), 12);
+        assert.strictEqual(sizeOfUses([]), null);
+    });
+});
+
+test('a failing static_assert makes analyze exit with 1', () => {
+    withTempDir(directory => {
+        const source = path.join(directory, 'assert.c');
+        fs.writeFileSync(source, 'struct pair { char c; int i; };\n_Static_assert(sizeof(struct pair) == 5, "packed");\n');
+
+        const { code, stderr } = runCli(['analyze', source, '--target', 'lp64']);
+        assert.strictEqual(code, 1);
+        assert.match(stderr, /assert\.c:2:1: static_assert\(sizeof\(struct pair\) == 5\) fails: sizeof\(struct pair\) is 8/);
+    });
+});
+
+test('usage errors exit with 2', () => {
+    const missingInputs = runCli(['analyze']);
+    assert.strictEqual(missingInputs.code, 2);
+    assert.match(missingInputs.stderr, /^memsize: analyze needs at least one file or directory\n\nUsage:/);
+
+    assert.strictEqual(runCli(['check', fixture('test/struct-test.h')]).code, 2);
+    assert.strictEqual(runCli(['analyze', fixture('test/struct-test.h'), '--format', 'xml']).code, 2);
+    assert.strictEqual(runCli(['analyze', fixture('test/struct-test.h'), '--target', 'pdp11']).code, 2);
+    assert.strictEqual(runCli(['analyze', fixture('test/struct-test.h'), '--verbose']).code, 2);
+    assert.strictEqual(runCli(['frobnicate']).code, 2);
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { DeclarationParser, MemberNode } from '../declarationParser';
+import { fixtureFiles, readFixture } from './fixtures';
+
+const parser = new DeclarationParser();
+
+// Définitions de chaque fixture, avec namespaces et records englobants
+const expectedRecords: Record<string, string[]> = {
+    'examples/comprehensive-test.c': [],
+    'test/class-test.cpp': ['SimpleClass', 'BaseClass', 'DerivedClass', 'ComplexClass'],
+    'test/comprehensive-test.c': [],
+    'test/conditional-test.h': ['(anonymous)', 'Platform', 'Text', 'Slots', 'Phantom', 'Disabled'],
+    'test/parser-test.cpp': ['net::detail::Header', 'net::Message', 'net::Message::(anonymous)', 'net::Message::(anonymous)', 'net::Ring', 'net::Owner', 'list_node'],
+    'test/struct-test.h': ['Point', 'Person', 'Node', 'Packet', '(anonymous)', 'Complex', 'Matrix'],
+    'test/test.cpp': ['TestClass']
+};
+
+// "field const char *const name" -> "field const char: *name"
+function describe(member: MemberNode): string {
+    const declarators = member.declarators.map(declarator => {
+        const dimensions = declarator.dimensions.map(dimension => `[${dimension}]`).join('');
+        const bits = declarator.bitWidth !== undefined ? `:${declarator.bitWidth}` : '';
+        return `${declarator.pointer}${declarator.name}${dimensions}${bits}${declarator.functionPointer ? '()' : ''}`;
+    });
+    return `${member.kind} ${member.typeText}: ${declarators.join(', ')}`.trim();
+}
+
+test('every fixture has expected records', () => {
+    assert.deepStrictEqual(fixtureFiles(), Object.keys(expectedRecords).sort());
+});
+
+for (const file of fixtureFiles()) {
+    test(`${file}: record definitions`, () => {
+        const records = parser.parseRecords(readFixture(file).getText());
+        assert.deepStrictEqual(records.map(record => [...record.scope, record.name || '(anonymous)'].join('::')), expectedRecords[file]);
+    });
+}
+
+test('test/parser-test.cpp: members of Message', () => {
+    const message = parser.parseRecords(readFixture('test/parser-test.cpp').getText()).find(record => record.name === 'Message')!;
+    assert.deepStrictEqual(message.members.map(describe), [
+        'field Header: header',
+        'field int: first, second, third',
+        'field void: *on_done()',
+        'field unsigned int: mode:3, :2, level:4',
+        'record : origin, corners[2]',
+        'record :',
+        'enum uint8_t: size_kind',
+        'method :',
+        'method :',
+        'method :',
+        'ignored :'
+    ]);
+});
+
+test('braces in comments and literals do not end the record', () => {
+    const header = parser.parseRecords(readFixture('test/parser-test.cpp').getText())[0];
+    assert.deepStrictEqual(header.members.map(describe), [
+        'field uint8_t: kind',
+        'field const char: *label',
+        'field char: separator',
+        'field uint32_t: extra',
+        'field uint16_t: flags'
+    ]);
+});
+
+test('declarators with templates, attributes and qualifiers', () => {
+    const members = parser.parseMembers(`
+        std::map<int, std::pair<int, int>> a, *b;
+        __attribute__((aligned(8))) volatile int *const *c [[maybe_unused]];
+        int (*handlers[4])(void), (*row)[3];
+        std::function<void(int, int)> callback = [](int, int) {};
+        struct Forward;
+        private: int d : 2 = 1;
+        Thing() : d{1}, e(2) {}
+        friend class Other;
+    `);
+    assert.deepStrictEqual(members.map(describe), [
+        'field std::map<int, std::pair<int, int>>: a, *b',
+        'field volatile int: **c',
+        'field int: *handlers[4](), *row',
+        'field std::function<void(int, int)>: callback',
+        'ignored :',
+        'access :',
+        'field int: d:2',
+        'method :',
+        'ignored :'
+    ]);
+    assert.deepStrictEqual(members[1].attributes, ['__attribute__((aligned(8)))', '[[maybe_unused]]']);
+});
+
+// Mots-clés formant un type sur plusieurs tokens, comme dans le survol
+const typeKeywords = ['signed', 'unsigned', 'short', 'long', 'char', 'int', 'float', 'double', 'bool', '_Bool', 'wchar_t', 'void', 'const'];
+
+for (const file of ['test/comprehensive-test.c', 'examples/comprehensive-test.c']) {
+    test(`${file}: type under the cursor of each local declaration`, () => {
+        const source = readFixture(file).getText();
+        const declarationRegex = /^[ \t]+(\w+(?: \w+)*?)(\**) ([A-Za-z_]\w*);/gm;
+        let match;
+        let count = 0;
+
+        while ((match = declarationRegex.exec(source)) !== null) {
+            const expected = match[2] ? `${match[1]} ${match[2]}` : match[1];
+            const typeStart = match.index + match[0].indexOf(match[1]);
+            for (const word of match[1].matchAll(/\w+/g)) {
+                const found = parser.findTypeAt(source, typeStart + word.index!, typeKeywords);
+                assert.ok(found, `nothing at ${match[0].trim()}`);
+                assert.strictEqual(found.keywords ? found.keywords.text : found.word.text, expected);
+            }
+            count++;
+        }
+        assert.ok(count > 50);
+    });
+
+    test(`${file}: nothing inside comments`, () => {
+        const source = readFixture(file).getText();
+        for (const comment of source.matchAll(/\/\/[^\n]*/g)) {
+            for (const word of comment[0].matchAll(/\w+/g)) {
+                assert.strictEqual(parser.findTypeAt(source, comment.index! + word.index!, typeKeywords), null);
+            }
+        }
+    });
+}
+
+test('variables are visible in their block, parameters until the end of the body', () => {
+    const source = 'extern "C" { static int counter; }\n' +
+        'int sum(const int *values, int n) {\n    int total = 0;\n    for (int i = 0; i < n; i++) { total += values[i]; }\n    return total;\n}\n';
+    const scopes = parser.parseVariables(source).map(variable =>
+        `${variable.typeText} ${variable.declarator.pointerText}${variable.declarator.name}${variable.isParameter ? ' (parameter)' : ''}: ${source.substring(variable.scopeStart, variable.scopeStart + 1)}..${source.substring(variable.scopeEnd - 1, variable.scopeEnd)}`);
+    assert.deepStrictEqual(scopes, [
+        'int counter: e..\n',
+        'const int *values (parameter): (..}',
+        'int n (parameter): (..}',
+        'int total: {..}',
+        'int i: (..}'
+    ]);
+});
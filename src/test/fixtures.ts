@@ -0,0 +1,18 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceDocument } from '../structAnalyzer';
+
+// Fichiers C/C++ de test/ et examples/, chemins relatifs à la racine du dépôt
+export const repositoryRoot = path.resolve(__dirname, '..', '..');
+
+export function fixtureFiles(): string[] {
+    return ['test', 'examples']
+        .flatMap(directory => fs.readdirSync(path.join(repositoryRoot, directory)).map(name => `${directory}/${name}`))
+        .filter(file => /\.(?:c|h|cpp|hpp|cc|cxx)$/.test(file))
+        .sort();
+}
+
+export function readFixture(file: string): SourceDocument {
+    const text = fs.readFileSync(path.join(repositoryRoot, file), 'utf8');
+    return { getText: () => text, languageId: /\.(?:c|h)$/.test(file) ? 'c' : 'cpp' };
+}
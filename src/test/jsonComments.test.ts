@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { stripJsonComments } from '../jsonComments';
+
+test('comments are stripped but glob patterns inside strings are kept', () => {
+    const text = [
+        '{',
+        '    // configuration par défaut',
+        '    "configurations": [{',
+        '        "name": "Linux", /* cible */',
+        '        "includePath": ["${workspaceFolder}/**", "/usr/include/*", "C:\\\\sdk\\\\\\"x\\"//"],',
+        '        "defines": [] /* aucune */',
+        '    }]',
+        '}'
+    ].join('\n');
+
+    assert.deepStrictEqual(JSON.parse(stripJsonComments(text)), {
+        configurations: [{ name: 'Linux', includePath: ['${workspaceFolder}/**', '/usr/include/*', 'C:\\sdk\\"x"//'], defines: [] }]
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { Preprocessor } from '../preprocessor';
+import { StructAnalyzer } from '../structAnalyzer';
+import { TypeInfoProvider } from '../typeInfo';
+import { readFixture } from './fixtures';
+
+const typeProvider = TypeInfoProvider.getInstance();
+typeProvider.configure({ architecture: 'lp64', bitfieldLayout: 'auto', standardLibrary: 'auto', intelliSenseMode: '' });
+const preprocessor = new Preprocessor();
+const analyzer = new StructAnalyzer();
+
+// Lignes non vides du texte une fois les branches inactives effacées
+function activeLines(source: string, predefined: { [name: string]: string } = {}): string[] {
+    const { text } = preprocessor.process(source, preprocessor.createTable(predefined, [source]));
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+test('branches follow #if, #elif and #else with nested groups', () => {
+    const source = [
+        '#define LEVEL 2',
+        '#if LEVEL > 2', 'a;', '#elif LEVEL == 2', 'b;',
+        '#  ifdef LEVEL', 'c;', '#  else', 'd;', '#  endif',
+        '#else', 'e;', '#endif',
+        '#if 0', '#if 1', 'f;', '#endif', '#else', 'g;', '#endif'
+    ].join('\n');
+    assert.deepStrictEqual(activeLines(source), ['b;', 'c;', 'g;']);
+});
+
+test('#undef, function-like macros and predefined macros', () => {
+    const source = [
+        '#define A 1', '#undef A', '#ifdef A', 'a;', '#endif',
+        '#define F(x) x', '#if defined(F) && !defined F2', 'f;', '#endif',
+        '#if __SIZEOF_POINTER__ == 8 && defined __x86_64__', 'p;', '#endif'
+    ].join('\n');
+    assert.deepStrictEqual(activeLines(source, { __x86_64__: '1', __SIZEOF_POINTER__: '8' }), ['f;', 'p;']);
+});
+
+test('a condition on a macro defined nowhere is undecided', () => {
+    const source = '#ifndef GUARD\n#define GUARD\n#ifdef DEBUG\nx;\n#endif\n#if __GNUC__ >= 4 || HAS_FEATURE(y)\n#endif\n#endif\n';
+    const { groups } = preprocessor.process(source, preprocessor.createTable({}, [source]));
+    assert.deepStrictEqual(groups.map(group => [group.branches.map(branch => branch.directive), group.taken, group.undecided]), [
+        [['#ifndef GUARD', ''], 0, false],
+        [['#ifdef DEBUG', ''], 1, true],
+        [['#if __GNUC__ >= 4 || HAS_FEATURE(y)', ''], 1, true]
+    ]);
+});
+
+test('command-line defines become a prelude', () => {
+    assert.strictEqual(preprocessor.definesPrelude(['-DDEBUG', 'LEVEL=2', '/DWIN', '-UNDEBUG', '-D', 'not a macro']), '#define DEBUG 1\n#define LEVEL 2\n#define WIN 1\n#undef NDEBUG\n');
+
+    const document = readFixture('test/conditional-test.h');
+    const structs = analyzer.analyze(document, [preprocessor.definesPrelude(['ENABLE_TRACE'])]).structs;
+    assert.strictEqual(structs.get('Record')!.totalSize, 48);
+});
+
+test('test/conditional-test.h: sizes of each undecided branch', () => {
+    const document = readFixture('test/conditional-test.h');
+    assert.deepStrictEqual(analyzer.findConditionalLayouts(document, 'Record'), [
+        { line: 10, branches: [{ directive: '#ifdef ENABLE_TRACE', size: 48 }, { directive: '', size: 8 }], taken: 1, undecided: true }
+    ]);
+
+    const platform = () => analyzer.findConditionalLayouts(document, 'Platform').map(group => [group.taken, group.undecided]);
+    assert.deepStrictEqual(platform(), [[0, false]]);
+    assert.deepStrictEqual(typeProvider.withProfile(typeProvider.findProfile('ilp32')!, platform), [[1, false]]);
+    assert.deepStrictEqual(typeProvider.withProfile(typeProvider.findProfile('avr')!, platform), [[2, false]]);
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { RegionIndex, TextEdit, TextRegion } from '../sourceRegions';
+import { SourceDocument, StructAnalyzer } from '../structAnalyzer';
+import { fixtureFiles, readFixture } from './fixtures';
+
+const analyzer = new StructAnalyzer();
+
+// En-tête généré : structs, fonctions, commentaires, #if et namespace, sur plusieurs régions
+function generatedHeader(count: number): string {
+    const parts: string[] = ['#include <stdint.h>\n#define WIDTH 4\n'];
+    for (let i = 0; i < count; i++) {
+        parts.push(
+            `/* Record ${i} { */\n` +
+            `typedef struct Record${i} {\n    uint8_t tag; // ; }\n#if WIDTH > 2\n    uint32_t value[WIDTH];\n#endif\n    char name[${i % 7 + 1}];\n} Record${i};\n` +
+            `static inline int get${i}(const Record${i} *r) {\n    return r->tag;\n}\n`
+        );
+        if (i % 25 === 0) {
+            parts.push(`namespace space${i} {\nstruct Inner${i} { double d; char c; };\n}\n`);
+        }
+    }
+    return parts.join('');
+}
+
+function apply(text: string, edit: TextEdit): string {
+    return text.substring(0, edit.start) + edit.text + text.substring(edit.end);
+}
+
+function assertCovers(regions: TextRegion[], text: string): void {
+    assert.strictEqual(regions[0].start, 0);
+    assert.strictEqual(regions[regions.length - 1].end, text.length);
+    for (let i = 1; i < regions.length; i++) {
+        assert.strictEqual(regions[i].start, regions[i - 1].end);
+        assert.strictEqual(text[regions[i].start - 1], '\n');
+    }
+}
+
+function assertSameAnalysis(text: string, regions: TextRegion[]): void {
+    const whole: SourceDocument = { getText: () => text, languageId: 'cpp' };
+    const split: SourceDocument = { getText: () => text, languageId: 'cpp', regions };
+    assert.deepStrictEqual(analyzer.analyze(split), analyzer.analyze(whole));
+    assert.deepStrictEqual(analyzer.findRecordLocations(split), analyzer.findRecordLocations(whole));
+}
+
+test('regions cover each fixture and give the same layouts', () => {
+    for (const file of fixtureFiles()) {
+        const document = readFixture(file);
+        const regions = new RegionIndex(document.getText()).getRegions();
+        assertCovers(regions, document.getText());
+        assert.deepStrictEqual(analyzer.analyze({ ...document, regions }).structs, analyzer.analyze(document).structs, file);
+    }
+});
+
+test('an edit re-splits only the regions it touches', () => {
+    let text = generatedHeader(200);
+    const index = new RegionIndex(text);
+    const total = index.getRegions().length;
+    assert.ok(total > 20, `${total} regions`);
+
+    const offset = text.indexOf('char name[', text.length / 2);
+    const edit = { start: offset, end: offset, text: 'uint64_t extra;\n    ' };
+    text = apply(text, edit);
+    const resplit = index.update(text, [edit]);
+
+    assert.ok(resplit <= 2, `${resplit} regions re-split`);
+    assertCovers(index.getRegions(), text);
+    assertSameAnalysis(text, index.getRegions());
+});
+
+test('unterminated comments and braces merge the following regions until closed', () => {
+    let text = generatedHeader(60);
+    const index = new RegionIndex(text);
+    const total = index.getRegions().length;
+
+    // Chaque modification est appliquée au texte laissé par la précédente
+    const at = (search: string, from: number) => text.indexOf(search, from);
+    const steps: Array<() => TextEdit> = [
+        () => ({ start: at('typedef struct Record10 ', 0), end: at('typedef struct Record10 ', 0), text: '/* open\n' }),
+        () => ({ start: at('typedef struct Record40 ', 0), end: at('typedef struct Record40 ', 0), text: '*/\n' }),
+        () => ({ start: at('typedef struct Record20 ', 0), end: at('typedef struct Record20 ', 0), text: 'extern "C" {\n' }),
+        () => ({ start: at('#include', 0), end: at('#define', 0), text: '' }),
+        () => ({ start: at('typedef struct Record50 ', 0), end: at('typedef struct Record50 ', 0), text: '}\n' })
+    ];
+
+    for (const step of steps) {
+        const edit = step();
+        text = apply(text, edit);
+        index.update(text, [edit]);
+        assertCovers(index.getRegions(), text);
+        assertSameAnalysis(text, index.getRegions());
+    }
+    assert.ok(index.getRegions().length > total / 2);
+});
+
+test('several edits of one change are applied in order', () => {
+    let text = generatedHeader(80);
+    const index = new RegionIndex(text);
+
+    // Comme un curseur multiple : de la fin vers le début, chaque position reste valable
+    const edits: TextEdit[] = [];
+    for (const name of ['Record70 {', 'Record30 {', 'Record5 {']) {
+        const offset = text.indexOf(name) + name.length;
+        const edit = { start: offset, end: offset, text: '\n    int16_t added;' };
+        edits.push(edit);
+        text = apply(text, edit);
+    }
+    index.update(text, edits);
+
+    assertCovers(index.getRegions(), text);
+    assertSameAnalysis(text, index.getRegions());
+    assert.strictEqual(analyzer.analyze({ getText: () => text, languageId: 'c', regions: index.getRegions() }).structs.get('Record30')!.members[0].name, 'added');
+});
@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { StructAnalyzer } from '../structAnalyzer';
+import { TypeInfoProvider } from '../typeInfo';
+import { fixtureFiles, readFixture } from './fixtures';
+
+TypeInfoProvider.getInstance().configure({ architecture: 'lp64', bitfieldLayout: 'auto', standardLibrary: 'auto', intelliSenseMode: '' });
+const analyzer = new StructAnalyzer();
+
+// "taille/alignement" sur LP64, relevés avec g++ 12 (libstdc++)
+const expectedLayouts: Record<string, Record<string, string>> = {
+    'examples/comprehensive-test.c': {},
+    'test/class-test.cpp': { SimpleClass: '24/8', BaseClass: '4/4', DerivedClass: '40/8', ComplexClass: '296/8' },
+    'test/comprehensive-test.c': {},
+    'test/conditional-test.h': { Record: '8/4', Platform: '16/8', Text: '20/4', Slots: '12/4' },
+    'test/parser-test.cpp': { Header: '32/8', Message: '80/8', Owner: '64/8', list_node: '40/8', list_node_t: '40/8' },
+    'test/struct-test.h': { Point: '8/4', Person: '48/8', Node: '24/8', Packet: '16/8', Vector3D: '16/4', Complex: '24/8', Matrix: '72/4' },
+    'test/test.cpp': { TestClass: '24/8' }
+};
+
+test('every fixture has expected layouts', () => {
+    assert.deepStrictEqual(fixtureFiles(), Object.keys(expectedLayouts).sort());
+});
+
+for (const file of fixtureFiles()) {
+    test(`${file}: sizes and alignments`, () => {
+        const structs = analyzer.analyze(readFixture(file)).structs;
+        const layouts: Record<string, string> = {};
+        structs.forEach((info, name) => {
+            assert.deepStrictEqual(info.unresolvedTypes, [], name);
+            layouts[name] = `${info.totalSize}/${info.alignment}`;
+        });
+        assert.deepStrictEqual(layouts, expectedLayouts[file]);
+    });
+}
+
+test('test/parser-test.cpp: member offsets of Message', () => {
+    const message = analyzer.analyze(readFixture('test/parser-test.cpp')).structs.get('Message')!;
+    assert.deepStrictEqual(message.members.map(member => `${member.name}@${member.offset}`), [
+        'header@0', 'first@32', 'second@36', 'third@40', 'on_done@48', 'mode@56', '@56', 'level@56',
+        'origin@58', 'corners@62', '(anonymous)@72', 'size_kind@76'
+    ]);
+});
+
+test('test/parser-test.cpp: member positions span multi-line declarators', () => {
+    const document = readFixture('test/parser-test.cpp');
+    const source = document.getText();
+    const location = analyzer.findRecordLocations(document).find(candidate => candidate.name === 'Message')!;
+    const positions = analyzer.findMemberPositions(document, location);
+
+    assert.deepStrictEqual(positions.map(position => position.name), ['header', 'first', 'second', 'third', 'on_done', 'mode', 'level', 'origin', 'corners', 'size_kind']);
+    positions.forEach(position => assert.match(source.substring(position.statementStart, position.declaratorEnd), new RegExp(`\\b${position.name}\\b[^;]*$`)));
+    assert.ok(source.substring(0, positions[3].declaratorEnd).endsWith('\n        third'));
+});
+
+// "taille/alignement" de chaque struct d'un texte, "?" si la taille n'est pas connue
+function layoutsOf(source: string, languageId = 'c'): Record<string, string> {
+    const layouts: Record<string, string> = {};
+    analyzer.analyze({ getText: () => source, languageId }).structs.forEach((info, name) => {
+        layouts[name] = info.unresolvedTypes.length > 0 ? '?' : `${info.totalSize}/${info.alignment}`;
+    });
+    return layouts;
+}
+
+test('flexible array members take no space but keep their alignment', () => {
+    assert.deepStrictEqual(layoutsOf('struct s { int n; char data[]; };\nstruct t { char c; double d[]; };\nstruct u { char c; int m[][2]; };'), {
+        s: '4/4', t: '8/8', u: '4/4'
+    });
+});
+
+test('MSVC bitfields: ":0" after a bitfield aligns the next unit to its type', () => {
+    const typeProvider = TypeInfoProvider.getInstance();
+    const layouts = typeProvider.withProfile(typeProvider.findProfile('llp64')!, () => layoutsOf(
+        'struct a { unsigned char a:4; unsigned int :0; unsigned char b:4; };\n' +
+        'struct b { unsigned int :0; char c; };\n' +
+        'struct c { char x; unsigned int :0; char c; };\n' +
+        'struct d { unsigned short a:3; unsigned long long :0; char c; };'
+    ));
+    // Relevés avec gcc -mms-bitfields
+    assert.deepStrictEqual(layouts, { a: '8/4', b: '1/1', c: '2/1', d: '16/8' });
+});
+
+test('template specializations replace the primary template for matching arguments', () => {
+    const layouts = layoutsOf(
+        'template <int N> struct Arr { Arr<N - 1> rest; char c; };\n' +
+        'template <> struct Arr<0> {};\n' +
+        'template <typename T> struct X { T value; };\n' +
+        'template <typename T> struct X<T *> { T *p; char tag[8]; };\n' +
+        'template <> struct X<char> { char buf[16]; };\n' +
+        'struct UsesArr { Arr<3> a; };\n' +
+        'struct UsesChar { X<char> x; };\n' +
+        'struct UsesPointer { X<int *> x; };\n' +
+        'struct UsesInt { X<int> x; };',
+        'cpp'
+    );
+    assert.deepStrictEqual(layouts, { UsesArr: '4/1', UsesChar: '16/1', UsesPointer: '16/8', UsesInt: '4/4' });
+});
+
+test('endless template recursion leaves the size unknown', () => {
+    const layouts = layoutsOf('template <int N> struct Deep { Deep<N + 1> next; };\nstruct UsesDeep { Deep<0> d; };', 'cpp');
+    assert.deepStrictEqual(layouts, { UsesDeep: '?' });
+});
+
+// Déclaration et taille de la variable "name" vue depuis sa dernière occurrence
+function variableOf(source: string, name: string): string {
+    const variable = analyzer.findVariable({ getText: () => source, languageId: 'c' }, name, source.lastIndexOf(name));
+    return variable ? `${variable.declaration}: ${variable.totalSize}` : '?';
+}
+
+test('declarators after a brace initializer are found', () => {
+    const source = 'struct pt { int x, y; };\nvoid f(void) {\n    struct pt a = {1, 2}, *pa = &a, many[3][4];\n    use(a, pa, many);\n}\n';
+    assert.strictEqual(variableOf(source, 'a'), 'struct pt a: 8');
+    assert.strictEqual(variableOf(source, 'pa'), 'struct pt* pa: 8');
+    assert.strictEqual(variableOf(source, 'many'), 'struct pt many[3][4]: 96');
+});
+
+test('variable declarations keep cv-qualifiers and function pointer parameters', () => {
+    const source = 'struct pt { int x, y; };\n' +
+        'const char *const label = "x";\nconst struct pt origin = {0, 0};\n' +
+        'int (*compare)(const void *, const void *);\nvoid (*handlers[4])(int);\n' +
+        'void g(void) { use(label, origin, compare, handlers); }\n';
+    assert.strictEqual(variableOf(source, 'label'), 'const char* const label: 8');
+    assert.strictEqual(variableOf(source, 'origin'), 'const struct pt origin: 8');
+    assert.strictEqual(variableOf(source, 'compare'), 'int (*compare)(const void *, const void *): 8');
+    assert.strictEqual(variableOf(source, 'handlers'), 'void (*handlers[4])(int): 32');
+});
+
+test('qualified member types resolve through their namespace and enclosing records', () => {
+    const layouts = layoutsOf(
+        'namespace ns { struct InNs { double d; }; namespace inner { struct Deep { char c[3]; }; } }\n' +
+        'namespace other { struct InNs { char c; }; }\n' +
+        'struct Outer { struct Nested { int a, b; }; };\n' +
+        'struct Uses { ns::InNs n; ns::inner::Deep d; Outer::Nested o; other::InNs c; };\n' +
+        'namespace ns { struct Relative { inner::Deep d; InNs n; }; }',
+        'cpp'
+    );
+    assert.strictEqual(layouts.Uses, '24/8');
+    assert.strictEqual(layouts.Relative, '16/8');
+});
+
+test('member types resolve through the scope of the record that uses them', () => {
+    const layouts = layoutsOf(
+        'namespace a { struct T { double d; }; }\nnamespace b { struct T { char c; }; }\n' +
+        'namespace b { struct V { T t; }; }\nnamespace a { struct W { T t; }; }\n' +
+        'struct Ambiguous { T t; };\nstruct Global { int i; };\nnamespace a { struct Global { double d; }; }\nstruct UsesGlobal { Global g; };',
+        'cpp'
+    );
+    assert.strictEqual(layouts.V, '1/1');
+    assert.strictEqual(layouts.W, '8/8');
+    assert.strictEqual(layouts.Ambiguous, '?');
+    assert.strictEqual(layouts.UsesGlobal, '4/4');
+});
+
+test('layout assertions add <stddef.h> for offsetof unless it is already included', () => {
+    const withoutHeader = '#include <stdint.h>\n\nstruct msg { uint8_t tag; uint32_t value; };\n';
+    const assertions = analyzer.createLayoutAssertions({ getText: () => withoutHeader, languageId: 'c' }, withoutHeader.indexOf('msg'));
+    assert.ok(assertions && assertions.text.includes('offsetof(struct msg, value) == 4'));
+    assert.deepStrictEqual(assertions!.include, { offset: '#include <stdint.h>\n'.length, text: '#include <stddef.h>\n' });
+
+    const withHeader = '#include <stddef.h>\n' + withoutHeader;
+    const included = analyzer.createLayoutAssertions({ getText: () => withHeader, languageId: 'c' }, withHeader.indexOf('msg'));
+    assert.strictEqual(included && included.include, undefined);
+
+    const cpp = 'class Opaque { int hidden; };\n';
+    const sizeOnly = analyzer.createLayoutAssertions({ getText: () => cpp, languageId: 'cpp' }, cpp.indexOf('Opaque'));
+    assert.strictEqual(sizeOnly && sizeOnly.include, undefined);
+});
@@ -1,22 +1,146 @@
 import * as os from 'os';
-import * as vscode from 'vscode';
+import { StandardLayoutContext, StandardLibrary } from './stdTemplates';
+import { BitfieldLayout, builtinProfiles, CanonicalType, legacyProfileAliases, TargetProfile, TypeLayout } from './targetProfiles';
 
 export interface TypeInfo {
-    x32: { size: number; alignment: number };
-    x64: { size: number; alignment: number };
+    size: number;
+    alignment: number;
+    // Non défini pour les types flottants
+    signed?: boolean;
     desc?: string;
 }
 
-type ArchitectureMode = 'auto' | 'x32' | 'x64' | 'target';
+// Type déclaré par l'utilisateur (réglages ou .memsizehover.json)
+export interface CustomTypeDefinition {
+    size: number;
+    alignment: number;
+    signed?: boolean;
+    description?: string;
+    // Tailles propres à certaines architectures, par id de profil
+    architectures?: { [profileId: string]: TypeLayout };
+}
+
+// Réglages qui choisissent la cible : lus dans VS Code par l'extension, sur la ligne de commande par la CLI
+export interface TypeInfoSettings {
+    // 'auto' (hôte), 'target' (mode IntelliSense) ou identifiant de profil
+    architecture: string;
+    bitfieldLayout: BitfieldLayout | 'auto';
+    standardLibrary: StandardLibrary | 'auto';
+    // C_Cpp.default.intelliSenseMode, utilisé avec architecture 'target'
+    intelliSenseMode: string;
+}
+
+// Type fondamental, ou famille dont la correspondance dépend du profil
+type TypeBase = CanonicalType | 'size' | 'time' | 'exact8' | 'exact16' | 'exact32' | 'exact64' | 'fast8' | 'fast16' | 'fast32' | 'fast64';
+
+interface BuiltinType {
+    base: TypeBase;
+    unsigned?: boolean;
+    desc: string;
+}
 
 export class TypeInfoProvider {
     private static instance: TypeInfoProvider;
+
+    private static readonly builtinTypes: { [key: string]: BuiltinType } = {
+        // Basic integer types
+        'char': { base: 'char', desc: 'Character type, always 1 byte' },
+        'signed char': { base: 'char', unsigned: false, desc: 'Signed character (-128 to 127)' },
+        'unsigned char': { base: 'char', unsigned: true, desc: 'Unsigned character (0 to 255)' },
+
+        // Short integers
+        'short': { base: 'short', unsigned: false, desc: 'Short integer, typically 16-bit' },
+        'short int': { base: 'short', unsigned: false, desc: 'Short integer, typically 16-bit' },
+        'unsigned short': { base: 'short', unsigned: true, desc: 'Unsigned short integer' },
+        'unsigned short int': { base: 'short', unsigned: true, desc: 'Unsigned short integer' },
+
+        // Standard integers
+        'int': { base: 'int', unsigned: false, desc: 'Standard integer, typically 32-bit' },
+        'signed': { base: 'int', unsigned: false, desc: 'Signed integer (same as int)' },
+        'signed int': { base: 'int', unsigned: false, desc: 'Signed integer, typically 32-bit' },
+        'unsigned': { base: 'int', unsigned: true, desc: 'Unsigned integer' },
+        'unsigned int': { base: 'int', unsigned: true, desc: 'Unsigned integer, typically 32-bit' },
+
+        // Long integers (platform dependent)
+        'long': { base: 'long', unsigned: false, desc: 'Long integer (platform dependent)' },
+        'long int': { base: 'long', unsigned: false, desc: 'Long integer (platform dependent)' },
+        'signed long': { base: 'long', unsigned: false, desc: 'Signed long integer' },
+        'signed long int': { base: 'long', unsigned: false, desc: 'Signed long integer' },
+        'unsigned long': { base: 'long', unsigned: true, desc: 'Unsigned long integer' },
+        'unsigned long int': { base: 'long', unsigned: true, desc: 'Unsigned long integer' },
+
+        // Long long integers
+        'long long': { base: 'long long', unsigned: false, desc: 'Long long integer, always 64-bit' },
+        'long long int': { base: 'long long', unsigned: false, desc: 'Long long integer, always 64-bit' },
+        'signed long long': { base: 'long long', unsigned: false, desc: 'Signed long long integer' },
+        'signed long long int': { base: 'long long', unsigned: false, desc: 'Signed long long integer' },
+        'unsigned long long': { base: 'long long', unsigned: true, desc: 'Unsigned long long integer' },
+        'unsigned long long int': { base: 'long long', unsigned: true, desc: 'Unsigned long long integer' },
+
+        // Floating point types
+        'float': { base: 'float', desc: 'Single precision floating point (IEEE 754)' },
+        'double': { base: 'double', desc: 'Double precision floating point (IEEE 754)' },
+        'long double': { base: 'long double', desc: 'Extended precision floating point' },
+
+        // Boolean and wide character
+        'bool': { base: '_Bool', unsigned: true, desc: 'Boolean type (C++)' },
+        '_Bool': { base: '_Bool', unsigned: true, desc: 'Boolean type (C99)' },
+        'wchar_t': { base: 'wchar_t', desc: 'Wide character type' },
+
+        // System types
+        'size_t': { base: 'size', unsigned: true, desc: 'Size type for array indexing' },
+        'ssize_t': { base: 'size', unsigned: false, desc: 'Signed size type' },
+        'ptrdiff_t': { base: 'size', unsigned: false, desc: 'Pointer difference type' },
+        'intptr_t': { base: 'size', unsigned: false, desc: 'Integer type for storing pointers' },
+        'uintptr_t': { base: 'size', unsigned: true, desc: 'Unsigned integer type for storing pointers' },
+        'off_t': { base: 'long', unsigned: false, desc: 'File offset type' },
+        'time_t': { base: 'time', unsigned: false, desc: 'Time type' },
+
+        // Fixed-width integer types (C99/C++11)
+        'int8_t': { base: 'exact8', unsigned: false, desc: 'Exactly 8-bit signed integer' },
+        'uint8_t': { base: 'exact8', unsigned: true, desc: 'Exactly 8-bit unsigned integer' },
+        'int16_t': { base: 'exact16', unsigned: false, desc: 'Exactly 16-bit signed integer' },
+        'uint16_t': { base: 'exact16', unsigned: true, desc: 'Exactly 16-bit unsigned integer' },
+        'int32_t': { base: 'exact32', unsigned: false, desc: 'Exactly 32-bit signed integer' },
+        'uint32_t': { base: 'exact32', unsigned: true, desc: 'Exactly 32-bit unsigned integer' },
+        'int64_t': { base: 'exact64', unsigned: false, desc: 'Exactly 64-bit signed integer' },
+        'uint64_t': { base: 'exact64', unsigned: true, desc: 'Exactly 64-bit unsigned integer' },
+
+        // Fast and least types
+        'int_fast8_t': { base: 'fast8', unsigned: false, desc: 'Fastest type with at least 8 bits' },
+        'uint_fast8_t': { base: 'fast8', unsigned: true, desc: 'Fastest unsigned type with at least 8 bits' },
+        'int_fast16_t': { base: 'fast16', unsigned: false, desc: 'Fastest type with at least 16 bits' },
+        'uint_fast16_t': { base: 'fast16', unsigned: true, desc: 'Fastest unsigned type with at least 16 bits' },
+        'int_fast32_t': { base: 'fast32', unsigned: false, desc: 'Fastest type with at least 32 bits' },
+        'uint_fast32_t': { base: 'fast32', unsigned: true, desc: 'Fastest unsigned type with at least 32 bits' },
+        'int_fast64_t': { base: 'fast64', unsigned: false, desc: 'Fastest type with at least 64 bits' },
+        'uint_fast64_t': { base: 'fast64', unsigned: true, desc: 'Fastest unsigned type with at least 64 bits' },
+
+        'int_least8_t': { base: 'exact8', unsigned: false, desc: 'Smallest type with at least 8 bits' },
+        'uint_least8_t': { base: 'exact8', unsigned: true, desc: 'Smallest unsigned type with at least 8 bits' },
+        'int_least16_t': { base: 'exact16', unsigned: false, desc: 'Smallest type with at least 16 bits' },
+        'uint_least16_t': { base: 'exact16', unsigned: true, desc: 'Smallest unsigned type with at least 16 bits' },
+        'int_least32_t': { base: 'exact32', unsigned: false, desc: 'Smallest type with at least 32 bits' },
+        'uint_least32_t': { base: 'exact32', unsigned: true, desc: 'Smallest unsigned type with at least 32 bits' },
+        'int_least64_t': { base: 'exact64', unsigned: false, desc: 'Smallest type with at least 64 bits' },
+        'uint_least64_t': { base: 'exact64', unsigned: true, desc: 'Smallest unsigned type with at least 64 bits' },
+
+        // Maximum width types
+        'intmax_t': { base: 'exact64', unsigned: false, desc: 'Maximum width signed integer' },
+        'uintmax_t': { base: 'exact64', unsigned: true, desc: 'Maximum width unsigned integer' }
+    };
+
     private architecture: string;
-    private is64Bit: boolean;
+    private profile: TargetProfile;
+    private bitfieldLayout: BitfieldLayout = 'sysv';
+    private standardLibrary: StandardLibrary = 'libstdc++';
+    private customProfiles: TargetProfile[] = [];
+    private customTypes: Map<string, CustomTypeDefinition> = new Map();
+    private settings: TypeInfoSettings = { architecture: 'auto', bitfieldLayout: 'auto', standardLibrary: 'auto', intelliSenseMode: '' };
 
     private constructor() {
-        this.architecture = os.arch();
-        this.is64Bit = this.architecture.includes('64');
+        this.profile = this.hostProfile();
+        this.architecture = this.profile.label;
         this.refreshArchitecture();
     }
 
@@ -31,140 +155,191 @@ export class TypeInfoProvider {
         return this.architecture;
     }
 
+    public getProfile(): TargetProfile {
+        return this.profile;
+    }
+
     public is64BitArch(): boolean {
-        return this.is64Bit;
+        return this.profile.types.pointer.size >= 8;
+    }
+
+    public configure(settings: TypeInfoSettings): void {
+        this.settings = { ...settings };
+        this.refreshArchitecture();
     }
 
     public refreshArchitecture(): void {
         const resolved = this.resolveArchitecture();
+        this.profile = resolved.profile;
         this.architecture = resolved.arch;
-        this.is64Bit = resolved.is64Bit;
+        this.bitfieldLayout = this.resolveBitfieldLayout();
+        this.standardLibrary = this.resolveStandardLibrary();
     }
 
-    public getTypeInfo(type: string): TypeInfo | null {
+    // Évalue callback comme si profile était la cible choisie, puis restaure la cible courante
+    public withProfile<T>(profile: TargetProfile, callback: () => T): T {
+        const saved = {
+            profile: this.profile,
+            architecture: this.architecture,
+            bitfieldLayout: this.bitfieldLayout,
+            standardLibrary: this.standardLibrary
+        };
+
+        this.profile = profile;
+        this.architecture = profile.label;
+        this.bitfieldLayout = this.resolveBitfieldLayout();
+        this.standardLibrary = this.resolveStandardLibrary();
+        try {
+            return callback();
+        } finally {
+            this.profile = saved.profile;
+            this.architecture = saved.architecture;
+            this.bitfieldLayout = saved.bitfieldLayout;
+            this.standardLibrary = saved.standardLibrary;
+        }
+    }
+
+    public setCustomDefinitions(profiles: TargetProfile[], types: Map<string, CustomTypeDefinition>): void {
+        this.customProfiles = profiles;
+        this.customTypes = types;
+        this.refreshArchitecture();
+    }
+
+    public getProfiles(): TargetProfile[] {
+        return [...builtinProfiles, ...this.customProfiles];
+    }
+
+    public getBitfieldLayout(): BitfieldLayout {
+        return this.bitfieldLayout;
+    }
 
-        const normalizedType = type.trim().toLowerCase().replace(/\s+/g, ' ');
-
-        const typeInfo: { [key: string]: TypeInfo } = {
-            // Basic integer types
-            'char': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Character type, always 1 byte' },
-            'signed char': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Signed character (-128 to 127)' },
-            'unsigned char': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Unsigned character (0 to 255)' },
-
-            // Short integers
-            'short': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Short integer, typically 16-bit' },
-            'short int': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Short integer, typically 16-bit' },
-            'unsigned short': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Unsigned short integer' },
-            'unsigned short int': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Unsigned short integer' },
-
-            // Standard integers
-            'int': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Standard integer, typically 32-bit' },
-            'signed': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Signed integer (same as int)' },
-            'signed int': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Signed integer, typically 32-bit' },
-            'unsigned': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Unsigned integer' },
-            'unsigned int': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Unsigned integer, typically 32-bit' },
-
-            // Long integers (platform dependent)
-            'long': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Long integer (platform dependent)' },
-            'long int': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Long integer (platform dependent)' },
-            'signed long': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Signed long integer' },
-            'signed long int': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Signed long integer' },
-            'unsigned long': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Unsigned long integer' },
-            'unsigned long int': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Unsigned long integer' },
-
-            // Long long integers
-            'long long': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Long long integer, always 64-bit' },
-            'long long int': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Long long integer, always 64-bit' },
-            'signed long long': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Signed long long integer' },
-            'signed long long int': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Signed long long integer' },
-            'unsigned long long': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Unsigned long long integer' },
-            'unsigned long long int': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Unsigned long long integer' },
-
-            // Floating point types
-            'float': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Single precision floating point (IEEE 754)' },
-            'double': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Double precision floating point (IEEE 754)' },
-            'long double': { x32: {size: 12, alignment: 4}, x64: {size: 16, alignment: 16}, desc: 'Extended precision floating point' },
-
-            // Boolean and wide character
-            'bool': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Boolean type (C++)' },
-            '_Bool': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Boolean type (C99)' },
-            'wchar_t': { x32: {size: 2, alignment: 2}, x64: {size: 4, alignment: 4}, desc: 'Wide character type' },
-
-            // System types
-            'size_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Size type for array indexing' },
-            'ssize_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Signed size type' },
-            'ptrdiff_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Pointer difference type' },
-            'intptr_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Integer type for storing pointers' },
-            'uintptr_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Unsigned integer type for storing pointers' },
-            'off_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'File offset type' },
-            'time_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Time type' },
-
-            // Fixed-width integer types (C99/C++11)
-            'int8_t': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Exactly 8-bit signed integer' },
-            'uint8_t': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Exactly 8-bit unsigned integer' },
-            'int16_t': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Exactly 16-bit signed integer' },
-            'uint16_t': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Exactly 16-bit unsigned integer' },
-            'int32_t': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Exactly 32-bit signed integer' },
-            'uint32_t': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Exactly 32-bit unsigned integer' },
-            'int64_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Exactly 64-bit signed integer' },
-            'uint64_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Exactly 64-bit unsigned integer' },
-
-            // Fast and least types
-            'int_fast8_t': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Fastest type with at least 8 bits' },
-            'uint_fast8_t': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Fastest unsigned type with at least 8 bits' },
-            'int_fast16_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Fastest type with at least 16 bits' },
-            'uint_fast16_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Fastest unsigned type with at least 16 bits' },
-            'int_fast32_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Fastest type with at least 32 bits' },
-            'uint_fast32_t': { x32: {size: 4, alignment: 4}, x64: {size: 8, alignment: 8}, desc: 'Fastest unsigned type with at least 32 bits' },
-            'int_fast64_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Fastest type with at least 64 bits' },
-            'uint_fast64_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Fastest unsigned type with at least 64 bits' },
-
-            'int_least8_t': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Smallest type with at least 8 bits' },
-            'uint_least8_t': { x32: {size: 1, alignment: 1}, x64: {size: 1, alignment: 1}, desc: 'Smallest unsigned type with at least 8 bits' },
-            'int_least16_t': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Smallest type with at least 16 bits' },
-            'uint_least16_t': { x32: {size: 2, alignment: 2}, x64: {size: 2, alignment: 2}, desc: 'Smallest unsigned type with at least 16 bits' },
-            'int_least32_t': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Smallest type with at least 32 bits' },
-            'uint_least32_t': { x32: {size: 4, alignment: 4}, x64: {size: 4, alignment: 4}, desc: 'Smallest unsigned type with at least 32 bits' },
-            'int_least64_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Smallest type with at least 64 bits' },
-            'uint_least64_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Smallest unsigned type with at least 64 bits' },
-
-            // Maximum width types
-            'intmax_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Maximum width signed integer' },
-            'uintmax_t': { x32: {size: 8, alignment: 8}, x64: {size: 8, alignment: 8}, desc: 'Maximum width unsigned integer' }
+    public getStandardLibrary(): StandardLibrary {
+        return this.standardLibrary;
+    }
+
+    // Tailles dont dépendent les formules des types de la bibliothèque standard
+    public getStandardLayoutContext(): StandardLayoutContext {
+        const types = this.profile.types;
+        return {
+            library: this.standardLibrary,
+            pointer: types.pointer,
+            sizeType: types[this.profile.sizeType],
+            long: types.long,
+            maxAlignment: Math.max(types['long double'].alignment, types['long long'].alignment, types.pointer.alignment)
         };
+    }
 
-        return typeInfo[normalizedType] || null;
+    public getBiggestAlignment(): number {
+        return this.profile.biggestAlignment;
+    }
+
+    public getTypeInfo(type: string): TypeInfo | null {
+
+        const normalizedType = type.trim().replace(/\s+/g, ' ');
+
+        const custom = this.customTypes.get(normalizedType);
+        if (custom) {
+            const override = custom.architectures ? custom.architectures[this.profile.id] : undefined;
+            return {
+                size: override ? override.size : custom.size,
+                alignment: override ? override.alignment : custom.alignment,
+                signed: custom.signed,
+                desc: custom.description || 'User-defined type (settings)'
+            };
+        }
+
+        if (!Object.prototype.hasOwnProperty.call(TypeInfoProvider.builtinTypes, normalizedType)) {
+            return null;
+        }
+
+        const builtin = TypeInfoProvider.builtinTypes[normalizedType];
+        if (!builtin) {
+            return null;
+        }
+
+        const canonical = this.resolveBase(builtin.base);
+        if (!canonical) {
+            return null;
+        }
+
+        const layout = this.profile.types[canonical];
+        return {
+            size: layout.size,
+            alignment: layout.alignment,
+            signed: this.resolveSignedness(builtin, canonical),
+            desc: builtin.desc
+        };
     }
 
     public getMemorySize(type: string): number | null {
         const info = this.getTypeInfo(type);
         if (!info) return null;
-        return this.is64Bit ? info.x64.size : info.x32.size;
+        return info.size;
     }
 
     public getAlignment(type: string): number | null {
         const info = this.getTypeInfo(type);
         if (!info) return null;
-        return this.is64Bit ? info.x64.alignment : info.x32.alignment;
+        return info.alignment;
     }
 
     public getPointerSize(): number {
-        return this.is64Bit ? 8 : 4;
+        return this.profile.types.pointer.size;
     }
 
-    private resolveArchitecture(): { is64Bit: boolean; arch: string } {
-        const config = vscode.workspace.getConfiguration('memorySizeHover');
-        const mode = config.get<ArchitectureMode>('architecture', 'auto');
-        const hostArch = os.arch();
-        const hostIs64 = hostArch.includes('64');
+    public getPointerAlignment(): number {
+        return this.profile.types.pointer.alignment;
+    }
 
-        if (mode === 'x32') {
-            return { is64Bit: false, arch: 'x32 (manual)' };
+    private resolveBase(base: TypeBase): CanonicalType | null {
+        switch (base) {
+            case 'size':
+                return this.profile.sizeType;
+            case 'time':
+                return this.profile.timeType;
+            case 'fast8':
+                return this.profile.fastTypes[0];
+            case 'fast16':
+                return this.profile.fastTypes[1];
+            case 'fast32':
+                return this.profile.fastTypes[2];
+            case 'fast64':
+                return this.profile.fastTypes[3];
+            case 'exact8':
+            case 'exact16':
+            case 'exact32':
+            case 'exact64': {
+                // Premier type entier standard ayant exactement cette largeur
+                const bits = parseInt(base.substring(5));
+                const candidates: CanonicalType[] = ['char', 'short', 'int', 'long', 'long long'];
+                return candidates.find(candidate => this.profile.types[candidate].size * 8 === bits) || null;
+            }
+            default:
+                return base;
         }
+    }
 
-        if (mode === 'x64') {
-            return { is64Bit: true, arch: 'x64 (manual)' };
+    private resolveSignedness(builtin: BuiltinType, canonical: CanonicalType): boolean | undefined {
+        if (builtin.unsigned !== undefined) {
+            return !builtin.unsigned;
+        }
+        if (canonical === 'char') {
+            return this.profile.charSigned;
+        }
+        if (canonical === 'wchar_t') {
+            return this.profile.wcharSigned;
         }
+        return undefined;
+    }
+
+    public findProfile(id: string): TargetProfile | undefined {
+        const profileId = legacyProfileAliases[id] || id;
+        return this.getProfiles().find(profile => profile.id === profileId);
+    }
+
+    private resolveArchitecture(): { profile: TargetProfile; arch: string } {
+        const mode = this.settings.architecture;
+        const hostProfile = this.hostProfile();
 
         if (mode === 'target') {
             const targetArch = this.detectTargetArchitecture();
@@ -172,33 +347,96 @@ export class TypeInfoProvider {
                 return targetArch;
             }
             return {
-                is64Bit: hostIs64,
-                arch: `${hostArch} (target unavailable, host fallback)`
+                profile: hostProfile,
+                arch: `${hostProfile.label} (target unavailable, host fallback)`
             };
         }
 
+        if (mode !== 'auto') {
+            const profile = this.findProfile(mode);
+            if (profile) {
+                return { profile, arch: `${profile.label} (manual)` };
+            }
+        }
+
         return {
-            is64Bit: hostIs64,
-            arch: `${hostArch} (host)`
+            profile: hostProfile,
+            arch: `${hostProfile.label} (host)`
         };
     }
 
-    private detectTargetArchitecture(): { is64Bit: boolean; arch: string } | null {
-        const cppConfig = vscode.workspace.getConfiguration('C_Cpp');
-        const mode = cppConfig.get<string>('default.intelliSenseMode', '').toLowerCase();
+    private hostProfile(): TargetProfile {
+        const hostArch = os.arch();
+        const isWindows = process.platform === 'win32';
+
+        let id: string;
+        if (hostArch === 'arm64') {
+            id = isWindows ? 'llp64' : process.platform === 'darwin' ? 'apple-arm64' : 'aarch64';
+        } else if (hostArch === 'arm') {
+            id = 'arm-eabi';
+        } else if (hostArch === 'riscv64') {
+            id = 'riscv64';
+        } else if (hostArch.includes('64')) {
+            id = isWindows ? 'llp64' : 'lp64';
+        } else {
+            id = isWindows ? 'msvc-x86' : 'ilp32';
+        }
+
+        return this.findProfile(id) || builtinProfiles[0];
+    }
+
+    private resolveBitfieldLayout(): BitfieldLayout {
+        const mode = this.settings.bitfieldLayout;
+
+        if (mode === 'sysv' || mode === 'msvc') {
+            return mode;
+        }
+
+        // En auto, on suit le profil de la cible
+        return this.profile.bitfieldLayout;
+    }
+
+    private resolveStandardLibrary(): StandardLibrary {
+        const mode = this.settings.standardLibrary;
+
+        if (mode === 'libstdc++' || mode === 'libc++' || mode === 'msvc') {
+            return mode;
+        }
+
+        // En auto : MSVC STL pour les cibles Windows, libc++ pour Apple, libstdc++ sinon
+        if (this.profile.bitfieldLayout === 'msvc') {
+            return 'msvc';
+        }
+        return this.profile.id.startsWith('apple') ? 'libc++' : 'libstdc++';
+    }
+
+    private detectTargetArchitecture(): { profile: TargetProfile; arch: string } | null {
+        const mode = this.settings.intelliSenseMode.toLowerCase();
 
         if (!mode) {
             return null;
         }
 
-        if (mode.includes('x64') || mode.includes('amd64') || mode.includes('arm64') || mode.includes('aarch64')) {
-            return { is64Bit: true, arch: `x64 (target: ${mode})` };
+        // ex: windows-msvc-x64, linux-gcc-arm64, macos-clang-arm64, gcc-x86
+        const isWindows = mode.includes('msvc') || mode.startsWith('windows');
+        const is64 = /x64|amd64|arm64|aarch64/.test(mode);
+
+        let id: string | null = null;
+        if (mode.includes('arm64') || mode.includes('aarch64')) {
+            id = isWindows ? 'llp64' : mode.startsWith('macos') ? 'apple-arm64' : 'aarch64';
+        } else if (mode.includes('arm')) {
+            id = isWindows ? 'msvc-x86' : 'arm-eabi';
+        } else if (is64) {
+            id = isWindows ? 'llp64' : 'lp64';
+        } else if (/x86|i386|i686|32/.test(mode)) {
+            id = isWindows ? 'msvc-x86' : 'ilp32';
         }
 
-        if (mode.includes('x86') || mode.includes('i386') || mode.includes('i686') || mode.includes('arm') || mode.includes('32')) {
-            return { is64Bit: false, arch: `x32 (target: ${mode})` };
+        const profile = id ? this.findProfile(id) : undefined;
+        if (!profile) {
+            return null;
         }
 
-        return null;
+        return { profile, arch: `${profile.label} (target: ${mode})` };
     }
 }
@@ -0,0 +1,479 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { stripJsonComments } from './jsonComments';
+import { Preprocessor } from './preprocessor';
+import { TextRegion } from './sourceRegions';
+import { StructAnalyzer } from './structAnalyzer';
+
+// En-têtes indexés au démarrage pour retrouver les types déclarés ailleurs
+const HEADER_GLOB = '**/*.{h,hh,hpp,hxx,inc}';
+// Fichiers pouvant être inclus, surveillés pour invalider l'index
+const SOURCE_GLOB = '**/*.{h,hh,hpp,hxx,inc,c,cc,cpp,cxx}';
+const MAX_INDEXED_FILES = 5000;
+// Délai après la dernière modification d'un fichier indexé avant de signaler le changement
+const CHANGE_DELAY = 500;
+
+interface IncludeDirective {
+    name: string;
+    // #include "..." (cherché d'abord à côté du fichier) ou #include <...>
+    quoted: boolean;
+}
+
+// Commande de compilation d'un fichier dans compile_commands.json : compilateur en premier argument
+export interface CompileCommand {
+    directory: string;
+    arguments: string[];
+}
+
+interface IndexedFile {
+    text: string;
+    includes: IncludeDirective[];
+    typeNames: string[];
+}
+
+// Index des types déclarés dans le workspace : suit les #include des documents
+// et fournit à StructAnalyzer le texte des fichiers où sont définis leurs types
+export class WorkspaceIndex implements vscode.Disposable {
+    private files: Map<string, IndexedFile> = new Map();
+    // Nom de type -> fichiers qui le déclarent
+    private typeLocations: Map<string, Set<string>> = new Map();
+    private includePaths: string[] = [];
+    // Fichier source -> sa commande dans compile_commands.json
+    private compileCommands: Map<string, CompileCommand> = new Map();
+    private structAnalyzer: StructAnalyzer;
+    private preprocessor: Preprocessor;
+    // Fichiers en cours de lecture, et chemins dont la lecture a échoué (inexistants)
+    private loading: Set<string> = new Set();
+    private missing: Set<string> = new Set();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private pendingChange?: ReturnType<typeof setTimeout>;
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChange: vscode.Event<void> = this.changeEmitter.event;
+
+    constructor() {
+        this.structAnalyzer = new StructAnalyzer();
+        this.preprocessor = new Preprocessor();
+
+        const sourceWatcher = vscode.workspace.createFileSystemWatcher(SOURCE_GLOB);
+        sourceWatcher.onDidCreate(uri => this.invalidate(uri.fsPath));
+        sourceWatcher.onDidChange(uri => this.invalidate(uri.fsPath));
+        sourceWatcher.onDidDelete(uri => this.invalidate(uri.fsPath));
+
+        const buildConfigWatcher = vscode.workspace.createFileSystemWatcher('**/{compile_commands.json,c_cpp_properties.json}');
+        buildConfigWatcher.onDidCreate(() => this.reloadIncludePaths());
+        buildConfigWatcher.onDidChange(() => this.reloadIncludePaths());
+        buildConfigWatcher.onDidDelete(() => this.reloadIncludePaths());
+
+        // Les modifications non enregistrées d'un en-tête ouvert sont prises en compte
+        const documentListener = vscode.workspace.onDidChangeTextDocument(event => {
+            if (this.files.has(event.document.uri.fsPath)) {
+                this.invalidate(event.document.uri.fsPath);
+            }
+        });
+
+        this.disposables.push(sourceWatcher, buildConfigWatcher, documentListener, this.changeEmitter);
+    }
+
+    public async build(): Promise<void> {
+        await this.loadIncludePaths();
+
+        const uris = await vscode.workspace.findFiles(HEADER_GLOB, '**/node_modules/**', MAX_INDEXED_FILES);
+        for (const uri of uris) {
+            if (this.files.has(uri.fsPath)) {
+                continue;
+            }
+            try {
+                const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                this.store(uri.fsPath, text);
+            } catch {
+                // Fichier supprimé entre-temps ou illisible
+            }
+        }
+
+        this.changeEmitter.fire();
+    }
+
+    public async reloadIncludePaths(): Promise<void> {
+        await this.loadIncludePaths();
+        this.missing.clear();
+        this.changeEmitter.fire();
+    }
+
+    // Textes à fournir à StructAnalyzer pour analyser le document : les macros de la ligne de
+    // commande, les fichiers inclus (récursivement), puis ceux qui déclarent les types encore inconnus du document.
+    // regions est la découpe du document tenue par StructCache, si elle existe
+    public getRelatedTexts(document: vscode.TextDocument, regions?: TextRegion[]): string[] {
+        return this.getRelatedTextsFor(document.getText(), document.uri.scheme === 'file' ? document.uri.fsPath : undefined, regions);
+    }
+
+    // Même recherche pour un fichier lu sans éditeur (rapport de layout)
+    public getRelatedTextsFor(text: string, ownPath?: string, regions?: TextRegion[]): string[] {
+        const visited = new Set<string>(ownPath ? [ownPath] : []);
+        const ordered: string[] = [];
+
+        const fromDir = ownPath ? path.dirname(ownPath) : undefined;
+        for (const include of this.parseIncludes(text)) {
+            const resolved = this.resolveInclude(include, fromDir);
+            if (resolved) {
+                this.collect(resolved, visited, ordered);
+            }
+        }
+
+        // Types utilisés dans le document mais déclarés dans un fichier non inclus
+        const known = new Set(this.structAnalyzer.declaredTypeNames(text, regions));
+        ordered.forEach(filePath => this.getFile(filePath)!.typeNames.forEach(name => known.add(name)));
+
+        const identifiers = new Set(text.match(/\b[A-Za-z_]\w*\b/g) || []);
+        for (const identifier of identifiers) {
+            const locations = this.typeLocations.get(identifier);
+            if (!locations || known.has(identifier)) {
+                continue;
+            }
+
+            const location = Array.from(locations).find(filePath => !visited.has(filePath));
+            if (location) {
+                this.collect(location, visited, ordered);
+                this.getFile(location)!.typeNames.forEach(name => known.add(name));
+            }
+        }
+
+        const texts = ordered.map(filePath => this.getFile(filePath)!.text);
+        const prelude = this.preprocessor.definesPrelude(this.getDefines(ownPath));
+        return prelude ? [prelude, ...texts] : texts;
+    }
+
+    // "-DNAME=value" et "-UNAME" de la commande du fichier dans compile_commands.json, puis le réglage memorySizeHover.defines
+    public getDefines(filePath?: string): string[] {
+        const defines: string[] = [];
+        const command = filePath ? this.getCompileCommand(filePath) : null;
+        if (command) {
+            const args = command.arguments;
+            for (let i = 1; i < args.length; i++) {
+                const flag = /^([-/][DU])(.*)$/.exec(args[i]);
+                if (!flag) {
+                    continue;
+                }
+                // "-DNAME" ou "-D NAME"
+                const value = flag[2] || args[++i];
+                if (value) {
+                    defines.push(flag[1] + value);
+                }
+            }
+        }
+
+        const config = vscode.workspace.getConfiguration('memorySizeHover');
+        return [...defines, ...config.get<string[]>('defines', [])];
+    }
+
+    // Commande du fichier, ou à défaut celle d'un fichier du même dossier ou la première :
+    // les en-têtes n'ont pas d'entrée propre mais partagent les options de leurs sources
+    public getCompileCommand(filePath: string): CompileCommand | null {
+        const exact = this.compileCommands.get(filePath);
+        if (exact) {
+            return exact;
+        }
+
+        const directory = path.dirname(filePath);
+        for (const [source, command] of this.compileCommands) {
+            if (path.dirname(source) === directory) {
+                return command;
+            }
+        }
+
+        const first = this.compileCommands.values().next();
+        return first.done ? null : first.value;
+    }
+
+    public dispose(): void {
+        if (this.pendingChange) {
+            clearTimeout(this.pendingChange);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    // Parcours en profondeur : un fichier suit toujours ceux qu'il inclut
+    private collect(filePath: string, visited: Set<string>, ordered: string[]): void {
+        if (visited.has(filePath)) {
+            return;
+        }
+        visited.add(filePath);
+
+        const file = this.getFile(filePath);
+        if (!file) {
+            return;
+        }
+
+        for (const include of file.includes) {
+            const resolved = this.resolveInclude(include, path.dirname(filePath));
+            if (resolved) {
+                this.collect(resolved, visited, ordered);
+            }
+        }
+
+        ordered.push(filePath);
+    }
+
+    private resolveInclude(include: IncludeDirective, fromDir?: string): string | null {
+        const directories = include.quoted && fromDir ? [fromDir, ...this.includePaths] : this.includePaths;
+
+        // Pas d'accès disque synchrone ici (appelé pendant le survol) : un candidat encore inconnu
+        // est lu en arrière-plan et le changement est signalé une fois le fichier indexé
+        for (const directory of directories) {
+            const candidate = path.resolve(directory, include.name);
+            if (this.files.has(candidate)) {
+                return candidate;
+            }
+            this.load(candidate);
+        }
+
+        // Chemins récursifs ("${workspaceFolder}/**") ou non configurés : chercher dans l'index
+        const suffix = '/' + include.name.replace(/\\/g, '/');
+        for (const filePath of this.files.keys()) {
+            if (filePath.replace(/\\/g, '/').endsWith(suffix)) {
+                return filePath;
+            }
+        }
+
+        return null;
+    }
+
+    private getFile(filePath: string): IndexedFile | null {
+        const cached = this.files.get(filePath);
+        if (cached) {
+            return cached;
+        }
+
+        // Un document ouvert peut contenir des modifications non enregistrées
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === filePath);
+        if (openDocument) {
+            return this.store(filePath, openDocument.getText());
+        }
+
+        this.load(filePath);
+        return null;
+    }
+
+    private load(filePath: string): void {
+        if (this.files.has(filePath) || this.loading.has(filePath) || this.missing.has(filePath)) {
+            return;
+        }
+        this.loading.add(filePath);
+
+        vscode.workspace.fs.readFile(vscode.Uri.file(filePath)).then(content => {
+            this.loading.delete(filePath);
+            // Un document ouvert entre-temps a déjà été indexé avec son texte courant
+            if (!this.files.has(filePath)) {
+                this.store(filePath, Buffer.from(content).toString('utf8'));
+                this.scheduleChange();
+            }
+        }, () => {
+            this.loading.delete(filePath);
+            this.missing.add(filePath);
+        });
+    }
+
+    private store(filePath: string, text: string): IndexedFile {
+        this.remove(filePath);
+
+        const file: IndexedFile = {
+            text,
+            includes: this.parseIncludes(text),
+            typeNames: this.structAnalyzer.declaredTypeNames(text)
+        };
+        this.files.set(filePath, file);
+
+        for (const name of file.typeNames) {
+            let locations = this.typeLocations.get(name);
+            if (!locations) {
+                locations = new Set();
+                this.typeLocations.set(name, locations);
+            }
+            locations.add(filePath);
+        }
+
+        return file;
+    }
+
+    private remove(filePath: string): void {
+        const file = this.files.get(filePath);
+        if (!file) {
+            return;
+        }
+
+        for (const name of file.typeNames) {
+            const locations = this.typeLocations.get(name);
+            if (locations) {
+                locations.delete(filePath);
+                if (locations.size === 0) {
+                    this.typeLocations.delete(name);
+                }
+            }
+        }
+        this.files.delete(filePath);
+    }
+
+    // Seul le fichier modifié est ré-indexé, à la prochaine demande
+    private invalidate(filePath: string): void {
+        const wasIndexed = this.files.has(filePath);
+        this.remove(filePath);
+        this.missing.delete(filePath);
+
+        if (/\.(h|hh|hpp|hxx|inc)$/i.test(filePath)) {
+            this.getFile(filePath);
+        }
+
+        if (wasIndexed || this.files.has(filePath)) {
+            this.scheduleChange();
+        }
+    }
+
+    // Une frappe dans un en-tête ouvert ne relance pas toutes les analyses : les changements
+    // rapprochés sont signalés une seule fois
+    private scheduleChange(): void {
+        if (this.pendingChange) {
+            clearTimeout(this.pendingChange);
+        }
+        this.pendingChange = setTimeout(() => {
+            this.pendingChange = undefined;
+            this.changeEmitter.fire();
+        }, CHANGE_DELAY);
+    }
+
+    private parseIncludes(text: string): IncludeDirective[] {
+        const includes: IncludeDirective[] = [];
+        const includeRegex = /^[ \t]*#[ \t]*include[ \t]*(?:"([^"]+)"|<([^>]+)>)/gm;
+
+        let match;
+        while ((match = includeRegex.exec(text)) !== null) {
+            includes.push({ name: match[1] || match[2], quoted: match[1] !== undefined });
+        }
+
+        return includes;
+    }
+
+    private async loadIncludePaths(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('memorySizeHover');
+        const folders = vscode.workspace.workspaceFolders || [];
+        const paths: string[] = [];
+        this.compileCommands.clear();
+
+        for (const folder of folders) {
+            const root = folder.uri.fsPath;
+
+            for (const includePath of config.get<string[]>('includePaths', [])) {
+                paths.push(this.expandPath(includePath, root));
+            }
+
+            if (!config.get<boolean>('useBuildConfiguration', true)) {
+                continue;
+            }
+
+            paths.push(...await this.readCompileCommands(root));
+            paths.push(...await this.readCppProperties(root));
+
+            const cppConfig = vscode.workspace.getConfiguration('C_Cpp.default', folder.uri);
+            for (const includePath of cppConfig.get<string[]>('includePath', [])) {
+                paths.push(this.expandPath(includePath, root));
+            }
+        }
+
+        this.includePaths = Array.from(new Set(paths.filter(includePath => includePath.length > 0)));
+    }
+
+    private async readCompileCommands(root: string): Promise<string[]> {
+        const cppConfig = vscode.workspace.getConfiguration('C_Cpp.default');
+        const configured = cppConfig.get<string>('compileCommands');
+        const candidates = configured
+            ? [this.expandPath(configured, root)]
+            : [path.join(root, 'compile_commands.json'), path.join(root, 'build', 'compile_commands.json')];
+
+        for (const candidate of candidates) {
+            const entries = await this.readJson(candidate);
+            if (!Array.isArray(entries)) {
+                continue;
+            }
+
+            const paths: string[] = [];
+            for (const entry of entries as unknown[]) {
+                if (!this.isRecord(entry)) {
+                    continue;
+                }
+                const directory = typeof entry.directory === 'string' ? entry.directory : root;
+                const args = Array.isArray(entry.arguments)
+                    ? this.strings(entry.arguments)
+                    : typeof entry.command === 'string' ? this.splitCommand(entry.command) : [];
+                if (typeof entry.file === 'string' && args.length > 0) {
+                    this.compileCommands.set(path.resolve(directory, entry.file), { directory, arguments: args });
+                }
+
+                for (let i = 0; i < args.length; i++) {
+                    const flag = /^(-I|-isystem|-iquote|\/I)(.*)$/.exec(args[i]);
+                    if (!flag) {
+                        continue;
+                    }
+                    // "-Idir" ou "-I dir"
+                    const value = flag[2] || args[++i];
+                    if (value) {
+                        paths.push(path.resolve(directory, value));
+                    }
+                }
+            }
+            return paths;
+        }
+
+        return [];
+    }
+
+    private async readCppProperties(root: string): Promise<string[]> {
+        const properties = await this.readJson(path.join(root, '.vscode', 'c_cpp_properties.json'));
+        if (!this.isRecord(properties) || !Array.isArray(properties.configurations)) {
+            return [];
+        }
+
+        const paths: string[] = [];
+        for (const configuration of properties.configurations as unknown[]) {
+            if (this.isRecord(configuration) && Array.isArray(configuration.includePath)) {
+                paths.push(...this.strings(configuration.includePath).map(includePath => this.expandPath(includePath, root)));
+            }
+        }
+        return paths;
+    }
+
+    private async readJson(filePath: string): Promise<unknown> {
+        try {
+            const text = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8');
+            // c_cpp_properties.json accepte les commentaires
+            return JSON.parse(stripJsonComments(text));
+        } catch {
+            return null;
+        }
+    }
+
+    private isRecord(value: unknown): value is { [key: string]: unknown } {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    private strings(values: unknown[]): string[] {
+        return values.filter((value): value is string => typeof value === 'string');
+    }
+
+    private expandPath(includePath: string, root: string): string {
+        // "${default}" renvoie vers C_Cpp.default.includePath, lu séparément
+        if (includePath.includes('${default}')) {
+            return '';
+        }
+
+        const expanded = includePath
+            .replace(/\$\{(workspaceFolder|workspaceRoot)\}/g, root)
+            // "dir/**" (recherche récursive) : les sous-dossiers sont couverts par l'index
+            .replace(/[\\/]\*\*?$/, '');
+
+        return path.resolve(root, expanded);
+    }
+
+    private splitCommand(command: string): string[] {
+        return (command.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [])
+            .map(arg => arg.replace(/["']/g, ''));
+    }
+}
@@ -0,0 +1,60 @@
+#ifndef CONDITIONAL_TEST_H
+#define CONDITIONAL_TEST_H
+
+#include <stdint.h>
+
+#define TRACE_DEPTH 4
+
+// ENABLE_TRACE n'est défini nulle part : sa taille dépend de la ligne de commande
+typedef struct {
+    uint32_t id;
+#ifdef ENABLE_TRACE
+    void *trace[TRACE_DEPTH];
+#endif
+    uint16_t flags;
+} Record;
+
+// Macros prédéfinies de la cible
+struct Platform {
+#if defined(__x86_64__) || defined(__aarch64__)
+    uint64_t word;
+#elif defined(__i386__)
+    uint32_t word;
+#else
+    uint16_t word;
+#endif
+    char tag;
+};
+
+// Condition sur une macro du fichier
+#define USE_WIDE 0
+
+struct Text {
+#if USE_WIDE
+    uint16_t buffer[16];
+#else
+    char buffer[16];
+#endif
+    int length;
+};
+
+// Une macro retirée après usage reste utilisable dans la dimension
+#define SLOTS 3
+struct Slots {
+    int slot[SLOTS];
+};
+#undef SLOTS
+
+#ifdef SLOTS
+struct Phantom {
+    int slot;
+};
+#endif
+
+#if 0
+struct Disabled {
+    double value; /* } */
+};
+#endif
+
+#endif
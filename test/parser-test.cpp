@@ -0,0 +1,65 @@
+#include <cstdint>
+
+#define HAS_EXTRA 1
+
+namespace net {
+namespace detail {
+
+// Une accolade dans un commentaire } ou une chaîne ne ferme pas la structure
+struct Header {
+    uint8_t kind;   /* } */
+    const char *label = "}; struct Fake { double d; };";
+    char separator = '}';
+#ifdef HAS_EXTRA
+    uint32_t extra;
+#endif
+    uint16_t flags{0x1'0};
+};
+
+} // namespace detail
+
+using detail::Header;
+
+// Déclarateurs sur plusieurs lignes, membres anonymes, méthodes inline
+struct Message {
+    Header header;
+    int first, second,
+        third;
+    void (*on_done)(Message *, int);
+    unsigned int mode : 3, : 2, level : 4;
+    struct {
+        short x, y;
+    } origin, corners[2];
+    union {
+        int as_int;
+        float as_float;
+    };
+    enum Kind : uint8_t { Small, Large } size_kind;
+
+    Message() : first{1}, second(2), third{3} { if (first) { second = 0; } }
+    int sum() const { return first + second + third; }
+    bool operator<(const Message &other) const { return first < other.first; }
+    static const int limit = 4;
+};
+
+template <typename T, int N = 4>
+struct Ring {
+    T items[N];
+    int head, tail;
+};
+
+class Owner {
+public:
+    Ring<short, 3> small;
+    Ring<double> big;
+private:
+    char tag;
+};
+
+} // namespace net
+
+typedef struct list_node {
+    struct list_node *next;
+    const char *const name;
+    int values[2][3];
+} list_node_t;